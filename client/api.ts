@@ -5,17 +5,28 @@
 import { send } from '@koishijs/client'
 import type {
   MailAccount,
+  MailDirection,
   StoredMail,
   ForwardRule,
   ForwardElement,
-  ForwardTarget,
+  ChatForwardTarget,
   ForwardMode,
   RenderConfig,
   PaginatedResponse,
   ForwardPreviewResponse,
   ConnectionTestResult,
+  MailboxInfo,
   Stats,
   ForwardResult,
+  ForwardLog,
+  MailThreadSummary,
+  RuleBacktestRequest,
+  RuleBacktestResult,
+  RuleVersion,
+  RuleFieldDiff,
+  Delivery,
+  DeliveryStatus,
+  ShadowLog,
 } from './types'
 
 /** 通用 API 调用封装 */
@@ -50,6 +61,14 @@ export const accountApi = {
   testTemp: (data: Partial<MailAccount>) =>
     call<ConnectionTestResult>('mail-manager/accounts/test-temp', data),
 
+  /** 列出服务器文件夹（编辑已有账号时传入 id，可不填写密码） */
+  listMailboxes: (data: Partial<MailAccount>, id?: number) =>
+    call<MailboxInfo[]>('mail-manager/accounts/mailboxes', data, id),
+
+  /** 获取 HTTP 推送令牌（regenerate 为 true 时生成新令牌） */
+  inboundToken: (id: number, regenerate?: boolean) =>
+    call<string>('mail-manager/accounts/inbound-token', id, regenerate),
+
   /** 连接账号 */
   connect: (id: number) => call<void>('mail-manager/accounts/connect', id),
 
@@ -65,10 +84,12 @@ export const accountApi = {
 
 export interface MailListParams {
   accountId?: number
+  direction?: MailDirection
   page?: number
   pageSize?: number
   isRead?: boolean
   isForwarded?: boolean
+  mailbox?: string
   keyword?: string
   startDate?: string
   endDate?: string
@@ -92,6 +113,18 @@ export const mailApi = {
   forward: (mailId: number, ruleId?: number) =>
     call<ForwardResult>('mail-manager/mails/forward', mailId, ruleId),
 
+  /** 获取转发记录 */
+  forwardLogs: (mailId: number) =>
+    call<ForwardLog[]>('mail-manager/mails/forward-logs', mailId),
+
+  /** 按会话分组获取邮件列表 */
+  threads: (params: MailListParams = {}) =>
+    call<PaginatedResponse<MailThreadSummary>>('mail-manager/mails/threads', params),
+
+  /** 获取邮件所在会话的全部邮件 */
+  thread: (mailId: number) =>
+    call<StoredMail[]>('mail-manager/mails/thread', mailId),
+
   /** 批量删除邮件 */
   batchDelete: (accountId?: number, days?: number) =>
     call<{ deleted: number }>('mail-manager/mails/batch-delete', accountId, days),
@@ -115,6 +148,37 @@ export const ruleApi = {
 
   /** 删除规则 */
   delete: (id: number) => call<void>('mail-manager/rules/delete', id),
+
+  /** 回测一页邮件 */
+  backtest: (request: RuleBacktestRequest) =>
+    call<RuleBacktestResult>('mail-manager/rules/backtest', request),
+
+  /** 获取历史版本（新的在前） */
+  versions: (ruleId: number) => call<RuleVersion[]>('mail-manager/rules/versions', ruleId),
+
+  /** 对比两个版本，toVersion 留空时与当前配置对比 */
+  diff: (ruleId: number, fromVersion: number, toVersion?: number) =>
+    call<RuleFieldDiff[]>('mail-manager/rules/versions/diff', ruleId, fromVersion, toVersion),
+
+  /** 恢复到历史版本 */
+  restore: (ruleId: number, version: number) =>
+    call<ForwardRule>('mail-manager/rules/versions/restore', ruleId, version),
+
+  /** 获取已删除规则的最后版本 */
+  deleted: () => call<RuleVersion[]>('mail-manager/rules/deleted'),
+}
+
+// ============ 投递队列 API ============
+
+export const deliveryApi = {
+  /** 获取投递任务 */
+  list: (status?: DeliveryStatus) => call<Delivery[]>('mail-manager/deliveries/list', status),
+
+  /** 立即重试 */
+  retry: (id: number) => call<void>('mail-manager/deliveries/retry', id),
+
+  /** 丢弃任务 */
+  discard: (id: number) => call<void>('mail-manager/deliveries/discard', id),
 }
 
 // ============ 预览 API ============
@@ -134,11 +198,22 @@ export const previewApi = {
     call<ForwardPreviewResponse>('mail-manager/preview', params),
 }
 
+// ============ 影子运行 API ============
+
+export const shadowApi = {
+  /** 分页获取影子运行记录 */
+  list: (params: { ruleId?: number; page?: number; pageSize?: number }) =>
+    call<PaginatedResponse<ShadowLog>>('mail-manager/shadow-logs/list', params),
+
+  /** 清空影子运行记录 */
+  clear: (ruleId?: number) => call<{ deleted: number }>('mail-manager/shadow-logs/clear', ruleId),
+}
+
 // ============ 其他 API ============
 
 export const commonApi = {
   /** 获取可用转发目标 */
-  getTargets: () => call<ForwardTarget[]>('mail-manager/targets'),
+  getTargets: () => call<ChatForwardTarget[]>('mail-manager/targets'),
 
   /** 获取统计信息 */
   getStats: () => call<Stats>('mail-manager/stats'),
@@ -5,12 +5,51 @@
 /** 邮箱账号状态 */
 export type MailAccountStatus = 'connected' | 'connecting' | 'disconnected' | 'error'
 
+/** 账号认证方式 */
+export type MailAuthType = 'password' | 'oauth2'
+
+/** 邮件方向：收到的邮件 / 通过发信 SMTP 发出的邮件 */
+export type MailDirection = 'inbound' | 'outbound'
+
+/** 收信协议 */
+export type MailProtocol = 'imap' | 'pop3' | 'smtp' | 'http' | 'jmap'
+
+/** OAuth2 凭证（密钥类字段由服务端加密存储） */
+export interface OAuth2Credentials {
+  clientId: string
+  clientSecret?: string
+  refreshToken: string
+  /** 令牌端点，留空使用服务商默认值 */
+  tokenEndpoint?: string
+  scope?: string
+  accessToken?: string
+  expiresAt?: number
+}
+
+/** 发信 (SMTP) 设置，用户名与密码留空时沿用收信凭证 */
+export interface SmtpSendSettings {
+  enabled: boolean
+  host: string
+  port: number
+  /** 直接使用 TLS（465），关闭时通过 STARTTLS 升级 */
+  secure: boolean
+  username?: string
+  /** 加密存储，编辑时留空保持不变 */
+  password?: string
+  fromName?: string
+}
+
 /** 邮箱账号 */
 export interface MailAccount {
   id: number
   name: string
   email: string
   password: string
+  /** 收信协议，缺省为 IMAP */
+  protocol?: MailProtocol
+  /** 认证方式，缺省为密码 */
+  authType?: MailAuthType
+  oauth2?: OAuth2Credentials
   imapHost: string
   imapPort: number
   imapTls: boolean
@@ -18,6 +57,18 @@ export interface MailAccount {
   sendImapId?: boolean
   enabled: boolean
   proxyUrl?: string
+  /** 监听的文件夹列表，第一个为主文件夹；留空仅监听 INBOX */
+  mailboxes?: string[]
+  /** 只读观察者模式：不修改服务器上的邮件标记 */
+  readOnly?: boolean
+  /** POP3：下载后在服务器上保留邮件 */
+  pop3LeaveOnServer?: boolean
+  /** POP3：保留 N 天后删除，0 为永久保留 */
+  pop3DeleteAfterDays?: number
+  /** POP3：服务器不支持 STLS 时允许明文连接 */
+  pop3AllowInsecure?: boolean
+  /** 发信设置（用于回复邮件） */
+  smtp?: SmtpSendSettings
   status: MailAccountStatus
   lastError?: string
   createdAt: string
@@ -31,6 +82,12 @@ export interface MailAddress {
 }
 
 /** 邮件附件 */
+/** 邮件头 */
+export interface MailHeader {
+  name: string
+  value: string
+}
+
 export interface MailAttachment {
   filename: string
   contentType: string
@@ -43,14 +100,24 @@ export interface MailAttachment {
 export interface StoredMail {
   id: number
   accountId: number
+  /** 缺省为 inbound */
+  direction?: MailDirection
   messageId: string
+  /** 来源文件夹 */
+  mailbox?: string
+  /** 服务器上的邮件标记 */
+  serverFlags?: string[]
   from: MailAddress
   to: MailAddress[]
   cc?: MailAddress[]
   subject: string
+  /** 会话 ID */
+  threadId?: string
   textContent?: string
   htmlContent?: string
   attachments: MailAttachment[]
+  size?: number
+  headers?: MailHeader[]
   receivedAt: string
   isRead: boolean
   isForwarded: boolean
@@ -58,6 +125,15 @@ export interface StoredMail {
   createdAt: string
 }
 
+/** 按会话分组的邮件列表项 */
+export interface MailThreadSummary {
+  threadId: string
+  /** 会话中符合筛选条件的邮件数 */
+  count: number
+  /** 会话中最新的一封邮件 */
+  mail: StoredMail
+}
+
 /** 转发元素类型 */
 export type ForwardElementType =
   | 'subject'
@@ -93,23 +169,128 @@ export type ConditionType =
   | 'to_contains'
   | 'body_contains'
   | 'body_regex'
+  | 'mailbox_equals'
+  | 'cc_contains'
+  | 'from_domain'
+  | 'has_attachment'
+  | 'attachment_name_regex'
+  | 'attachment_type'
+  | 'size_greater_than'
+  | 'received_between'
+  | 'account_email'
+  | 'header_equals'
+  | 'header_contains'
+  | 'header_regex'
+  | 'header_exists'
+  | 'is_unread'
   | 'all'
 
 /** 匹配条件 */
 export interface ForwardCondition {
   type: ConditionType
   value: string
+  header?: string
   negate?: boolean
 }
 
+/** 条件组逻辑 */
+export type ConditionGroupLogic = 'and' | 'or' | 'not'
+
+/** 条件组 */
+export interface ConditionGroup {
+  type: 'group'
+  logic: ConditionGroupLogic
+  conditions: ConditionNode[]
+}
+
+/** 条件树节点 */
+export type ConditionNode = ForwardCondition | ConditionGroup
+
 /** 转发目标 */
-export interface ForwardTarget {
+export type ForwardTarget = ChatForwardTarget | EmailForwardTarget | WebhookForwardTarget
+
+/** 聊天转发目标 */
+export interface ChatForwardTarget {
+  type?: 'chat'
   platform: string
   selfId: string
   channelId: string
   displayName?: string
 }
 
+/** 邮件转发方式 */
+export type EmailForwardMode = 'redirect' | 'wrap'
+
+/** 邮件转发目标 */
+export interface EmailForwardTarget {
+  type: 'email'
+  address: string
+  accountId: number
+  mode: EmailForwardMode
+  displayName?: string
+}
+
+/** Webhook 转发目标 */
+export interface WebhookForwardTarget {
+  type: 'webhook'
+  url: string
+  headers?: Record<string, string>
+  secret?: string
+  bodyTemplate?: string
+  displayName?: string
+}
+
+/** Webhook 响应状态 */
+export interface WebhookResponse {
+  url: string
+  status: number
+  ok: boolean
+  durationMs: number
+}
+
+/** 转发记录（每个目标每次尝试一条） */
+export interface ForwardLog {
+  id: number
+  mailId: number
+  accountId: number
+  /** 未指定规则的手动转发为 0 */
+  ruleId: number
+  targetType: 'chat' | 'email' | 'webhook'
+  targetKey: string
+  targetName?: string
+  attempt: number
+  status: 'success' | 'failed'
+  error?: string
+  messageIds: string[]
+  /** Webhook 目标的 HTTP 状态码 */
+  httpStatus?: number
+  createdAt: string
+}
+
+/** 投递任务状态 */
+export type DeliveryStatus = 'pending' | 'running' | 'failed'
+
+/** 投递队列中的任务 */
+export interface Delivery {
+  id: number
+  mailId: number
+  accountId: number
+  ruleId: number
+  /** 待投递的目标，为空时使用规则的全部目标 */
+  targets?: ForwardTarget[]
+  status: DeliveryStatus
+  /** 是否因规则的投递时段被暂存 */
+  held: boolean
+  attempts: number
+  maxAttempts: number
+  nextAttemptAt: string
+  lastError?: string
+  createdAt: string
+  updatedAt: string
+  mailSubject?: string
+  ruleName?: string
+}
+
 /** 渲染配置 */
 export interface RenderConfig {
   imageWidth: number
@@ -131,6 +312,26 @@ export interface RegexConfig {
   template?: string
 }
 
+/** 投递时段 */
+export interface DeliverySchedule {
+  /** 允许投递的时段，如 `mon-fri 09:00-18:00` */
+  windows: string
+  /** 时区，留空使用插件配置 */
+  timezone?: string
+  /** 合并暂存的邮件为一条消息 */
+  bundle?: boolean
+}
+
+/** 摘要模式 */
+export interface DigestConfig {
+  /** 汇总时长（分钟），0 表示不按时间发送 */
+  windowMinutes: number
+  /** 累积数量阈值，0 表示不按数量发送 */
+  maxCount: number
+  /** 渲染为图片 */
+  image?: boolean
+}
+
 /** 转发规则 */
 export interface ForwardRule {
   id: number
@@ -138,17 +339,128 @@ export interface ForwardRule {
   description?: string
   enabled: boolean
   accountId?: number
+  conditionLogic?: 'and' | 'or'
   conditions: ForwardCondition[]
+  conditionTree?: ConditionGroup
   targets: ForwardTarget[]
   forwardMode?: ForwardMode
   elements: ForwardElement[]
   regexConfig?: RegexConfig
   customCss?: string
   renderConfig: RenderConfig
+  /** 跳过已被本规则转发过的邮件 */
+  skipForwarded?: boolean
+  /** 命中后停止处理后续规则 */
+  stopProcessing?: boolean
+  /** 只转发会话中的首封邮件 */
+  threadFirstOnly?: boolean
+  /** 引用同一会话的上一条转发消息 */
+  threadQuote?: boolean
+  /** 影子运行：只记录不投递 */
+  shadow?: boolean
+  /** 投递时段 */
+  schedule?: DeliverySchedule | null
+  /** 摘要模式 */
+  digest?: DigestConfig | null
   createdAt: string
   updatedAt: string
 }
 
+/** 影子规则本会执行的操作 */
+export type ShadowAction = 'forward' | 'digest' | 'skipped'
+
+/** 影子运行记录 */
+export interface ShadowLog {
+  id: number
+  ruleId: number
+  ruleName?: string
+  mailId: number
+  accountId: number
+  mailSubject: string
+  action: ShadowAction
+  /** 跳过原因或时段外的投递时间 */
+  detail?: string
+  /** 本会投递的目标名称 */
+  targets: string[]
+  createdAt: string
+}
+
+/** 规则回测请求 */
+export interface RuleBacktestRequest {
+  ruleId?: number
+  /** 未保存的规则草稿，覆盖已保存规则的对应字段 */
+  draft?: Record<string, unknown>
+  days: number
+  cursor?: number
+  pageSize?: number
+}
+
+/** 规则回测结果（一页） */
+export interface RuleBacktestResult {
+  total: number
+  scanned: number
+  matches: RuleBacktestMatch[]
+  conditionHits: RuleBacktestConditionHit[]
+  shadowedRules: RuleBacktestRuleCount[]
+  blockingRules: RuleBacktestRuleCount[]
+  nextCursor?: number
+}
+
+/** 回测命中的邮件 */
+export interface RuleBacktestMatch {
+  mail: Pick<StoredMail, 'id' | 'accountId' | 'subject' | 'from' | 'receivedAt'>
+  /** 被回测规则遮蔽的已有规则 ID */
+  shadowedRuleIds: number[]
+  /** 先于回测规则命中的已有规则 ID */
+  blockedByRuleId?: number
+}
+
+/** 条件树节点的满足次数 */
+export interface RuleBacktestConditionHit {
+  depth: number
+  description: string
+  hits: number
+}
+
+/** 已有规则受回测规则影响的邮件数 */
+export interface RuleBacktestRuleCount {
+  ruleId: number
+  ruleName: string
+  count: number
+}
+
+/** 规则变更类型 */
+export type RuleVersionAction = 'create' | 'update' | 'delete' | 'restore'
+
+/** 规则历史版本 */
+export interface RuleVersion {
+  id: number
+  ruleId: number
+  version: number
+  action: RuleVersionAction
+  snapshot: ForwardRule
+  /** 执行变更的控制台用户 */
+  operator?: string
+  /** 恢复操作的来源版本号 */
+  restoredFrom?: number
+  createdAt: string
+}
+
+/** 两个规则版本间的字段差异，嵌套字段以点号连接 */
+export interface RuleFieldDiff {
+  field: string
+  before?: unknown
+  after?: unknown
+}
+
+/** 服务器文件夹 */
+export interface MailboxInfo {
+  path: string
+  name: string
+  delimiter: string
+  specialUse?: string
+}
+
 /** 分页响应 */
 export interface PaginatedResponse<T> {
   items: T[]
@@ -197,4 +509,6 @@ export interface ForwardResult {
   totalTargets: number
   /** 错误消息列表 */
   errors?: string[]
+  /** Webhook 目标的响应状态 */
+  webhookResponses?: WebhookResponse[]
 }
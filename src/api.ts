@@ -1,14 +1,18 @@
 import { Context, $ } from 'koishi'
+import type { Client } from '@koishijs/plugin-console'
 import * as core from './core'
 import { getLogger } from './logger'
 import { Config } from './config'
-import { cleanExpiredMails } from './cleanup'
+import { cleanExpiredMails, removeMails } from './cleanup'
 import type {
   CreateMailAccountRequest,
   UpdateMailAccountRequest,
   MailListQuery,
   ForwardPreviewRequest,
   ForwardRule,
+  RuleBacktestRequest,
+  DeliveryStatus,
+  ShadowLogQuery,
 } from './types'
 
 /** 日志代理，封装 getLogger() 确保安全记录 */
@@ -39,6 +43,13 @@ class LoggerProxy {
 
 const logger = new LoggerProxy()
 
+/** 获取控制台客户端的登录用户（需启用 auth 插件，未登录时为空） */
+function getConsoleUser(client: Client): string | undefined {
+  const auth = (client as Client & { auth?: { id: number; name?: string } }).auth
+  if (!auth) return undefined
+  return auth.name || `#${auth.id}`
+}
+
 /** 注册控制台 API */
 export function registerConsoleApi(ctx: Context, config: Config): void {
   new ApiRegistrar(ctx, config).register()
@@ -54,6 +65,8 @@ class ApiRegistrar {
     this.registerAccountApis()
     this.registerMailApis()
     this.registerRuleApis()
+    this.registerDeliveryApis()
+    this.registerShadowApis()
     this.registerPreviewApis()
     this.registerSystemApis()
     this.registerCleanupApis()
@@ -81,11 +94,17 @@ class ApiRegistrar {
       core.testConnectionWithConfig(data)
     )
 
+    this.addListener('mail-manager/accounts/mailboxes', (data: Partial<CreateMailAccountRequest>, id?: number) =>
+      core.listAccountMailboxes(data, id)
+    )
+
     this.addListener('mail-manager/accounts/connect', (id: number) => core.connectAccount(id))
 
     this.addListener('mail-manager/accounts/disconnect', (id: number) => core.disconnectAccount(id))
 
     this.addListener('mail-manager/accounts/sync', (id: number, days?: number) => core.syncAccountMails(id, days))
+
+    this.addListener('mail-manager/accounts/inbound-token', (id: number, regenerate?: boolean) => core.getInboundToken(id, regenerate))
   }
 
   /** 邮件管理 API */
@@ -104,6 +123,12 @@ class ApiRegistrar {
 
     this.addListener('mail-manager/mails/forward', (mailId: number, ruleId?: number) => core.forwardMail(mailId, ruleId))
 
+    this.addListener('mail-manager/mails/forward-logs', (mailId: number) => core.getForwardLogs(mailId))
+
+    this.addListener('mail-manager/mails/threads', (query: MailListQuery) => core.getMailThreads(query))
+
+    this.addListener('mail-manager/mails/thread', (mailId: number) => core.getThreadMails(mailId))
+
     this.addListener('mail-manager/mails/batch-delete', (accountId?: number, days?: number) => core.batchDeleteMails(accountId, days))
   }
 
@@ -117,34 +142,45 @@ class ApiRegistrar {
       return rule
     })
 
-    this.addListener('mail-manager/rules/create', (data: Partial<ForwardRule>) => core.createRule(data))
+    this.addOperatorListener('mail-manager/rules/create', (operator, data: Partial<ForwardRule>) =>
+      core.createRule(data, { operator }))
+
+    this.addOperatorListener('mail-manager/rules/update', (operator, id: number, data: Partial<ForwardRule>) =>
+      core.updateRule(id, data, { operator }))
+
+    this.addOperatorListener('mail-manager/rules/delete', (operator, id: number) => core.deleteRule(id, { operator }))
+
+    // 历史版本
+    this.addListener('mail-manager/rules/versions', (ruleId: number) => core.getRuleVersions(ruleId))
+
+    this.addListener('mail-manager/rules/versions/diff', (ruleId: number, fromVersion: number, toVersion?: number) =>
+      core.diffRuleVersions(ruleId, fromVersion, toVersion))
 
-    this.addListener('mail-manager/rules/update', (id: number, data: Partial<ForwardRule>) => core.updateRule(id, data))
+    this.addOperatorListener('mail-manager/rules/versions/restore', (operator, ruleId: number, version: number) =>
+      core.restoreRuleVersion(ruleId, version, operator))
 
-    this.addListener('mail-manager/rules/delete', (id: number) => core.deleteRule(id))
+    this.addListener('mail-manager/rules/deleted', () => core.getDeletedRules())
 
     // 规则测试
     this.addListener('mail-manager/rules/test', async (ruleId: number, mailId: number) => {
       return await core.testRule(ruleId, mailId)
     })
 
+    // 规则回测
+    this.addListener('mail-manager/rules/backtest', (request: RuleBacktestRequest) => core.backtestRule(request))
+
     // 规则导出
     this.addListener('mail-manager/rules/export', async () => {
       const rules = await core.getRules()
       return {
-        version: '1.0',
+        version: core.RULE_EXPORT_VERSION,
         exportedAt: new Date().toISOString(),
-        rules: rules.map(r => ({
-          ...r,
-          id: undefined, // 导出时移除 ID
-          createdAt: undefined,
-          updatedAt: undefined,
-        })),
+        rules: rules.map(r => core.toExportedRule(r)),
       }
     })
 
     // 规则导入
-    this.addListener('mail-manager/rules/import', async (data: { version: string; rules: Partial<ForwardRule>[] }) => {
+    this.addOperatorListener('mail-manager/rules/import', async (operator, data: { version: string; rules: Partial<ForwardRule>[] }) => {
       if (!data || !data.rules || !Array.isArray(data.rules)) {
         throw new Error('无效的导入数据格式')
       }
@@ -172,10 +208,11 @@ class ApiRegistrar {
             continue
           }
 
+          // 1.0 格式的平铺条件自动迁移为条件树
           await core.createRule({
-            ...ruleData,
+            ...core.migrateImportedRule(ruleData),
             name,
-          })
+          }, { operator })
           existingNames.add(name)
           imported++
         } catch (e) {
@@ -188,6 +225,22 @@ class ApiRegistrar {
     })
   }
 
+  /** 投递队列 API */
+  private registerDeliveryApis() {
+    this.addListener('mail-manager/deliveries/list', (status?: DeliveryStatus) => core.listDeliveries(status))
+
+    this.addListener('mail-manager/deliveries/retry', (id: number) => core.retryDelivery(id))
+
+    this.addListener('mail-manager/deliveries/discard', (id: number) => core.discardDelivery(id))
+  }
+
+  /** 影子运行 API */
+  private registerShadowApis() {
+    this.addListener('mail-manager/shadow-logs/list', (query: ShadowLogQuery) => core.getShadowLogs(query))
+
+    this.addListener('mail-manager/shadow-logs/clear', (ruleId?: number) => core.deleteShadowLogs(ruleId))
+  }
+
   /** 预览 API */
   private registerPreviewApis() {
     this.addListener('mail-manager/preview', (request: ForwardPreviewRequest) => core.getForwardPreview(request))
@@ -351,10 +404,7 @@ class ApiRegistrar {
 
       if (batch.length === 0) break
 
-      const batchIds = batch.map(m => m.id)
-      await this.ctx.database.remove('mail_manager.mails', {
-        id: { $in: batchIds },
-      })
+      await removeMails(this.ctx, batch.map(m => m.id))
 
       totalDeleted += batch.length
       batchCount++
@@ -376,4 +426,11 @@ class ApiRegistrar {
   private addListener(name: string, callback: (...args: unknown[]) => unknown) {
     this.ctx.console.addListener(name as any, callback as any)
   }
+
+  /** 注册需要记录操作人的 API，回调的第一个参数为当前控制台用户 */
+  private addOperatorListener(name: string, callback: (operator: string | undefined, ...args: unknown[]) => unknown) {
+    this.addListener(name, function (this: Client, ...args: unknown[]) {
+      return callback(getConsoleUser(this), ...args)
+    })
+  }
 }
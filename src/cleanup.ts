@@ -12,6 +12,26 @@ export interface CleanupOptions {
   reportProgress?: (message: string) => Promise<void>
 }
 
+/** 以 mailId 关联邮件的表，邮件删除时一并删除 */
+const MAIL_RELATION_TABLES = [
+  'mail_manager.forward_logs',
+  'mail_manager.message_links',
+  'mail_manager.shadow_logs',
+  'mail_manager.digest_items',
+  'mail_manager.deliveries',
+] as const
+
+/**
+ * 删除邮件及其转发记录、消息关联、影子运行记录、摘要项与投递任务
+ */
+export async function removeMails(ctx: Context, mailIds: number[]): Promise<void> {
+  if (mailIds.length === 0) return
+  for (const table of MAIL_RELATION_TABLES) {
+    await ctx.database.remove(table, { mailId: { $in: mailIds } })
+  }
+  await ctx.database.remove('mail_manager.mails', { id: { $in: mailIds } })
+}
+
 /**
  * 批量清理过期邮件
  *
@@ -71,7 +91,7 @@ export async function cleanExpiredMails(
 
     if (batch.length === 0) break
 
-    await ctx.database.remove('mail_manager.mails', { id: { $in: batch.map(m => m.id) } })
+    await removeMails(ctx, batch.map(m => m.id))
 
     totalDeleted += batch.length
 
@@ -83,6 +103,9 @@ export async function cleanExpiredMails(
     await sleep(50)
   }
 
+  // 转发消息关联只用于引用回复，随邮件一同过期
+  await ctx.database.remove('mail_manager.message_links', { createdAt: { $lt: expirationThreshold } })
+
   return totalDeleted
 }
 
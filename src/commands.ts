@@ -1,6 +1,8 @@
-import { Context, $ } from 'koishi'
+import { Context, $, h } from 'koishi'
 import { Config } from './config'
 import { cleanExpiredMails } from './cleanup'
+import { findMailByChatMessage, flushDigest, getDigestSummaries, replyToMail, sendMail } from './core'
+import type { OutgoingAttachment } from './types'
 import { sleep } from './utils'
 
 /**
@@ -10,6 +12,9 @@ export function registerCommands(ctx: Context, config: Config) {
   registerCleanupCommand(ctx, config)
   registerMemoryCommand(ctx)
   registerGcCommand(ctx)
+  registerReplyCommand(ctx, config)
+  registerSendCommand(ctx, config)
+  registerDigestCommand(ctx, config)
 }
 
 function registerCleanupCommand(ctx: Context, config: Config) {
@@ -102,3 +107,132 @@ function registerGcCommand(ctx: Context) {
       return `释放 ${freedMB} MB，当前 ${(after.heapUsed / 1024 / 1024).toFixed(2)} MB`
     })
 }
+
+/**
+ * 注册 'mail.reply' 命令，引用一条转发的邮件消息后回复原邮件
+ */
+function registerReplyCommand(ctx: Context, config: Config) {
+  ctx.command('mail.reply <content:text>', '回复邮件', { authority: config.replyAuthority })
+    .option('all', '-a 回复全部（抄送原邮件的其他收件人）')
+    .usage('引用一条由本插件转发的邮件消息并发送此命令，回复内容会通过该账号的发信 SMTP 发给原发件人。')
+    .action(async ({ options, session }, content) => {
+      const quoteId = session.quote?.id
+      if (!quoteId) return '请引用一条转发的邮件消息'
+      const text = toPlainText(h.parse(content || ''))
+      if (!text) return '请输入回复内容'
+
+      try {
+        const mail = await findMailByChatMessage(session.platform, session.channelId, quoteId)
+        if (!mail) return '引用的消息没有对应的邮件（不是转发消息或邮件已被清理）'
+
+        const result = await replyToMail(mail.id, text, { replyAll: !!options.all })
+        const recipients = [...result.to, ...result.cc].map(a => a.address).join(', ')
+        return `已回复「${mail.subject}」-> ${recipients}`
+      } catch (err) {
+        ctx.logger.warn('Reply failed: %s', (err as Error).message)
+        return `回复失败: ${(err as Error).message}`
+      }
+    })
+}
+
+/**
+ * 注册 'mail.send' 命令，通过账号的发信 SMTP 发送新邮件
+ */
+function registerSendCommand(ctx: Context, config: Config) {
+  ctx.command('mail.send <to:string> <subject:string> [content:text]', '发送邮件', { authority: config.sendAuthority })
+    .option('account', '-a <account:string> 发信账号（ID、邮箱地址或名称）')
+    .option('cc', '-c <cc:string> 抄送地址（多个用逗号分隔）')
+    .usage('正文可以换行；消息中的图片与引用消息中的图片会作为附件一并发送。')
+    .example('mail.send -a 1 ops@example.com 部署完成 今晚 20:00 的部署已完成')
+    .action(async ({ options, session }, to, subject, content) => {
+      if (!options.account) return '请使用 -a 指定发信账号'
+      if (!to || !subject) return '请填写收件人与主题'
+
+      const elements = h.parse(content || '')
+      const quoted = session.quote?.elements ?? h.parse(session.quote?.content || '')
+      const images = [...h.select(elements, 'img'), ...h.select(quoted, 'img')]
+
+      try {
+        const attachments = await downloadImages(ctx, images)
+        const mail = await sendMail({
+          account: options.account,
+          to,
+          cc: options.cc,
+          subject,
+          text: toPlainText(elements),
+          attachments,
+        })
+        const extra = attachments.length ? `（${attachments.length} 个附件）` : ''
+        return `已发送「${mail.subject}」-> ${mail.to.map(a => a.address).join(', ')}${extra}`
+      } catch (err) {
+        ctx.logger.warn('Send failed: %s', (err as Error).message)
+        return `发送失败: ${(err as Error).message}`
+      }
+    })
+}
+
+/**
+ * 注册 'mail.digest' 命令，查看或立即发送摘要模式规则累积的邮件
+ */
+function registerDigestCommand(ctx: Context, config: Config) {
+  ctx.command('mail.digest [rule:number]', '查看或发送摘要', { authority: config.digestAuthority })
+    .option('all', '-a 发送所有规则的摘要')
+    .usage('不带参数时列出各规则待发送的摘要；指定规则 ID 或使用 -a 时立即发送。')
+    .example('mail.digest 3')
+    .action(async ({ options }, ruleId) => {
+      try {
+        const summaries = await getDigestSummaries(ruleId)
+
+        if (!ruleId && !options.all) {
+          if (summaries.length === 0) return '没有待发送的摘要'
+          return summaries
+            .map(s => `#${s.ruleId} ${s.ruleName ?? '(已删除)'}: ${s.count} 封，最早 ${new Date(s.since).toLocaleString()}`)
+            .join('\n')
+        }
+
+        if (summaries.length === 0) return '没有待发送的摘要'
+        const lines: string[] = []
+        for (const summary of summaries) {
+          // 规则已删除的摘要由定时检查丢弃
+          if (summary.ruleName === undefined) continue
+          const { count, result } = await flushDigest(summary.ruleId)
+          const name = summary.ruleName
+          if (!result) continue
+          lines.push(result.successCount > 0
+            ? `${name}: 已发送 ${count} 封 (${result.successCount}/${result.totalTargets})`
+            : `${name}: 发送失败 ${result.errors?.join('; ') || ''}`)
+        }
+        return lines.join('\n') || '没有待发送的摘要'
+      } catch (err) {
+        ctx.logger.warn('Digest flush failed: %s', (err as Error).message)
+        return `失败: ${(err as Error).message}`
+      }
+    })
+}
+
+/**
+ * 提取消息中的纯文本（去除图片等元素，保留换行）
+ */
+function toPlainText(elements: h[]): string {
+  return elements.map(el => el.toString(true)).join('').trim()
+}
+
+async function downloadImages(ctx: Context, images: h[]): Promise<OutgoingAttachment[]> {
+  const attachments: OutgoingAttachment[] = []
+  for (const [index, image] of images.entries()) {
+    const src = image.attrs.src || image.attrs.url
+    if (!src) continue
+    try {
+      const file = await ctx.http.file(src)
+      const ext = file.type?.split('/')[1]?.split(/[;+]/)[0] || 'png'
+      attachments.push({
+        filename: file.filename && /\.\w+$/.test(file.filename) ? file.filename : `image-${index + 1}.${ext}`,
+        content: Buffer.from(file.data),
+        contentType: file.type || undefined,
+      })
+    } catch (err) {
+      throw new Error(`下载图片失败: ${(err as Error).message}`)
+    }
+  }
+  return attachments
+}
@@ -16,6 +16,16 @@ export interface Config {
   connectionTimeout: number
   healthCheckInterval: number
   connectivityTestTimeout: number
+  inboundMode: 'smtp' | 'lmtp'
+  inboundHost: string
+  inboundPort: number
+  inboundMaxSize: number
+  inboundHttpPath: string
+  replyAuthority: number
+  sendAuthority: number
+  ruleTimezone: string
+  ruleMatchStrategy: 'first-match' | 'all-match'
+  digestAuthority: number
 }
 
 // 每次加载配置时生成新密钥（未持久化时作为默认值）
@@ -57,5 +67,39 @@ export const Config: Schema<Config> = Schema.intersect([
     connectivityTestTimeout: Schema.number().default(3000).min(1000).max(10000)
       .description('DNS 候选 IP 连通性测试超时（毫秒）'),
   }).description('网络探测与健康检查'),
+
+  Schema.object({
+    inboundMode: Schema.union([
+      Schema.const('smtp').description('SMTP（MX 直接投递）'),
+      Schema.const('lmtp').description('LMTP（Postfix 等本地投递）'),
+    ]).default('smtp').description('收信端点协议'),
+    inboundHost: Schema.string().default('127.0.0.1')
+      .description('监听地址（端点不支持 TLS 与认证，建议只监听本机并由 MTA 转交）'),
+    inboundPort: Schema.number().default(2525).min(1).max(65535)
+      .description('监听端口'),
+    inboundMaxSize: Schema.number().default(25).min(1).max(100)
+      .description('单封邮件大小上限（MB）'),
+    inboundHttpPath: Schema.string().default('/mail-manager/inbound')
+      .description('HTTP 推送路由路径（挂载在 Koishi 服务器上，按账号令牌鉴权）'),
+  }).description('内置收信端点（SMTP/LMTP 仅在存在启用的推送账号时监听）'),
+
+  Schema.object({
+    replyAuthority: Schema.number().default(3).min(0).max(5)
+      .description('使用 mail.reply 回复邮件所需的最低权限等级'),
+    sendAuthority: Schema.number().default(3).min(0).max(5)
+      .description('使用 mail.send 发送邮件所需的最低权限等级'),
+  }).description('发信命令（需在账号中配置发信 SMTP）'),
+
+  Schema.object({
+    ruleTimezone: Schema.string().default('')
+      .description('「接收时段」条件使用的时区（IANA 名称，如 Asia/Shanghai；留空使用服务器时区）'),
+    ruleMatchStrategy: Schema.union([
+      Schema.const('first-match').description('只执行优先级最高的匹配规则'),
+      Schema.const('all-match').description('依次执行所有匹配规则，遇到「停止处理后续规则」时停止'),
+    ]).default('first-match')
+      .description('多条规则同时匹配时的处理方式'),
+    digestAuthority: Schema.number().default(3).min(0).max(5)
+      .description('使用 mail.digest 查看或立即发送摘要所需的最低权限等级'),
+  }).description('转发规则'),
 ])
 
@@ -0,0 +1,92 @@
+/**
+ * 邮件来源连接接口
+ *
+ * IMAP、POP3 等协议的连接实现都遵循此接口，
+ * 核心模块只通过它管理连接生命周期与手动同步。
+ */
+
+import type { MailAccount } from './types'
+import type { ParsedMail } from './parser'
+
+/** 手动同步结果 */
+export interface MailSyncResult {
+  /** 服务器上符合条件的邮件总数 */
+  total: number
+  /** 实际下载并交给回调的邮件数 */
+  synced: number
+  /** 本地已存在而跳过的邮件数 */
+  skippedExisting: number
+}
+
+/** 邮件来源连接 */
+export interface MailSourceConnection {
+  /** 当前连接状态 */
+  readonly status: MailAccount['status']
+
+  /** 是否已达到终止状态（已销毁或超过最大重连次数） */
+  isTerminallyFailed(): boolean
+
+  /** 建立连接并开始监听新邮件 */
+  connect(): Promise<void>
+
+  /** 断开连接并释放全部资源 */
+  disconnect(): Promise<void>
+
+  /** 重置重连计数器 */
+  resetReconnectAttempts(): void
+
+  /**
+   * 同步邮件
+   *
+   * @param days 同步最近 N 天的邮件（可选）
+   * @param onBatch 批次处理回调
+   * @param existingMessageIds 本地已存在的 Message-ID，用于跳过下载
+   */
+  syncMails(
+    days?: number,
+    onBatch?: (mails: ParsedMail[]) => Promise<void>,
+    existingMessageIds?: Set<string>
+  ): Promise<MailSyncResult>
+}
+
+/**
+ * 推送型账号的连接
+ *
+ * 邮件由外部主动推送（如 HTTP 路由），不需要连接任何服务器；
+ * 启用期间始终视为已连接，仅用于统一账号状态管理。
+ */
+export class PushConnection implements MailSourceConnection {
+  private connected = false
+  private disposed = false
+
+  constructor(private readonly onStatusChanged?: (status: MailAccount['status'], error?: string) => void) {}
+
+  get status(): MailAccount['status'] {
+    return this.connected ? 'connected' : 'disconnected'
+  }
+
+  isTerminallyFailed(): boolean {
+    return this.disposed
+  }
+
+  async connect(): Promise<void> {
+    if (this.disposed || this.connected) return
+    this.connected = true
+    this.onStatusChanged?.('connected')
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.disposed) return
+    this.disposed = true
+    if (!this.connected) return
+    this.connected = false
+    this.onStatusChanged?.('disconnected')
+  }
+
+  resetReconnectAttempts(): void {}
+
+  /** 推送模式没有可回溯的服务器邮箱 */
+  async syncMails(): Promise<MailSyncResult> {
+    return { total: 0, synced: 0, skippedExisting: 0 }
+  }
+}
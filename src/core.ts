@@ -23,10 +23,53 @@ export {
   deleteAccount,
   testConnection,
   testConnectionWithConfig,
+  listAccountMailboxes,
   connectAccount,
   disconnectAccount,
   updateAccountStatus,
 
+  // HTTP 推送令牌
+  getInboundToken,
+  findAccountByInboundToken,
+
+  // 转发消息关联
+  findMailByChatMessage,
+
+  // 邮件会话
+  getMailThreads,
+  getThreadMails,
+
+  // 转发记录
+  getForwardLogs,
+  isForwardedByRule,
+
+  // 投递队列
+  listDeliveries,
+  retryDelivery,
+  discardDelivery,
+
+  // 摘要模式
+  flushDigest,
+  getDigestSummaries,
+
+  // 影子运行
+  getShadowLogs,
+  deleteShadowLogs,
+
+  // 规则回测
+  backtestRule,
+
+  // 规则历史版本
+  getRuleVersions,
+  getDeletedRules,
+  diffRuleVersions,
+  restoreRuleVersion,
+
+  // 外发邮件
+  sendMail,
+  replyToMail,
+  sendFromAccount,
+
   // 邮件管理
   getMails,
   getMail,
@@ -45,6 +88,13 @@ export {
   deleteRule,
   testRule,
   matchConditions,
+  matchConditionTree,
+  createConditionContext,
+  getConditionTree,
+  validateConditionTree,
+  toExportedRule,
+  migrateImportedRule,
+  RULE_EXPORT_VERSION,
   checkSingleCondition,
   safeRegexTest,
   getForwardPreview,
@@ -53,6 +103,7 @@ export {
 
   // 转发功能
   handleNewMail,
+  ingestMail,
   forwardMail,
   executeForward,
   broadcastToTargets,
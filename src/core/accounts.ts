@@ -6,16 +6,29 @@
 
 import type {
   MailAccount,
+  OAuth2Credentials,
+  SmtpSendSettings,
   CreateMailAccountRequest,
   UpdateMailAccountRequest,
   ConnectionTestResult,
+  MailboxInfo,
 } from '../types'
-import { ImapConnection } from '../imap'
+import type { ParsedMail } from '../parser'
+import { PushConnection, type MailSourceConnection } from '../connection'
+import { ImapConnection, normalizeMailboxes, type MailFlagChange } from '../imap'
+import { Pop3Connection } from '../pop3'
+import { SmtpConnection } from '../smtp'
+import { JmapConnection } from '../jmap'
 import { LogModule } from '../logger'
 import { encryptPassword, decryptPassword } from '../utils/crypto'
 import {
   TABLE_ACCOUNTS,
   TABLE_MAILS,
+  TABLE_MESSAGE_LINKS,
+  TABLE_FORWARD_LOGS,
+  TABLE_DELIVERIES,
+  TABLE_DIGEST_ITEMS,
+  TABLE_SHADOW_LOGS,
   activeConnections,
   accountOperationLocks,
   getCurrentInstanceId,
@@ -24,6 +37,23 @@ import {
   getNewMailHandler,
   getLogger,
 } from './state'
+import { createMailboxStateStore, createJmapStateStore, clearMailboxStates, applyServerFlagChanges } from './mailbox-states'
+import { createPop3UidStore, clearPop3Uids } from './pop3-uids'
+import { generateInboundToken } from './inbound-tokens'
+import {
+  mergeOAuth2Credentials,
+  getAccountAccessToken,
+  withTemporaryAccessToken,
+} from './oauth2'
+
+/** 以 accountId 关联账号的邮件附属记录，删除账号时一并删除 */
+const ACCOUNT_RELATION_TABLES = [
+  TABLE_MESSAGE_LINKS,
+  TABLE_FORWARD_LOGS,
+  TABLE_DELIVERIES,
+  TABLE_DIGEST_ITEMS,
+  TABLE_SHADOW_LOGS,
+] as const
 
 // ============ 账号查询 ============
 
@@ -52,15 +82,30 @@ export async function createAccount(data: CreateMailAccountRequest): Promise<Mai
   const ctx = getContext()
   const logger = getLogger()
   const now = new Date()
+  const authType = data.authType ?? 'password'
+
+  if (authType === 'oauth2' && (!data.oauth2?.clientId || !data.oauth2?.refreshToken)) {
+    throw new Error('OAuth2 认证需要客户端 ID 和刷新令牌')
+  }
 
   const account = await ctx.database.create(TABLE_ACCOUNTS, {
     name: data.name,
     email: data.email.trim(),
-    password: encryptPassword(data.password),
-    imapHost: data.imapHost.trim(),
+    password: encryptPassword(data.password || ''),
+    authType,
+    oauth2: authType === 'oauth2' ? mergeOAuth2Credentials(data.oauth2!) : undefined,
+    imapHost: (data.imapHost || '').trim(),
     imapPort: data.imapPort ?? 993,
     imapTls: data.imapTls ?? true,
     proxyUrl: data.proxyUrl || undefined,
+    mailboxes: normalizeMailboxes(data.mailboxes),
+    readOnly: data.readOnly ?? false,
+    protocol: data.protocol ?? 'imap',
+    pop3LeaveOnServer: data.pop3LeaveOnServer ?? true,
+    pop3DeleteAfterDays: data.pop3DeleteAfterDays ?? 0,
+    pop3AllowInsecure: data.pop3AllowInsecure ?? false,
+    inboundToken: data.protocol === 'http' ? generateInboundToken() : undefined,
+    smtp: data.smtp ? mergeSmtpSettings(data.smtp) : undefined,
     enabled: data.enabled ?? false,
     sendImapId: false,
     status: 'disconnected',
@@ -88,7 +133,14 @@ export async function updateAccount(id: number, data: UpdateMailAccountRequest):
   const wasEnabled = existing.enabled
   const isEnabled = data.enabled ?? existing.enabled
 
-  await updateAccountInDatabase(id, data)
+  // 切换协议后原有的水位线/UIDL 全部失效，重新从当前位置开始监听
+  if (data.protocol !== undefined && data.protocol !== (existing.protocol || 'imap')) {
+    await disconnectAccount(id)
+    await clearMailboxStates(id)
+    await clearPop3Uids(id)
+  }
+
+  await updateAccountInDatabase(existing, data)
   await handleAccountStateChange(id, wasEnabled, isEnabled, data)
 
   return (await fetchAccountById(id))!
@@ -100,6 +152,11 @@ export async function deleteAccount(id: number): Promise<void> {
 
   await disconnectAccount(id)
   await ctx.database.remove(TABLE_MAILS, { accountId: id })
+  await clearMailboxStates(id)
+  await clearPop3Uids(id)
+  for (const table of ACCOUNT_RELATION_TABLES) {
+    await ctx.database.remove(table, { accountId: id })
+  }
   await ctx.database.remove(TABLE_ACCOUNTS, { id })
   logger.debug(LogModule.SYSTEM, `删除账号 #${id}`)
 }
@@ -124,7 +181,16 @@ export async function testConnection(id: number): Promise<ConnectionTestResult>
     }
   }
 
-  const result = await ImapConnection.testConnection(account)
+  if (account.authType === 'oauth2') {
+    try {
+      const accessToken = await getAccountAccessToken(id)
+      account.oauth2 = { ...account.oauth2!, accessToken }
+    } catch (e) {
+      return { success: false, message: (e as Error).message }
+    }
+  }
+
+  const result = await testSourceConnection(account)
   return {
     ...result,
     details: {
@@ -139,22 +205,40 @@ export async function testConnectionWithConfig(data: Partial<CreateMailAccountRe
   const email = data.email?.trim() || ''
   const password = data.password || ''
   const imapHost = data.imapHost?.trim() || ''
+  const isOAuth2 = data.authType === 'oauth2'
 
-  if (!email || !password || !imapHost) {
+  if (data.protocol === 'smtp' || data.protocol === 'http') {
+    return testSourceConnection({ protocol: data.protocol, email })
+  }
+
+  if (!email || !imapHost || (!isOAuth2 && !password)) {
     return { success: false, message: '测试连接需要邮箱地址、授权码/密码和 IMAP 服务器' }
   }
+  if (isOAuth2 && (!data.oauth2?.clientId || !data.oauth2?.refreshToken)) {
+    return { success: false, message: '测试 OAuth2 连接需要填写客户端 ID 和刷新令牌' }
+  }
 
-  const tempAccount: Partial<MailAccount> = {
+  let tempAccount: Partial<MailAccount> = {
     name: data.name || '临时测试账号',
+    protocol: data.protocol ?? 'imap',
     email,
     password,
     imapHost,
     imapPort: data.imapPort ?? 993,
     imapTls: data.imapTls ?? true,
+    pop3AllowInsecure: data.pop3AllowInsecure ?? false,
     proxyUrl: data.proxyUrl || undefined,
   }
 
-  const result = await ImapConnection.testConnection(tempAccount)
+  if (isOAuth2) {
+    try {
+      tempAccount = await withTemporaryAccessToken(tempAccount, data.oauth2 as OAuth2Credentials)
+    } catch (e) {
+      return { success: false, message: (e as Error).message }
+    }
+  }
+
+  const result = await testSourceConnection(tempAccount)
 
   return {
     ...result,
@@ -166,9 +250,71 @@ export async function testConnectionWithConfig(data: Partial<CreateMailAccountRe
   }
 }
 
+/**
+ * 列出服务器文件夹
+ *
+ * 编辑已有账号时可以不重新填写密码，此时使用数据库中保存的凭证。
+ */
+export async function listAccountMailboxes(data: Partial<CreateMailAccountRequest>, id?: number): Promise<MailboxInfo[]> {
+  const existing = id ? await fetchAccountById(id) : undefined
+
+  const protocol = data.protocol ?? existing?.protocol
+  if (protocol === 'pop3') {
+    return Pop3Connection.listMailboxes()
+  }
+  if (protocol === 'smtp' || protocol === 'http') {
+    return SmtpConnection.listMailboxes()
+  }
+  const listServerMailboxes = protocol === 'jmap' ? JmapConnection.listMailboxes : ImapConnection.listMailboxes
+
+  const email = data.email?.trim() || existing?.email || ''
+  const imapHost = data.imapHost?.trim() || existing?.imapHost || ''
+  const authType = data.authType ?? existing?.authType ?? 'password'
+  const account: Partial<MailAccount> = {
+    name: data.name || existing?.name || '临时账号',
+    email,
+    imapHost,
+    imapPort: data.imapPort ?? existing?.imapPort ?? 993,
+    imapTls: data.imapTls ?? existing?.imapTls ?? true,
+    proxyUrl: (data.proxyUrl ?? existing?.proxyUrl) || undefined,
+  }
+
+  if (authType === 'oauth2') {
+    if (!email || !imapHost) {
+      throw new Error('获取文件夹列表需要邮箱地址和 IMAP 服务器')
+    }
+    // 表单填写了新的刷新令牌时使用表单凭证，否则使用已保存的凭证
+    if (data.oauth2?.refreshToken && data.oauth2.clientId) {
+      return listServerMailboxes(await withTemporaryAccessToken(account, data.oauth2 as OAuth2Credentials))
+    }
+    if (!existing || existing.authType !== 'oauth2') {
+      throw new Error('获取文件夹列表需要填写 OAuth2 客户端 ID 和刷新令牌')
+    }
+    const accessToken = await getAccountAccessToken(existing.id)
+    return listServerMailboxes({
+      ...account,
+      authType: 'oauth2',
+      oauth2: { ...existing.oauth2!, accessToken },
+    })
+  }
+
+  let password = data.password || ''
+  if (!password && existing) {
+    try {
+      password = decryptPassword(existing.password)
+    } catch {
+      throw new Error('密码解密失败，请重新填写授权码/密码')
+    }
+  }
+
+  if (!email || !password || !imapHost) {
+    throw new Error('获取文件夹列表需要邮箱地址、授权码/密码和 IMAP 服务器')
+  }
+
+  return listServerMailboxes({ ...account, password })
+}
+
 export async function connectAccount(id: number): Promise<void> {
-  const ctx = getContext()
-  const config = getConfig()
   const logger = getLogger()
   const ownerInstanceId = getCurrentInstanceId()
 
@@ -201,40 +347,41 @@ export async function connectAccount(id: number): Promise<void> {
     return
   }
 
-  const connection = new ImapConnection(
-    ctx,
-    account,
-    {
-      mailRetentionDays: config.mailRetentionDays,
-      maxReconnectAttempts: config.maxReconnectAttempts,
-      reconnectBaseInterval: config.reconnectBaseInterval,
-      fastReconnectAttempts: config.fastReconnectAttempts,
-      fastReconnectInterval: config.fastReconnectInterval,
-      reconnectMaxInterval: config.reconnectMaxInterval,
-      reconnectJitterRatio: config.reconnectJitterRatio,
-      connectionTimeout: config.connectionTimeout,
-      healthCheckInterval: config.healthCheckInterval,
-      connectivityTestTimeout: config.connectivityTestTimeout,
-    },
-    // 通过 state 注入的处理器转发新邮件，避免与 forward 静态循环依赖
-    async (mail) => {
+  // 通过 state 注入的处理器转发新邮件，避免与 forward 静态循环依赖
+  const onMailReceived = async (mail: ParsedMail) => {
+    if (getCurrentInstanceId() !== ownerInstanceId) {
+      return
+    }
+    const handler = getNewMailHandler()
+    if (!handler) {
+      logger.warn(LogModule.MAIL, `新邮件处理器未初始化，跳过邮件: ${account.email}`)
+      return
+    }
+    await handler(id, mail)
+  }
+  const onStatusChanged = (status: MailAccount['status'], error?: string) => {
+    if (getCurrentInstanceId() !== ownerInstanceId) {
+      return
+    }
+    updateAccountStatus(id, status, error)
+  }
+  const accessTokenProvider = account.authType === 'oauth2'
+    ? (forceRefresh: boolean) => getAccountAccessToken(id, forceRefresh)
+    : undefined
+
+  const connection = createSourceConnection(account, {
+    onMailReceived,
+    onStatusChanged,
+    onFlagsChanged: (changes) => {
       if (getCurrentInstanceId() !== ownerInstanceId) {
         return
       }
-      const handler = getNewMailHandler()
-      if (!handler) {
-        logger.warn(LogModule.MAIL, `新邮件处理器未初始化，跳过邮件: ${account.email}`)
-        return
-      }
-      await handler(id, mail)
+      applyServerFlagChanges(id, changes).catch((err) => {
+        logger.warn(LogModule.SYNC, `${account.email} 服务器标记同步失败: ${(err as Error).message}`)
+      })
     },
-    (status, error) => {
-      if (getCurrentInstanceId() !== ownerInstanceId) {
-        return
-      }
-      updateAccountStatus(id, status, error)
-    }
-  )
+    accessTokenProvider,
+  })
 
   activeConnections.set(id, connection)
 
@@ -267,14 +414,130 @@ export async function disconnectAccount(id: number): Promise<void> {
 
 // ============ 辅助函数 ============
 
+function testSourceConnection(account: Partial<MailAccount>): Promise<{ success: boolean; message: string }> {
+  if (account.protocol === 'smtp') {
+    return SmtpConnection.testConnection(account, getInboundOptions())
+  }
+  if (account.protocol === 'http') {
+    return Promise.resolve({ success: true, message: `HTTP 推送账号无需连接服务器，推送地址: ${getConfig().inboundHttpPath}` })
+  }
+  if (account.protocol === 'jmap') {
+    return JmapConnection.testConnection(account)
+  }
+  return account.protocol === 'pop3'
+    ? Pop3Connection.testConnection(account)
+    : ImapConnection.testConnection(account)
+}
+
+/** 邮件源连接的回调 */
+interface SourceConnectionHandlers {
+  onMailReceived: (mail: ParsedMail) => Promise<void>
+  onStatusChanged: (status: MailAccount['status'], error?: string) => void
+  onFlagsChanged: (changes: MailFlagChange[]) => void
+  accessTokenProvider?: (forceRefresh: boolean) => Promise<string>
+}
+
+/**
+ * 按账号协议创建邮件源连接
+ */
+function createSourceConnection(account: MailAccount, handlers: SourceConnectionHandlers): MailSourceConnection {
+  const ctx = getContext()
+  const config = getConfig()
+  const { onMailReceived, onStatusChanged, onFlagsChanged, accessTokenProvider } = handlers
+
+  switch (account.protocol) {
+    case 'http':
+      return new PushConnection(onStatusChanged)
+    case 'smtp':
+      return new SmtpConnection(
+        ctx,
+        account,
+        {
+          ...getInboundOptions(),
+          maxReconnectAttempts: config.maxReconnectAttempts,
+          reconnectBaseInterval: config.reconnectBaseInterval,
+          reconnectMaxInterval: config.reconnectMaxInterval,
+        },
+        onMailReceived,
+        onStatusChanged
+      )
+    case 'jmap':
+      return new JmapConnection(
+        ctx,
+        account,
+        {
+          maxReconnectAttempts: config.maxReconnectAttempts,
+          reconnectBaseInterval: config.reconnectBaseInterval,
+          reconnectMaxInterval: config.reconnectMaxInterval,
+          reconnectJitterRatio: config.reconnectJitterRatio,
+          connectionTimeout: config.connectionTimeout,
+          healthCheckInterval: config.healthCheckInterval,
+        },
+        onMailReceived,
+        onStatusChanged,
+        createJmapStateStore(account.id),
+        accessTokenProvider
+      )
+    case 'pop3':
+      return new Pop3Connection(
+        ctx,
+        account,
+        {
+          maxReconnectAttempts: config.maxReconnectAttempts,
+          reconnectBaseInterval: config.reconnectBaseInterval,
+          reconnectMaxInterval: config.reconnectMaxInterval,
+          reconnectJitterRatio: config.reconnectJitterRatio,
+          connectionTimeout: config.connectionTimeout,
+        },
+        onMailReceived,
+        onStatusChanged,
+        createPop3UidStore(account.id),
+        accessTokenProvider
+      )
+    default:
+      return new ImapConnection(
+        ctx,
+        account,
+        {
+          mailRetentionDays: config.mailRetentionDays,
+          maxReconnectAttempts: config.maxReconnectAttempts,
+          reconnectBaseInterval: config.reconnectBaseInterval,
+          fastReconnectAttempts: config.fastReconnectAttempts,
+          fastReconnectInterval: config.fastReconnectInterval,
+          reconnectMaxInterval: config.reconnectMaxInterval,
+          reconnectJitterRatio: config.reconnectJitterRatio,
+          connectionTimeout: config.connectionTimeout,
+          healthCheckInterval: config.healthCheckInterval,
+          connectivityTestTimeout: config.connectivityTestTimeout,
+        },
+        onMailReceived,
+        onStatusChanged,
+        createMailboxStateStore(account.id),
+        onFlagsChanged,
+        accessTokenProvider
+      )
+  }
+}
+
+function getInboundOptions() {
+  const config = getConfig()
+  return {
+    host: config.inboundHost,
+    port: config.inboundPort,
+    mode: config.inboundMode,
+    maxMessageSize: config.inboundMaxSize * 1024 * 1024,
+  }
+}
+
 async function fetchAccountById(id: number): Promise<MailAccount | undefined> {
   const ctx = getContext()
   const [account] = await ctx.database.get(TABLE_ACCOUNTS, { id })
   return account
 }
 
-async function updateAccountInDatabase(id: number, data: UpdateMailAccountRequest): Promise<void> {
+async function updateAccountInDatabase(existing: MailAccount, data: UpdateMailAccountRequest): Promise<void> {
   const ctx = getContext()
+  const id = existing.id
   const updateData: Record<string, unknown> = { updatedAt: new Date() }
 
   if (data.name !== undefined && data.name !== '') updateData.name = data.name
@@ -282,16 +545,53 @@ async function updateAccountInDatabase(id: number, data: UpdateMailAccountReques
   if (data.password !== undefined && data.password !== '') {
     updateData.password = encryptPassword(data.password)
   }
+  if (data.authType !== undefined) updateData.authType = data.authType
+  if (data.oauth2 !== undefined) {
+    updateData.oauth2 = mergeOAuth2Credentials(data.oauth2, existing.oauth2 || undefined)
+  }
+  if ((data.authType ?? existing.authType) === 'oauth2') {
+    const merged = (updateData.oauth2 ?? existing.oauth2) as OAuth2Credentials | undefined
+    if (!merged?.clientId || !merged.refreshToken) {
+      throw new Error('OAuth2 认证需要客户端 ID 和刷新令牌')
+    }
+  }
   if (data.imapHost !== undefined && data.imapHost !== '') updateData.imapHost = data.imapHost.trim()
   if (data.imapPort !== undefined) updateData.imapPort = data.imapPort
   if (data.imapTls !== undefined) updateData.imapTls = data.imapTls
   if (data.proxyUrl !== undefined) updateData.proxyUrl = data.proxyUrl || null
+  if (data.mailboxes !== undefined) updateData.mailboxes = normalizeMailboxes(data.mailboxes)
+  if (data.readOnly !== undefined) updateData.readOnly = data.readOnly
+  if (data.protocol !== undefined) updateData.protocol = data.protocol
+  if (data.protocol === 'http' && !existing.inboundToken) updateData.inboundToken = generateInboundToken()
+  if (data.pop3LeaveOnServer !== undefined) updateData.pop3LeaveOnServer = data.pop3LeaveOnServer
+  if (data.pop3DeleteAfterDays !== undefined) updateData.pop3DeleteAfterDays = Math.max(0, Math.floor(data.pop3DeleteAfterDays))
+  if (data.pop3AllowInsecure !== undefined) updateData.pop3AllowInsecure = data.pop3AllowInsecure
+  if (data.smtp !== undefined) updateData.smtp = mergeSmtpSettings(data.smtp, existing.smtp || undefined)
   if (data.enabled !== undefined) updateData.enabled = data.enabled
   if (data.sendImapId !== undefined) updateData.sendImapId = data.sendImapId
 
   await ctx.database.set(TABLE_ACCOUNTS, { id }, updateData)
 }
 
+/**
+ * 合并发信设置，密码留空时保留原值
+ */
+function mergeSmtpSettings(data: Partial<SmtpSendSettings>, existing?: SmtpSendSettings): SmtpSendSettings {
+  const settings: SmtpSendSettings = {
+    enabled: data.enabled ?? existing?.enabled ?? false,
+    host: (data.host ?? existing?.host ?? '').trim(),
+    port: data.port ?? existing?.port ?? 465,
+    secure: data.secure ?? existing?.secure ?? true,
+    username: (data.username ?? existing?.username ?? '').trim() || undefined,
+    password: data.password ? encryptPassword(data.password) : existing?.password,
+    fromName: (data.fromName ?? existing?.fromName ?? '').trim() || undefined,
+  }
+  if (settings.enabled && !settings.host) {
+    throw new Error('启用发信需要填写 SMTP 服务器')
+  }
+  return settings
+}
+
 async function handleAccountStateChange(
   id: number,
   wasEnabled: boolean,
@@ -299,7 +599,9 @@ async function handleAccountStateChange(
   data: UpdateMailAccountRequest
 ): Promise<void> {
   const logger = getLogger()
-  const hasConfigChanged = data.imapHost || data.imapPort || data.password || data.proxyUrl !== undefined || data.sendImapId !== undefined
+  const hasConfigChanged = data.email || data.imapHost || data.imapPort || data.password || data.authType !== undefined || data.oauth2 !== undefined || data.proxyUrl !== undefined || data.sendImapId !== undefined || data.mailboxes !== undefined || data.readOnly !== undefined
+    || data.protocol !== undefined || data.pop3LeaveOnServer !== undefined || data.pop3DeleteAfterDays !== undefined
+    || data.pop3AllowInsecure !== undefined
 
   // 获取前序锁（如果存在）
   const previousLock = accountOperationLocks.get(id) || Promise.resolve()
@@ -0,0 +1,178 @@
+/**
+ * 核心模块 - 规则回测
+ *
+ * 用最近若干天收到的邮件检验规则或未保存的草稿：哪些邮件会命中、条件树各节点的满足次数，
+ * 以及按 first-match 优先级会遮蔽哪些已有规则。
+ * 以邮件 ID 为游标分页扫描，每页只读取一批邮件，统计由控制台逐页累加。
+ */
+
+import { $ } from 'koishi'
+import type {
+  ConditionTestNode,
+  ForwardRule,
+  RuleBacktestConditionHit,
+  RuleBacktestMatch,
+  RuleBacktestRequest,
+  RuleBacktestResult,
+  RuleBacktestRuleCount,
+} from '../types'
+import {
+  TABLE_MAILS,
+  getContext,
+} from './state'
+import {
+  type ConditionContext,
+  createConditionContext,
+  explainConditionTree,
+  getConditionTree,
+  getMatchingRules,
+  getRule,
+  getRules,
+  validateConditionTree,
+} from './rules'
+
+/** 默认每页扫描的邮件数 */
+const DEFAULT_PAGE_SIZE = 100
+
+/** 每页最多扫描的邮件数，限制单次读入内存的邮件正文 */
+const MAX_PAGE_SIZE = 500
+
+/**
+ * 回测一页邮件
+ *
+ * 按 ID 升序扫描时间范围内的收件，返回本页的统计与下一页游标
+ */
+export async function backtestRule(request: RuleBacktestRequest): Promise<RuleBacktestResult> {
+  const ctx = getContext()
+
+  if (!Number.isInteger(request.days) || request.days <= 0) {
+    throw new Error('回测天数必须是正整数')
+  }
+  const pageSize = Math.min(Math.max(Math.floor(request.pageSize || DEFAULT_PAGE_SIZE), 1), MAX_PAGE_SIZE)
+  const rule = await resolveBacktestRule(request)
+
+  const since = new Date(Date.now() - request.days * 24 * 60 * 60 * 1000)
+  const conditions = {
+    direction: 'inbound' as const,
+    receivedAt: { $gte: since },
+    ...(rule.accountId ? { accountId: rule.accountId } : {}),
+  }
+
+  const total = await ctx.database.eval(TABLE_MAILS, row => $.count(row.id), conditions) as number
+  const mails = await ctx.database
+    .select(TABLE_MAILS)
+    .where({ ...conditions, id: { $gt: request.cursor || 0 } })
+    .orderBy('id', 'asc')
+    .limit(pageSize)
+    .execute()
+
+  // 回测规则替换同 ID 的已保存规则，未保存的草稿排在同优先级规则之后；影子规则不投递，不参与比较
+  const rules = (await getRules())
+    .filter(r => (r.enabled && !r.shadow) || r.id === rule.id)
+    .map(r => r.id === rule.id ? rule : r)
+  if (!rules.includes(rule)) rules.push(rule)
+
+  const tree = getConditionTree(rule)
+  const contexts = new Map<number, ConditionContext>()
+  const conditionHits: RuleBacktestConditionHit[] = []
+  const matches: RuleBacktestMatch[] = []
+  const shadowed = new Map<number, RuleBacktestRuleCount>()
+  const blocking = new Map<number, RuleBacktestRuleCount>()
+
+  for (const mail of mails) {
+    let context = contexts.get(mail.accountId)
+    if (!context) {
+      context = await createConditionContext(mail)
+      contexts.set(mail.accountId, context)
+    }
+
+    const result = explainConditionTree(mail, tree, context)
+    countConditionHits(result, 0, conditionHits, { index: 0 })
+    if (!result.matched) continue
+
+    // getMatchingRules 按优先级稳定排序，回测规则之前的是拦截者，之后的被遮蔽
+    const matching = getMatchingRules(mail, rules, context)
+    const position = matching.indexOf(rule)
+    const match: RuleBacktestMatch = {
+      mail: {
+        id: mail.id,
+        accountId: mail.accountId,
+        subject: mail.subject,
+        from: mail.from,
+        receivedAt: mail.receivedAt,
+      },
+      shadowedRuleIds: [],
+    }
+
+    if (position > 0) {
+      match.blockedByRuleId = matching[0].id
+      addRuleCount(blocking, matching[0])
+    } else {
+      for (const other of matching.slice(1)) {
+        match.shadowedRuleIds.push(other.id)
+        addRuleCount(shadowed, other)
+      }
+    }
+    matches.push(match)
+  }
+
+  return {
+    total,
+    scanned: mails.length,
+    matches,
+    conditionHits,
+    shadowedRules: [...shadowed.values()],
+    blockingRules: [...blocking.values()],
+    nextCursor: mails.length === pageSize ? mails[mails.length - 1].id : undefined,
+  }
+}
+
+/**
+ * 合并已保存规则与草稿，得到回测使用的规则
+ *
+ * 草稿没有 ID，使用 0 以免与已有规则混淆
+ */
+async function resolveBacktestRule(request: RuleBacktestRequest): Promise<ForwardRule> {
+  let saved: ForwardRule | null = null
+  if (request.ruleId) {
+    saved = await getRule(request.ruleId)
+    if (!saved) throw new Error('规则不存在')
+  } else if (!request.draft) {
+    throw new Error('缺少回测的规则')
+  }
+
+  const rule = {
+    ...saved,
+    ...request.draft,
+    id: saved?.id ?? 0,
+    name: request.draft?.name || saved?.name || '未保存的规则',
+  } as ForwardRule
+  validateConditionTree(getConditionTree(rule))
+  return rule
+}
+
+/**
+ * 按先序累加条件树各节点的满足次数
+ *
+ * 明细求值不短路，每封邮件的结果树结构相同，按遍历序号对应
+ */
+function countConditionHits(
+  node: ConditionTestNode,
+  depth: number,
+  hits: RuleBacktestConditionHit[],
+  cursor: { index: number }
+): void {
+  const hit = hits[cursor.index] ??= { depth, description: node.description, hits: 0 }
+  if (node.matched) hit.hits++
+  cursor.index++
+  node.children?.forEach(child => countConditionHits(child, depth + 1, hits, cursor))
+}
+
+function addRuleCount(counts: Map<number, RuleBacktestRuleCount>, rule: ForwardRule): void {
+  const count = counts.get(rule.id)
+  if (count) {
+    count.count++
+  } else {
+    counts.set(rule.id, { ruleId: rule.id, ruleName: rule.name, count: 1 })
+  }
+}
@@ -0,0 +1,250 @@
+/**
+ * 核心模块 - 条件值解析
+ *
+ * 负责规则条件中列表、大小、时间窗口、邮件头等取值的解析与判定，供 checkSingleCondition 与投递时段使用
+ */
+
+import type { MailAttachment, StoredMail } from '../types'
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat']
+
+const SIZE_UNITS: Record<string, number> = {
+  '': 1,
+  b: 1,
+  k: 1024,
+  kb: 1024,
+  m: 1024 * 1024,
+  mb: 1024 * 1024,
+  g: 1024 * 1024 * 1024,
+  gb: 1024 * 1024 * 1024,
+}
+
+/** 接收时段：星期集合与一天中的分钟区间 */
+export interface TimeWindow {
+  /** 生效的星期（0 = 周日） */
+  days: Set<number>
+  /** 开始分钟 (含) */
+  start: number
+  /** 结束分钟 (不含)，小于等于 start 时表示跨越午夜 */
+  end: number
+}
+
+/**
+ * 拆分列表型条件值（逗号、分号或空白分隔，统一小写）
+ */
+export function parseConditionList(value: string): string[] {
+  return value.toLowerCase().split(/[\s,;，；]+/).filter(Boolean)
+}
+
+/**
+ * 判断地址的域名是否在列表中，列表中的域名同时匹配其子域名
+ */
+export function matchDomainList(address: string | undefined, value: string): boolean {
+  const domain = address?.split('@').pop()?.toLowerCase()
+  if (!domain) return false
+  return parseConditionList(value)
+    .map(item => item.replace(/^@/, ''))
+    .some(item => domain === item || domain.endsWith(`.${item}`))
+}
+
+/**
+ * 是否为正文内嵌的资源（HTML 中以 cid: 引用的图片等）
+ */
+export function isInlineAttachment(mail: StoredMail, attachment: MailAttachment): boolean {
+  return !!attachment.cid && !!mail.htmlContent?.includes(`cid:${attachment.cid}`)
+}
+
+/**
+ * 获取指定邮件头的全部取值（名称不区分大小写，同名头可能出现多次）
+ */
+export function getHeaderValues(mail: StoredMail, name: string | undefined): string[] {
+  const key = name?.trim().toLowerCase()
+  if (!key) return []
+  return (mail.headers || []).filter(h => h.name.toLowerCase() === key).map(h => h.value)
+}
+
+/**
+ * 判断附件类型是否在列表中
+ *
+ * 列表项可以是 MIME 类型（支持 `image/*` 通配）或文件扩展名（`.pdf` 或 `pdf`）
+ */
+export function matchAttachmentType(attachment: MailAttachment, value: string): boolean {
+  const contentType = (attachment.contentType || '').toLowerCase()
+  const filename = attachment.filename.toLowerCase()
+
+  return parseConditionList(value).some((item) => {
+    if (item.includes('/')) {
+      return item.endsWith('/*')
+        ? contentType.startsWith(item.slice(0, -1))
+        : contentType === item
+    }
+    return filename.endsWith(item.startsWith('.') ? item : `.${item}`)
+  })
+}
+
+/**
+ * 解析大小（如 `500KB`、`2MB`、`1048576`）
+ *
+ * @returns 字节数
+ */
+export function parseSize(value: string): number {
+  const match = /^(\d+(?:\.\d+)?)\s*([kmg]?b?)$/i.exec(value.trim())
+  if (!match) {
+    throw new Error(`无效的大小: "${value}"，示例: 500KB、2MB`)
+  }
+  return Math.round(parseFloat(match[1]) * SIZE_UNITS[match[2].toLowerCase()])
+}
+
+/**
+ * 获取邮件大小，旧数据没有记录原始大小时按正文与附件估算
+ */
+export function getMailSize(mail: StoredMail): number {
+  if (mail.size) return mail.size
+  const body = (mail.textContent?.length || 0) + (mail.htmlContent?.length || 0)
+  return body + (mail.attachments || []).reduce((sum, a) => sum + (a.size || 0), 0)
+}
+
+/**
+ * 解析接收时段
+ *
+ * 多个时段以分号或换行分隔，每个时段为「星期 时间段」，两者均可省略：
+ * - `mon-fri 09:00-18:00`
+ * - `sat,sun`
+ * - `22:00-06:00`（跨越午夜）
+ */
+export function parseTimeWindows(value: string): TimeWindow[] {
+  const windows = value.split(/[;\n；]+/).map(s => s.trim()).filter(Boolean).map(parseTimeWindow)
+  if (windows.length === 0) {
+    throw new Error('接收时段不能为空，示例: mon-fri 09:00-18:00')
+  }
+  return windows
+}
+
+/**
+ * 判断时间是否落在任一时段内
+ *
+ * @param timezone IANA 时区名，留空使用服务器时区
+ */
+export function matchTimeWindows(date: Date, windows: TimeWindow[], timezone?: string): boolean {
+  const { weekday, minutes } = getLocalTime(date, timezone)
+  return inTimeWindows(weekday, minutes, windows)
+}
+
+/**
+ * 查找最近一次进入时段的时间
+ *
+ * 已在时段内时返回 date 本身；按当地时间逐分钟推算，不考虑期间的夏令时切换
+ *
+ * @returns 一周内没有可用时段时返回 null
+ */
+export function findNextWindowStart(date: Date, windows: TimeWindow[], timezone?: string): Date | null {
+  const { weekday, minutes } = getLocalTime(date, timezone)
+  if (inTimeWindows(weekday, minutes, windows)) return date
+
+  const base = Math.floor(new Date(date).getTime() / 60000) * 60000
+  for (let offset = 1; offset <= 8 * 24 * 60; offset++) {
+    const total = minutes + offset
+    if (inTimeWindows((weekday + Math.floor(total / 1440)) % 7, total % 1440, windows)) {
+      return new Date(base + offset * 60000)
+    }
+  }
+  return null
+}
+
+/**
+ * 校验时区名称
+ */
+export function validateTimezone(timezone: string): void {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+  } catch {
+    throw new Error(`无效的时区: "${timezone}"，示例: Asia/Shanghai`)
+  }
+}
+
+function inTimeWindows(weekday: number, minutes: number, windows: TimeWindow[]): boolean {
+  const previousDay = (weekday + 6) % 7
+
+  return windows.some((w) => {
+    if (w.start < w.end) {
+      return w.days.has(weekday) && minutes >= w.start && minutes < w.end
+    }
+    // 跨越午夜：当天开始后，或前一天开始的时段延续到今天
+    return (w.days.has(weekday) && minutes >= w.start) || (w.days.has(previousDay) && minutes < w.end)
+  })
+}
+
+function parseTimeWindow(text: string): TimeWindow {
+  let dayPart = ''
+  let timePart = ''
+  for (const token of text.toLowerCase().split(/\s+/)) {
+    if (/\d/.test(token)) {
+      timePart = token
+    } else {
+      dayPart += (dayPart ? ',' : '') + token
+    }
+  }
+
+  const days = dayPart && dayPart !== '*' ? parseDays(dayPart) : new Set([0, 1, 2, 3, 4, 5, 6])
+  if (!timePart) {
+    return { days, start: 0, end: 24 * 60 }
+  }
+
+  const match = /^(\d{1,2})(?::(\d{2}))?-(\d{1,2})(?::(\d{2}))?$/.exec(timePart)
+  if (!match) {
+    throw new Error(`无效的时间段: "${timePart}"，示例: 09:00-18:00`)
+  }
+  const start = toMinutes(match[1], match[2])
+  const end = toMinutes(match[3], match[4])
+  if (start === end) {
+    throw new Error(`时间段的开始与结束相同: "${timePart}"`)
+  }
+  return { days, start, end }
+}
+
+function parseDays(text: string): Set<number> {
+  const days = new Set<number>()
+  for (const part of text.split(',').filter(Boolean)) {
+    const [from, to] = part.split('-')
+    const start = weekdayIndex(from)
+    const end = to === undefined ? start : weekdayIndex(to)
+    for (let i = start; ; i = (i + 1) % 7) {
+      days.add(i)
+      if (i === end) break
+    }
+  }
+  return days
+}
+
+function weekdayIndex(name: string): number {
+  const index = WEEKDAYS.indexOf(name.slice(0, 3))
+  if (index < 0) {
+    throw new Error(`无效的星期: "${name}"，可用 mon、tue、wed、thu、fri、sat、sun`)
+  }
+  return index
+}
+
+function toMinutes(hours: string, minutes = '0'): number {
+  const h = Number(hours)
+  const m = Number(minutes)
+  if (h > 24 || m > 59 || (h === 24 && m > 0)) {
+    throw new Error(`无效的时间: ${hours}:${minutes}`)
+  }
+  return h * 60 + m
+}
+
+function getLocalTime(date: Date, timezone?: string): { weekday: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone || undefined,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(new Date(date))
+
+  const get = (type: string) => parts.find(p => p.type === type)?.value || ''
+  return {
+    weekday: weekdayIndex(get('weekday').toLowerCase()),
+    minutes: Number(get('hour')) * 60 + Number(get('minute')),
+  }
+}
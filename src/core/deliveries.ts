@@ -0,0 +1,355 @@
+/**
+ * 核心模块 - 投递队列
+ *
+ * 自动转发先写入数据库队列再由后台依次投递：
+ * - 规则的转发延迟体现为首次投递时间，不再阻塞处理流程
+ * - 配置了投递时段的规则，时段外的任务暂存到时段开始时投递，可合并为一条消息
+ * - 失败的目标按指数退避重试，重启后从数据库恢复
+ * - 重试用尽后，`retry-failed` 策略的任务保留为失败状态等待手动处理，其余策略放弃（结果见转发记录）
+ */
+
+import type { Delivery, DeliveryListItem, DeliveryStatus, ForwardRule, StoredMail } from '../types'
+import { LogModule } from '../logger'
+import {
+  TABLE_DELIVERIES,
+  TABLE_MAILS,
+  getContext,
+  getLogger,
+} from './state'
+import { getRule, getRules, getScheduleStart } from './rules'
+import { executeBundleForward, executeForward, type ForwardResult } from './dispatch'
+
+/** 轮询到期任务的间隔 */
+const QUEUE_POLL_INTERVAL = 5000
+
+/** 每轮最多处理的任务数 */
+const QUEUE_BATCH_SIZE = 20
+
+/** 重试间隔上限（1 小时） */
+const MAX_RETRY_DELAY = 60 * 60 * 1000
+
+/** 规则未配置重试间隔时的默认值 */
+const DEFAULT_RETRY_INTERVAL = 5000
+
+/** 队列是否正在处理（同一时间只有一个处理循环） */
+let queueRunning = false
+
+/** 处理期间有新任务入队，本轮结束后再处理一次 */
+let queueDirty = false
+
+// ============ 入队与调度 ============
+
+/**
+ * 为邮件和规则创建投递任务
+ *
+ * @returns 同一邮件同一规则已有任务时返回 false
+ */
+export async function enqueueDelivery(mail: Pick<StoredMail, 'id' | 'accountId'>, rule: ForwardRule): Promise<boolean> {
+  const ctx = getContext()
+  const now = new Date()
+  const readyAt = new Date(now.getTime() + (rule.delayMs || 0))
+  const windowStart = getScheduleStart(rule, readyAt)
+  const held = !!windowStart && windowStart > readyAt
+
+  try {
+    await ctx.database.create(TABLE_DELIVERIES, {
+      mailId: mail.id,
+      accountId: mail.accountId,
+      ruleId: rule.id,
+      targets: [],
+      status: 'pending',
+      held,
+      attempts: 0,
+      maxAttempts: (rule.retryCount || 0) + 1,
+      nextAttemptAt: held ? windowStart! : readyAt,
+      createdAt: now,
+      updatedAt: now,
+    })
+    return true
+  } catch (e) {
+    // 唯一索引冲突：任务已存在（并发处理同一邮件）
+    const [existing] = await ctx.database.get(TABLE_DELIVERIES, { mailId: mail.id, ruleId: rule.id })
+    if (existing) return false
+    throw e
+  }
+}
+
+/**
+ * 启动投递队列：恢复上次中断的任务并开始轮询
+ */
+export async function startDeliveryQueue(): Promise<void> {
+  const ctx = getContext()
+  const logger = getLogger()
+
+  // 上次运行中断时正在投递的任务重新排队
+  const { matched } = await ctx.database.set(TABLE_DELIVERIES, { status: 'running' }, {
+    status: 'pending',
+    nextAttemptAt: new Date(),
+  })
+  const pending = await ctx.database.get(TABLE_DELIVERIES, { status: 'pending' }, ['id'])
+  if (pending.length > 0) {
+    logger.info(LogModule.FORWARD, `恢复 ${pending.length} 个待投递任务${matched ? `（其中 ${matched} 个上次中断）` : ''}`)
+  }
+
+  ctx.setInterval(() => {
+    processDeliveryQueue().catch(e => {
+      logger.error(LogModule.FORWARD, `处理投递队列失败: ${(e as Error).message}`)
+    })
+  }, QUEUE_POLL_INTERVAL)
+
+  await processDeliveryQueue()
+}
+
+/**
+ * 处理所有到期的投递任务
+ *
+ * 已在处理时只做标记，由当前循环结束后再处理一轮
+ */
+export async function processDeliveryQueue(): Promise<void> {
+  if (queueRunning) {
+    queueDirty = true
+    return
+  }
+
+  const ctx = getContext()
+  queueRunning = true
+  try {
+    do {
+      queueDirty = false
+      const due = await ctx.database
+        .select(TABLE_DELIVERIES)
+        .where({ status: 'pending', nextAttemptAt: { $lte: new Date() } })
+        .orderBy('nextAttemptAt', 'asc')
+        .limit(QUEUE_BATCH_SIZE)
+        .execute()
+
+      for (const delivery of due) {
+        await runDelivery(delivery)
+      }
+      if (due.length === QUEUE_BATCH_SIZE) queueDirty = true
+    } while (queueDirty)
+  } finally {
+    queueRunning = false
+  }
+}
+
+/**
+ * 计算第 n 次失败后的重试间隔（指数退避）
+ */
+function getRetryDelay(retryIntervalMs: number, attempts: number): number {
+  const base = retryIntervalMs || DEFAULT_RETRY_INTERVAL
+  return Math.min(base * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY)
+}
+
+// ============ 执行 ============
+
+async function runDelivery(delivery: Delivery): Promise<void> {
+  const ctx = getContext()
+  const logger = getLogger()
+
+  // 认领任务，防止多个实例重复投递
+  const { matched } = await ctx.database.set(TABLE_DELIVERIES, { id: delivery.id, status: 'pending' }, {
+    status: 'running',
+    updatedAt: new Date(),
+  })
+  if (!matched) return
+
+  // 邮件已被删除或清理，任务没有意义
+  const [mail] = await ctx.database.get(TABLE_MAILS, { id: delivery.mailId }, ['id'])
+  if (!mail) {
+    await ctx.database.remove(TABLE_DELIVERIES, { id: delivery.id })
+    logger.debug(LogModule.FORWARD, `邮件 #${delivery.mailId} 已不存在，移除投递任务 #${delivery.id}`)
+    return
+  }
+
+  const rule = await getRule(delivery.ruleId)
+  if (!rule) {
+    await failDelivery(delivery, '规则不存在')
+    return
+  }
+
+  // 切换为影子运行的规则不再投递
+  if (rule.shadow) {
+    await ctx.database.remove(TABLE_DELIVERIES, { id: delivery.id })
+    logger.debug(LogModule.FORWARD, `规则 "${rule.name}" 已切换为影子运行，移除投递任务 #${delivery.id}`)
+    return
+  }
+
+  // 投递时段外：暂存到时段开始，不计入尝试次数
+  const windowStart = getScheduleStart(rule, new Date())
+  if (windowStart && windowStart.getTime() > Date.now()) {
+    await ctx.database.set(TABLE_DELIVERIES, { id: delivery.id }, {
+      status: 'pending',
+      held: true,
+      nextAttemptAt: windowStart,
+      updatedAt: new Date(),
+    })
+    logger.debug(LogModule.FORWARD, `规则 "${rule.name}" 不在投递时段内，邮件 #${delivery.mailId} 暂存至 ${windowStart.toLocaleString()}`)
+    return
+  }
+
+  const group = [delivery]
+  if (delivery.held && rule.schedule?.bundle) {
+    group.push(...await claimHeldDeliveries(delivery))
+  }
+
+  const targets = delivery.targets?.length ? delivery.targets : undefined
+  const attempt = delivery.attempts + 1
+  let result: ForwardResult
+  try {
+    result = group.length > 1
+      ? await executeBundleForward(group.map(d => d.mailId), rule, targets, attempt)
+      : await executeForward(delivery.mailId, rule.id, targets, attempt)
+  } catch (e) {
+    result = { success: false, successCount: 0, totalTargets: 0, errors: [(e as Error).message] }
+  }
+
+  if (group.length > 1) {
+    logger.info(LogModule.FORWARD, `规则 "${rule.name}" 合并投递 ${group.length} 封暂存邮件`)
+  }
+  for (const item of group) {
+    await settleDelivery(item, rule, result)
+  }
+}
+
+/**
+ * 认领同一规则、同一目标下其余到期的暂存任务，用于合并投递
+ */
+async function claimHeldDeliveries(delivery: Delivery): Promise<Delivery[]> {
+  const ctx = getContext()
+  const targetsKey = JSON.stringify(delivery.targets || [])
+  const candidates = await ctx.database.get(TABLE_DELIVERIES, {
+    ruleId: delivery.ruleId,
+    status: 'pending',
+    held: true,
+    // 同批暂存任务的重试时间只相差毫秒，放宽一个轮询间隔使其继续合并
+    nextAttemptAt: { $lte: new Date(Date.now() + QUEUE_POLL_INTERVAL) },
+  })
+
+  const claimed: Delivery[] = []
+  for (const candidate of candidates) {
+    if (candidate.id === delivery.id || JSON.stringify(candidate.targets || []) !== targetsKey) continue
+    const { matched } = await ctx.database.set(TABLE_DELIVERIES, { id: candidate.id, status: 'pending' }, {
+      status: 'running',
+      updatedAt: new Date(),
+    })
+    if (matched) claimed.push(candidate)
+  }
+  return claimed.sort((a, b) => a.mailId - b.mailId)
+}
+
+/**
+ * 根据投递结果移除任务、安排重试或标记失败
+ */
+async function settleDelivery(delivery: Delivery, rule: ForwardRule, result: ForwardResult): Promise<void> {
+  const ctx = getContext()
+  const logger = getLogger()
+  const attempt = delivery.attempts + 1
+
+  if (result.success) {
+    await ctx.database.remove(TABLE_DELIVERIES, { id: delivery.id })
+    logger.info(LogModule.FORWARD, `规则 "${rule.name}" 转发邮件 #${delivery.mailId} 成功 (${result.successCount}/${result.totalTargets})`)
+    return
+  }
+
+  const lastError = result.errors?.join('; ') || '未知错误'
+  // 有明确的失败目标时只重试这些目标，其余整体失败沿用原目标
+  const targets = result.failedTargets || delivery.targets
+
+  if (attempt < delivery.maxAttempts) {
+    const delay = getRetryDelay(rule.retryIntervalMs, attempt)
+    await ctx.database.set(TABLE_DELIVERIES, { id: delivery.id }, {
+      status: 'pending',
+      attempts: attempt,
+      targets,
+      lastError,
+      nextAttemptAt: new Date(Date.now() + delay),
+      updatedAt: new Date(),
+    })
+    logger.warn(LogModule.FORWARD, `规则 "${rule.name}" 转发邮件 #${delivery.mailId} 失败，${Math.round(delay / 1000)} 秒后重试 (${attempt}/${delivery.maxAttempts}): ${lastError}`)
+    return
+  }
+
+  if (rule.failureStrategy === 'retry-failed') {
+    await failDelivery({ ...delivery, attempts: attempt, targets }, lastError)
+    return
+  }
+
+  await ctx.database.remove(TABLE_DELIVERIES, { id: delivery.id })
+  logger.error(LogModule.FORWARD, `规则 "${rule.name}" 转发邮件 #${delivery.mailId} 失败，已放弃: ${lastError}`)
+}
+
+/** 标记任务失败，等待手动重试或丢弃 */
+async function failDelivery(delivery: Delivery, lastError: string): Promise<void> {
+  const ctx = getContext()
+  const logger = getLogger()
+
+  await ctx.database.set(TABLE_DELIVERIES, { id: delivery.id }, {
+    status: 'failed',
+    attempts: delivery.attempts,
+    targets: delivery.targets,
+    lastError,
+    updatedAt: new Date(),
+  })
+  logger.error(LogModule.FORWARD, `投递任务 #${delivery.id} 失败，等待手动处理: ${lastError}`)
+}
+
+// ============ 管理 ============
+
+/**
+ * 列出投递任务（附带邮件主题与规则名称）
+ */
+export async function listDeliveries(status?: DeliveryStatus): Promise<DeliveryListItem[]> {
+  const ctx = getContext()
+  const deliveries = await ctx.database
+    .select(TABLE_DELIVERIES)
+    .where(status ? { status } : {})
+    .orderBy('nextAttemptAt', 'asc')
+    .execute()
+  if (deliveries.length === 0) return []
+
+  const mailIds = [...new Set(deliveries.map(d => d.mailId))]
+  const mails = await ctx.database.get(TABLE_MAILS, { id: { $in: mailIds } }, ['id', 'subject'])
+  const subjects = new Map(mails.map(m => [m.id, m.subject]))
+  const ruleNames = new Map((await getRules()).map(r => [r.id, r.name]))
+
+  return deliveries.map(d => ({
+    ...d,
+    mailSubject: subjects.get(d.mailId),
+    ruleName: ruleNames.get(d.ruleId),
+  }))
+}
+
+/**
+ * 立即重试任务；失败状态的任务额外获得一次尝试机会
+ */
+export async function retryDelivery(id: number): Promise<void> {
+  const ctx = getContext()
+  const [delivery] = await ctx.database.get(TABLE_DELIVERIES, { id })
+  if (!delivery) throw new Error('投递任务不存在')
+  if (delivery.status === 'running') throw new Error('投递任务正在执行')
+
+  await ctx.database.set(TABLE_DELIVERIES, { id }, {
+    status: 'pending',
+    maxAttempts: Math.max(delivery.maxAttempts, delivery.attempts + 1),
+    nextAttemptAt: new Date(),
+    updatedAt: new Date(),
+  })
+
+  processDeliveryQueue().catch(e => {
+    getLogger().error(LogModule.FORWARD, `处理投递队列失败: ${(e as Error).message}`)
+  })
+}
+
+/**
+ * 丢弃任务
+ */
+export async function discardDelivery(id: number): Promise<void> {
+  const ctx = getContext()
+  const [delivery] = await ctx.database.get(TABLE_DELIVERIES, { id })
+  if (!delivery) throw new Error('投递任务不存在')
+  if (delivery.status === 'running') throw new Error('投递任务正在执行')
+
+  await ctx.database.remove(TABLE_DELIVERIES, { id })
+  getLogger().info(LogModule.FORWARD, `丢弃投递任务 #${id}`)
+}
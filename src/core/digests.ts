@@ -0,0 +1,205 @@
+/**
+ * 核心模块 - 摘要模式
+ *
+ * 摘要模式的规则命中邮件后不逐封转发，而是累积到数据库：
+ * - 从第一封邮件起满汇总时长，或累积数量达到阈值时，合并为一条摘要发送
+ * - 可通过 `mail.digest` 命令立即发送
+ * - 规则配置了投递时段时，时段外只累积，进入时段后再发送
+ * - 累积状态保存在数据库中，插件重启后继续
+ * - 规则切换为影子运行后丢弃累积的邮件
+ */
+
+import type { DigestMail, DigestSummary, ForwardRule, StoredMail } from '../types'
+import { LogModule } from '../logger'
+import {
+  TABLE_DIGEST_ITEMS,
+  TABLE_MAILS,
+  getContext,
+  getLogger,
+} from './state'
+import { getRule, getRules, getScheduleStart } from './rules'
+import { executeDigestForward, type ForwardResult } from './dispatch'
+
+/** 检查摘要是否到期的间隔 */
+const DIGEST_CHECK_INTERVAL = 60 * 1000
+
+/** 正在发送摘要的规则，避免定时检查与命令重复发送 */
+const flushingRules = new Set<number>()
+
+/** 一次摘要发送的结果 */
+export interface DigestFlushResult {
+  /** 摘要包含的邮件数，没有累积的邮件时为 0 */
+  count: number
+  result?: ForwardResult
+}
+
+// ============ 累积 ============
+
+/**
+ * 把邮件加入规则的摘要，累积数量达到阈值时立即发送
+ *
+ * @returns 邮件已在该规则的摘要中时返回 false
+ */
+export async function addToDigest(mail: Pick<StoredMail, 'id' | 'accountId' | 'subject'>, rule: ForwardRule): Promise<boolean> {
+  const ctx = getContext()
+  const logger = getLogger()
+
+  try {
+    await ctx.database.create(TABLE_DIGEST_ITEMS, {
+      ruleId: rule.id,
+      mailId: mail.id,
+      accountId: mail.accountId,
+      createdAt: new Date(),
+    })
+  } catch (e) {
+    // 唯一索引冲突：邮件已在摘要中
+    const [existing] = await ctx.database.get(TABLE_DIGEST_ITEMS, { ruleId: rule.id, mailId: mail.id })
+    if (existing) return false
+    throw e
+  }
+  logger.info(LogModule.FORWARD, `"${mail.subject}" 加入规则 "${rule.name}" 的摘要`)
+
+  if (rule.digest?.maxCount) {
+    const [summary] = await getDigestSummaries(rule.id)
+    if (summary && isDigestDue(rule, summary, new Date())) {
+      await flushDigest(rule.id).catch((e) => {
+        logger.error(LogModule.FORWARD, `发送规则 "${rule.name}" 的摘要失败: ${(e as Error).message}`)
+      })
+    }
+  }
+  return true
+}
+
+/**
+ * 启动摘要检查：发送重启期间已到期的摘要并开始定时检查
+ */
+export async function startDigests(): Promise<void> {
+  const ctx = getContext()
+  const logger = getLogger()
+
+  ctx.setInterval(() => {
+    checkDigests().catch(e => {
+      logger.error(LogModule.FORWARD, `检查摘要失败: ${(e as Error).message}`)
+    })
+  }, DIGEST_CHECK_INTERVAL)
+
+  await checkDigests()
+}
+
+/**
+ * 发送所有到期的摘要
+ *
+ * 规则已删除时丢弃其累积的邮件；规则关闭了摘要模式时把剩余邮件作为最后一份摘要发送
+ */
+async function checkDigests(): Promise<void> {
+  const ctx = getContext()
+  const logger = getLogger()
+  const now = new Date()
+
+  for (const summary of await getDigestSummaries()) {
+    const rule = await getRule(summary.ruleId)
+    if (!rule || rule.shadow) {
+      await ctx.database.remove(TABLE_DIGEST_ITEMS, { ruleId: summary.ruleId })
+      logger.debug(LogModule.FORWARD, `规则 #${summary.ruleId} 已不存在或切换为影子运行，丢弃 ${summary.count} 封待摘要邮件`)
+      continue
+    }
+    if (rule.digest && !isDigestDue(rule, summary, now)) continue
+    if (flushingRules.has(rule.id)) continue
+
+    await flushDigest(rule.id).catch((e) => {
+      logger.error(LogModule.FORWARD, `发送规则 "${rule.name}" 的摘要失败: ${(e as Error).message}`)
+    })
+  }
+}
+
+/**
+ * 摘要是否应当发送：满足时长或数量条件，且在规则的投递时段内
+ */
+function isDigestDue(rule: ForwardRule, summary: DigestSummary, now: Date): boolean {
+  const { windowMinutes = 0, maxCount = 0 } = rule.digest || {}
+  const due = (maxCount > 0 && summary.count >= maxCount)
+    || (windowMinutes > 0 && now.getTime() - new Date(summary.since).getTime() >= windowMinutes * 60 * 1000)
+  if (!due) return false
+
+  const windowStart = getScheduleStart(rule, now)
+  return !windowStart || windowStart.getTime() <= now.getTime()
+}
+
+// ============ 发送 ============
+
+/**
+ * 立即发送规则累积的摘要
+ *
+ * 至少一个目标发送成功后移出已发送的邮件；全部失败时保留，下次检查时再发送
+ */
+export async function flushDigest(ruleId: number): Promise<DigestFlushResult> {
+  const ctx = getContext()
+  const logger = getLogger()
+
+  const rule = await getRule(ruleId)
+  if (!rule) throw new Error(`规则不存在: ${ruleId}`)
+  if (flushingRules.has(ruleId)) throw new Error('摘要正在发送')
+
+  flushingRules.add(ruleId)
+  try {
+    const items = await ctx.database.get(TABLE_DIGEST_ITEMS, { ruleId })
+    if (items.length === 0) return { count: 0 }
+
+    // 摘要只列出主题、发件人与时间，不读取正文
+    const mails: DigestMail[] = await ctx.database.get(
+      TABLE_MAILS,
+      { id: { $in: items.map(i => i.mailId) } },
+      ['id', 'accountId', 'subject', 'from', 'receivedAt']
+    )
+    const found = new Set(mails.map(m => m.id))
+    const missing = items.filter(i => !found.has(i.mailId))
+    if (missing.length > 0) {
+      await ctx.database.remove(TABLE_DIGEST_ITEMS, { id: { $in: missing.map(i => i.id) } })
+    }
+    if (mails.length === 0) return { count: 0 }
+
+    mails.sort((a, b) => new Date(a.receivedAt).getTime() - new Date(b.receivedAt).getTime())
+    const result = await executeDigestForward(mails, rule)
+
+    if (result.successCount === 0) {
+      logger.warn(LogModule.FORWARD, `规则 "${rule.name}" 的摘要发送失败，保留 ${mails.length} 封邮件待下次发送: ${result.errors?.join('; ') || '未知错误'}`)
+      return { count: mails.length, result }
+    }
+
+    const sent = items.filter(i => found.has(i.mailId))
+    await ctx.database.remove(TABLE_DIGEST_ITEMS, { id: { $in: sent.map(i => i.id) } })
+    logger.info(LogModule.FORWARD, `规则 "${rule.name}" 发送摘要 ${mails.length} 封邮件 (${result.successCount}/${result.totalTargets})`)
+    return { count: mails.length, result }
+  } finally {
+    flushingRules.delete(ruleId)
+  }
+}
+
+// ============ 查询与清理 ============
+
+/**
+ * 统计各规则待发送的摘要
+ *
+ * @param ruleId 只统计指定规则
+ */
+export async function getDigestSummaries(ruleId?: number): Promise<DigestSummary[]> {
+  const ctx = getContext()
+  const items = await ctx.database.get(TABLE_DIGEST_ITEMS, ruleId ? { ruleId } : {}, ['ruleId', 'createdAt'])
+  if (items.length === 0) return []
+
+  const summaries = new Map<number, DigestSummary>()
+  for (const item of items) {
+    const summary = summaries.get(item.ruleId)
+    if (!summary) {
+      summaries.set(item.ruleId, { ruleId: item.ruleId, count: 1, since: item.createdAt })
+      continue
+    }
+    summary.count++
+    if (item.createdAt < summary.since) summary.since = item.createdAt
+  }
+
+  const ruleNames = new Map((await getRules()).map(r => [r.id, r.name]))
+  return [...summaries.values()]
+    .map(s => ({ ...s, ruleName: ruleNames.get(s.ruleId) }))
+    .sort((a, b) => a.ruleId - b.ruleId)
+}
@@ -0,0 +1,531 @@
+/**
+ * 核心模块 - 转发执行
+ *
+ * 负责渲染并发送到聊天、邮件与 Webhook 目标，写入转发记录
+ */
+
+import { h, type Bot } from 'koishi'
+import type {
+  StoredMail,
+  ForwardRule,
+  ForwardTarget,
+  ChatForwardTarget,
+  EmailForwardTarget,
+  WebhookForwardTarget,
+  FailureStrategy,
+  DigestMail,
+} from '../types'
+import { LogModule } from '../logger'
+import { DEFAULT_FORWARD_ELEMENTS, DEFAULT_RENDER_CONFIG } from '../render'
+import { buildWebhookBody, buildWebhookBundleBody, buildWebhookDigestBody, sendWebhook, WebhookError, type WebhookResponse } from '../webhook'
+import {
+  getConfig,
+  getContext,
+  getLogger,
+  getMailRenderer,
+} from './state'
+import { markAsForwarded, getMail } from './mails'
+import { findMatchingRule } from './rules'
+import { recordMessageLinks } from './message-links'
+import { recordForwardLogs, type ForwardDelivery } from './forward-logs'
+import { findThreadMessages } from './threads'
+import { forwardMailByEmail, forwardMailsByEmail, sendDigestByEmail } from './outgoing'
+
+// ============ 类型定义 ============
+
+export interface ForwardResult {
+  /** 是否全部成功 */
+  success: boolean
+  /** 成功发送的目标数量 */
+  successCount: number
+  /** 总目标数量 */
+  totalTargets: number
+  /** 错误消息列表 */
+  errors?: string[]
+  /** 失败的目标（用于重试） */
+  failedTargets?: ForwardTarget[]
+  /** Webhook 目标的响应状态（含重试） */
+  webhookResponses?: WebhookResponse[]
+  /** 各目标的投递结果，同时写入转发记录 */
+  deliveries?: ForwardDelivery[]
+}
+
+export function createFailedResult(message: string, totalTargets: number = 0): ForwardResult {
+  return {
+    success: false,
+    successCount: 0,
+    totalTargets,
+    errors: [message],
+  }
+}
+
+// ============ 执行转发 ============
+
+/**
+ * 执行一次转发并写入转发记录
+ *
+ * @param attempt 第几次尝试，由重试流程传入
+ */
+export async function executeForward(
+  mailId: number,
+  ruleId?: number,
+  targetOverride?: ForwardTarget[],
+  attempt = 1
+): Promise<ForwardResult> {
+  const logger = getLogger()
+  const mailRenderer = getMailRenderer()
+
+  const mail = await getMail(mailId)
+  if (!mail) throw new Error('邮件不存在')
+
+  let rule: ForwardRule | null = null
+  if (ruleId) {
+    rule = await findMatchingRule(mail, ruleId)
+  }
+
+  const targets = targetOverride || rule?.targets || []
+  if (targets.length === 0) {
+    return createFailedResult('没有转发目标')
+  }
+
+  // 如果没有指定规则，创建一个默认规则用于渲染
+  const effectiveRule: ForwardRule = rule || createDefaultRule()
+
+  const chatTargets = targets.filter(isChatTarget)
+  const emailTargets = targets.filter((t): t is EmailForwardTarget => t.type === 'email')
+  const webhookTargets = targets.filter((t): t is WebhookForwardTarget => t.type === 'webhook')
+  const results: ForwardResult[] = []
+
+  // 只有聊天目标需要渲染消息
+  if (chatTargets.length > 0) {
+    let messageElements: h[] | undefined
+    try {
+      messageElements = await mailRenderer.generateForwardElements(mail, effectiveRule)
+    } catch (e) {
+      const errMsg = `渲染失败: ${(e as Error).message}`
+      logger.error(LogModule.FORWARD, `渲染消息失败: ${(e as Error).message}`)
+      results.push({
+        ...createFailedResult(errMsg, chatTargets.length),
+        failedTargets: chatTargets,
+        deliveries: chatTargets.map(target => ({ target, success: false, error: errMsg })),
+      })
+    }
+    if (messageElements) {
+      const quotes = rule?.threadQuote ? await findThreadMessages(mail) : undefined
+      results.push(await broadcastToTargets(messageElements, chatTargets, mail, quotes))
+    }
+  }
+
+  if (emailTargets.length > 0) {
+    results.push(await sendToEmailTargets(emailTargets, target => forwardMailByEmail(mail, target)))
+  }
+
+  if (webhookTargets.length > 0) {
+    results.push(await sendToWebhookTargets(webhookTargets, target => buildWebhookBody(mail, target.bodyTemplate, rule)))
+  }
+
+  const result = mergeForwardResults(results)
+
+  await recordForwardLogs(mail, rule?.id, attempt, result.deliveries || []).catch((e) => {
+    logger.warn(LogModule.FORWARD, `写入转发记录失败: ${(e as Error).message}`)
+  })
+
+  // 根据失败策略决定是否标记为已转发
+  const failureStrategy = effectiveRule.failureStrategy || 'mark-partial'
+  const shouldMarkForwarded = shouldMarkAsForwarded(result, failureStrategy)
+
+  if (shouldMarkForwarded) {
+    await markAsForwarded(mailId)
+  }
+
+  return result
+}
+
+/**
+ * 把多封邮件合并为一条消息投递（投递时段的合并投递）
+ *
+ * 每个目标只发送一次；转发记录与已转发标记按结果分别写入每封邮件
+ *
+ * @param attempt 第几次尝试，由重试流程传入
+ */
+export async function executeBundleForward(
+  mailIds: number[],
+  rule: ForwardRule,
+  targetOverride?: ForwardTarget[],
+  attempt = 1
+): Promise<ForwardResult> {
+  const logger = getLogger()
+  const mailRenderer = getMailRenderer()
+
+  const mails = (await Promise.all(mailIds.map(id => getMail(id)))).filter((m): m is StoredMail => !!m)
+  if (mails.length === 0) throw new Error('邮件不存在')
+  if (mails.length === 1) {
+    return executeForward(mails[0].id, rule.id, targetOverride, attempt)
+  }
+
+  const targets = targetOverride || rule.targets
+  if (targets.length === 0) {
+    return createFailedResult('没有转发目标')
+  }
+
+  const title = `规则「${rule.name}」在投递时段外暂存了 ${mails.length} 封邮件`
+  const chatTargets = targets.filter(isChatTarget)
+  const emailTargets = targets.filter((t): t is EmailForwardTarget => t.type === 'email')
+  const webhookTargets = targets.filter((t): t is WebhookForwardTarget => t.type === 'webhook')
+  const results: ForwardResult[] = []
+
+  if (chatTargets.length > 0) {
+    let messageElements: h[] | undefined
+    try {
+      messageElements = [h.text(title)]
+      for (const mail of mails) {
+        messageElements.push(h.text('\n\n────────────\n\n'))
+        messageElements.push(...await mailRenderer.generateForwardElements(mail, rule))
+      }
+    } catch (e) {
+      const errMsg = `渲染失败: ${(e as Error).message}`
+      logger.error(LogModule.FORWARD, `渲染消息失败: ${(e as Error).message}`)
+      messageElements = undefined
+      results.push({
+        ...createFailedResult(errMsg, chatTargets.length),
+        failedTargets: chatTargets,
+        deliveries: chatTargets.map(target => ({ target, success: false, error: errMsg })),
+      })
+    }
+    if (messageElements) {
+      // 合并消息对应多封邮件，不记录引用回复的消息关联
+      results.push(await broadcastToTargets(messageElements, chatTargets))
+    }
+  }
+
+  if (emailTargets.length > 0) {
+    results.push(await sendToEmailTargets(emailTargets, target => forwardMailsByEmail(mails, target, title)))
+  }
+
+  if (webhookTargets.length > 0) {
+    results.push(await sendToWebhookTargets(
+      webhookTargets,
+      target => buildWebhookBundleBody(mails, target.bodyTemplate, rule),
+      'mail.bundle'
+    ))
+  }
+
+  const result = mergeForwardResults(results)
+  const shouldMarkForwarded = shouldMarkAsForwarded(result, rule.failureStrategy || 'mark-partial')
+
+  for (const mail of mails) {
+    await recordForwardLogs(mail, rule.id, attempt, result.deliveries || []).catch((e) => {
+      logger.warn(LogModule.FORWARD, `写入转发记录失败: ${(e as Error).message}`)
+    })
+    if (shouldMarkForwarded) {
+      await markAsForwarded(mail.id)
+    }
+  }
+
+  return result
+}
+
+/**
+ * 发送摘要：所有目标各收到一条列出邮件主题、发件人与时间的消息
+ *
+ * 转发记录与已转发标记按结果分别写入每封邮件
+ */
+export async function executeDigestForward(mails: DigestMail[], rule: ForwardRule): Promise<ForwardResult> {
+  const logger = getLogger()
+  const mailRenderer = getMailRenderer()
+
+  if (rule.targets.length === 0) {
+    return createFailedResult('没有转发目标')
+  }
+
+  const title = `规则「${rule.name}」摘要：${mails.length} 封邮件`
+  const chatTargets = rule.targets.filter(isChatTarget)
+  const emailTargets = rule.targets.filter((t): t is EmailForwardTarget => t.type === 'email')
+  const webhookTargets = rule.targets.filter((t): t is WebhookForwardTarget => t.type === 'webhook')
+  const results: ForwardResult[] = []
+
+  if (chatTargets.length > 0) {
+    const messageElements = await mailRenderer.generateDigestElements(title, mails, rule)
+    results.push(await broadcastToTargets(messageElements, chatTargets))
+  }
+
+  if (emailTargets.length > 0) {
+    const text = mailRenderer.generateDigestText(title, mails)
+    results.push(await sendToEmailTargets(emailTargets, target => sendDigestByEmail(target, title, text)))
+  }
+
+  if (webhookTargets.length > 0) {
+    const body = buildWebhookDigestBody(mails, rule)
+    results.push(await sendToWebhookTargets(webhookTargets, () => body, 'mail.digest'))
+  }
+
+  const result = mergeForwardResults(results)
+  const shouldMarkForwarded = shouldMarkAsForwarded(result, rule.failureStrategy || 'mark-partial')
+
+  for (const mail of mails) {
+    await recordForwardLogs(mail, rule.id, 1, result.deliveries || []).catch((e) => {
+      logger.warn(LogModule.FORWARD, `写入转发记录失败: ${(e as Error).message}`)
+    })
+    if (shouldMarkForwarded) {
+      await markAsForwarded(mail.id)
+    }
+  }
+
+  return result
+}
+
+/**
+ * 合并聊天目标与邮件目标的转发结果
+ */
+function mergeForwardResults(results: ForwardResult[]): ForwardResult {
+  const errors = results.flatMap(r => r.errors || [])
+  const failedTargets = results.flatMap(r => r.failedTargets || [])
+  const webhookResponses = results.flatMap(r => r.webhookResponses || [])
+  const deliveries = results.flatMap(r => r.deliveries || [])
+  const successCount = results.reduce((sum, r) => sum + r.successCount, 0)
+  const totalTargets = results.reduce((sum, r) => sum + r.totalTargets, 0)
+
+  return {
+    success: successCount === totalTargets,
+    successCount,
+    totalTargets,
+    errors: errors.length > 0 ? errors : undefined,
+    failedTargets: failedTargets.length > 0 ? failedTargets : undefined,
+    webhookResponses: webhookResponses.length > 0 ? webhookResponses : undefined,
+    deliveries,
+  }
+}
+
+/**
+ * 根据失败策略决定是否标记邮件为已转发
+ */
+function shouldMarkAsForwarded(result: ForwardResult, strategy: FailureStrategy): boolean {
+  switch (strategy) {
+    case 'require-all':
+      return result.success // 只有全部成功才标记
+    case 'retry-failed':
+    case 'mark-partial':
+    default:
+      return result.successCount > 0 // 部分成功就标记
+  }
+}
+
+/**
+ * 创建默认规则用于渲染
+ */
+function createDefaultRule(): ForwardRule {
+  return {
+    id: 0,
+    name: '默认规则',
+    enabled: true,
+    priority: 100,
+    conditionLogic: 'and',
+    conditions: [],
+    targets: [],
+    elements: [...DEFAULT_FORWARD_ELEMENTS],
+    renderConfig: { ...DEFAULT_RENDER_CONFIG },
+    failureStrategy: 'mark-partial',
+    delayMs: 0,
+    skipForwarded: true,
+    stopProcessing: false,
+    threadFirstOnly: false,
+    threadQuote: false,
+    shadow: false,
+    retryCount: 0,
+    retryIntervalMs: 5000,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  }
+}
+
+// ============ 目标广播 ============
+
+/**
+ * 发送消息到多个目标
+ *
+ * @param mail 传入时记录发出的消息 ID，供引用回复定位原邮件
+ * @param quotes 以 `平台:频道` 为键的消息 ID，发送到对应频道时引用该消息（同一会话的上一条转发）
+ */
+export async function broadcastToTargets(
+  messageElements: h[],
+  targets: ChatForwardTarget[],
+  mail?: Pick<StoredMail, 'id' | 'accountId'>,
+  quotes?: Map<string, string>
+): Promise<ForwardResult> {
+  const logger = getLogger()
+
+  const errors: string[] = []
+  const failedTargets: ForwardTarget[] = []
+  const deliveries: ForwardDelivery[] = []
+  let successCount = 0
+
+  for (const target of targets) {
+    try {
+      const bot = findBot(target.platform, target.selfId)
+      if (!bot) {
+        const errMsg = `找不到 Bot: platform=${target.platform}, selfId=${target.selfId}`
+        errors.push(errMsg)
+        failedTargets.push(target)
+        deliveries.push({ target, success: false, error: errMsg })
+        logger.warn(LogModule.FORWARD, errMsg)
+        continue
+      }
+
+      if (!bot.isActive) {
+        const errMsg = `Bot 未激活: platform=${target.platform}, selfId=${target.selfId}`
+        errors.push(errMsg)
+        failedTargets.push(target)
+        deliveries.push({ target, success: false, error: errMsg })
+        logger.warn(LogModule.FORWARD, errMsg)
+        continue
+      }
+
+      const quoteId = quotes?.get(`${bot.platform}:${target.channelId}`)
+      const content = quoteId ? [h.quote(quoteId), ...messageElements] : messageElements
+      const messageIds = await bot.sendMessage(target.channelId, content)
+      successCount++
+      deliveries.push({ target, success: true, messageIds: messageIds || [] })
+      if (mail && messageIds?.length) {
+        await recordMessageLinks(mail, bot.platform, target.channelId, messageIds).catch((e) => {
+          logger.debug(LogModule.FORWARD, `记录消息关联失败: ${(e as Error).message}`)
+        })
+      }
+      logger.debug(LogModule.FORWARD, `成功发送到 ${target.displayName || target.channelId}`)
+    } catch (e) {
+      const errMsg = `发送到 ${target.displayName || target.channelId} 失败: ${(e as Error).message}`
+      errors.push(errMsg)
+      failedTargets.push(target)
+      deliveries.push({ target, success: false, error: errMsg })
+      logger.warn(LogModule.FORWARD, errMsg)
+    }
+  }
+
+  return {
+    success: successCount === targets.length,
+    successCount,
+    totalTargets: targets.length,
+    errors: errors.length > 0 ? errors : undefined,
+    failedTargets: failedTargets.length > 0 ? failedTargets : undefined,
+    deliveries,
+  }
+}
+
+/**
+ * 通过 SMTP 把邮件转发到邮件目标
+ *
+ * @param send 向单个目标发信，返回外发邮件的 Message-ID
+ */
+async function sendToEmailTargets(
+  targets: EmailForwardTarget[],
+  send: (target: EmailForwardTarget) => Promise<string>
+): Promise<ForwardResult> {
+  const logger = getLogger()
+
+  const errors: string[] = []
+  const failedTargets: ForwardTarget[] = []
+  const deliveries: ForwardDelivery[] = []
+  let successCount = 0
+
+  for (const target of targets) {
+    try {
+      const messageId = await send(target)
+      successCount++
+      deliveries.push({ target, success: true, messageIds: messageId ? [messageId] : [] })
+      logger.debug(LogModule.FORWARD, `成功转发到邮箱 ${target.displayName || target.address}`)
+    } catch (e) {
+      const errMsg = `转发到邮箱 ${target.displayName || target.address} 失败: ${(e as Error).message}`
+      errors.push(errMsg)
+      failedTargets.push(target)
+      deliveries.push({ target, success: false, error: errMsg })
+      logger.warn(LogModule.FORWARD, errMsg)
+    }
+  }
+
+  return {
+    success: successCount === targets.length,
+    successCount,
+    totalTargets: targets.length,
+    errors: errors.length > 0 ? errors : undefined,
+    failedTargets: failedTargets.length > 0 ? failedTargets : undefined,
+    deliveries,
+  }
+}
+
+/**
+ * 把邮件以 JSON 形式投递到 Webhook 目标，记录每次请求的响应状态
+ *
+ * @param buildBody 生成单个目标的请求体
+ * @param event 事件类型
+ */
+async function sendToWebhookTargets(
+  targets: WebhookForwardTarget[],
+  buildBody: (target: WebhookForwardTarget) => string,
+  event?: string
+): Promise<ForwardResult> {
+  const logger = getLogger()
+  const timeout = getConfig().connectionTimeout * 1000
+
+  const errors: string[] = []
+  const failedTargets: ForwardTarget[] = []
+  const webhookResponses: WebhookResponse[] = []
+  const deliveries: ForwardDelivery[] = []
+  let successCount = 0
+
+  for (const target of targets) {
+    const label = target.displayName || target.url
+    try {
+      const body = buildBody(target)
+      const response = await sendWebhook(target, body, timeout, event)
+      webhookResponses.push(response)
+      successCount++
+      deliveries.push({ target, success: true, httpStatus: response.status })
+      logger.debug(LogModule.FORWARD, `Webhook ${label} 响应 HTTP ${response.status} (${response.durationMs}ms)`)
+    } catch (e) {
+      const response = e instanceof WebhookError ? e.response : undefined
+      if (response) {
+        webhookResponses.push(response)
+      }
+      const errMsg = `投递到 Webhook ${label} 失败: ${(e as Error).message}`
+      errors.push(errMsg)
+      failedTargets.push(target)
+      deliveries.push({ target, success: false, error: errMsg, httpStatus: response?.status || undefined })
+      logger.warn(LogModule.FORWARD, errMsg)
+    }
+  }
+
+  return {
+    success: successCount === targets.length,
+    successCount,
+    totalTargets: targets.length,
+    errors: errors.length > 0 ? errors : undefined,
+    failedTargets: failedTargets.length > 0 ? failedTargets : undefined,
+    webhookResponses: webhookResponses.length > 0 ? webhookResponses : undefined,
+    deliveries,
+  }
+}
+
+function isChatTarget(target: ForwardTarget): target is ChatForwardTarget {
+  return target.type !== 'email' && target.type !== 'webhook'
+}
+
+/**
+ * 查找匹配的 Bot 实例
+ */
+function findBot(platform: string, selfId: string): Bot | undefined {
+  const ctx = getContext()
+
+  // 首先尝试精确匹配
+  const exactMatch = ctx.bots.find(b => b.platform === platform && b.selfId === selfId)
+  if (exactMatch) return exactMatch
+
+  // 如果找不到精确匹配，尝试模糊匹配（可能是 platform 格式问题）
+  const fuzzyMatch = ctx.bots.find(b =>
+    b.selfId === selfId && (
+      b.platform === platform ||
+      b.platform.startsWith(platform + ':') ||
+      platform.startsWith(b.platform + ':')
+    )
+  )
+
+  return fuzzyMatch
+}
@@ -0,0 +1,99 @@
+/**
+ * 核心模块 - 转发记录
+ *
+ * 记录每次向各目标投递的结果，用于按规则判断「跳过已转发」并在控制台展示投递历史
+ */
+
+import type { ForwardLog, ForwardRule, ForwardTarget, StoredMail } from '../types'
+import {
+  TABLE_FORWARD_LOGS,
+  getContext,
+} from './state'
+
+/** 单个目标的投递结果 */
+export interface ForwardDelivery {
+  target: ForwardTarget
+  success: boolean
+  /** 失败原因 */
+  error?: string
+  /** 投递产生的消息 ID */
+  messageIds?: string[]
+  /** Webhook 目标的 HTTP 状态码 */
+  httpStatus?: number
+}
+
+/**
+ * 生成目标标识
+ */
+export function getTargetKey(target: ForwardTarget): string {
+  switch (target.type) {
+    case 'email':
+      return `email:${target.address.trim().toLowerCase()}`
+    case 'webhook':
+      return `webhook:${target.url.trim()}`
+    default:
+      return `chat:${target.platform}:${target.selfId}:${target.channelId}`
+  }
+}
+
+/**
+ * 写入一次转发的投递记录
+ *
+ * @param attempt 第几次尝试（从 1 开始）
+ */
+export async function recordForwardLogs(
+  mail: Pick<StoredMail, 'id' | 'accountId'>,
+  ruleId: number | undefined,
+  attempt: number,
+  deliveries: ForwardDelivery[]
+): Promise<void> {
+  const ctx = getContext()
+  const createdAt = new Date()
+
+  for (const delivery of deliveries) {
+    await ctx.database.create(TABLE_FORWARD_LOGS, {
+      mailId: mail.id,
+      accountId: mail.accountId,
+      ruleId: ruleId || 0,
+      targetType: delivery.target.type || 'chat',
+      targetKey: getTargetKey(delivery.target),
+      targetName: delivery.target.displayName,
+      attempt,
+      status: delivery.success ? 'success' : 'failed',
+      error: delivery.error,
+      messageIds: delivery.messageIds || [],
+      httpStatus: delivery.httpStatus,
+      createdAt,
+    })
+  }
+}
+
+/**
+ * 获取邮件的投递历史（按时间先后）
+ */
+export async function getForwardLogs(mailId: number): Promise<ForwardLog[]> {
+  const ctx = getContext()
+  const logs = await ctx.database.get(TABLE_FORWARD_LOGS, { mailId })
+  return logs.sort((a, b) => a.id - b.id)
+}
+
+/**
+ * 邮件是否已被指定规则转发过
+ *
+ * 与失败策略一致：require-all 要求规则的每个目标都投递成功过，其他策略有任一目标成功即可
+ */
+export async function isForwardedByRule(mail: StoredMail, rule: ForwardRule): Promise<boolean> {
+  const ctx = getContext()
+  const logs = await ctx.database.get(TABLE_FORWARD_LOGS, { mailId: mail.id }, ['ruleId', 'targetKey', 'status'])
+
+  // 转发记录表之前转发的邮件没有记录，沿用全局的已转发标记
+  if (logs.length === 0) return mail.isForwarded
+
+  const delivered = new Set(
+    logs.filter(l => l.ruleId === rule.id && l.status === 'success').map(l => l.targetKey)
+  )
+  if (rule.failureStrategy === 'require-all') {
+    return rule.targets.length > 0 && rule.targets.every(t => delivered.has(getTargetKey(t)))
+  }
+  return delivered.size > 0
+}
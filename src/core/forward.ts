@@ -1,170 +1,165 @@
 /**
  * 核心模块 - 转发逻辑
  *
- * 负责邮件转发、目标广播和自动转发处理
+ * 负责新邮件处理、自动转发与账户连接管理；转发的执行与目标广播见 dispatch.ts
  */
 
-import type { Bot, h } from 'koishi'
 import type {
   StoredMail,
   ForwardRule,
   ForwardTarget,
-  FailureStrategy,
   RuleMatchStrategy,
 } from '../types'
 import { LogModule } from '../logger'
-import { DEFAULT_FORWARD_ELEMENTS, DEFAULT_RENDER_CONFIG } from '../render'
 import { sleep } from '../utils'
 import {
   activeConnections,
   getConfig,
   getContext,
   getLogger,
-  getMailRenderer,
 } from './state'
 import { connectAccount } from './accounts'
-import { markAsForwarded, getMail, createMail } from './mails'
-import { getRules, findMatchingRule, getMatchingRules } from './rules'
+import { getMail, createMail, findMailByMessageId, isOutboundMessage } from './mails'
+import { getRules, findMatchingRule, getMatchingRules, createConditionContext } from './rules'
+import { isForwardedByRule } from './forward-logs'
+import { enqueueDelivery, processDeliveryQueue } from './deliveries'
+import { addToDigest } from './digests'
+import { recordShadowRun } from './shadow'
+import { isFirstInThread } from './threads'
+import { verifyLoopMarker } from './outgoing'
+import { createFailedResult, executeForward, type ForwardResult } from './dispatch'
 import type { ParsedMail } from '../parser'
 
-// ============ 类型定义 ============
-
-export interface ForwardResult {
-  /** 是否全部成功 */
-  success: boolean
-  /** 成功发送的目标数量 */
-  successCount: number
-  /** 总目标数量 */
-  totalTargets: number
-  /** 错误消息列表 */
-  errors?: string[]
-  /** 失败的目标（用于重试） */
-  failedTargets?: ForwardTarget[]
-}
-
-/** 处理队列上限，防止内存泄漏 */
-const MAX_PROCESSING_MAILS = 1000
-
-/**
- * 正在处理的邮件集合（防止并发重复处理）
- */
-const processingMails = new Set<number>()
-
 // ============ 新邮件处理 ============
 
 /**
- * 处理新邮件（由 IMAP 连接调用）
+ * 处理新邮件（由邮件源连接调用）
  * 负责创建邮件记录并触发自动转发
+ *
+ * 入库失败时抛出，由邮件源决定是否保留邮件以便重试（IMAP 不推进水位线、POP3 不记录 UIDL 等）
  */
 export async function handleNewMail(accountId: number, parsedMail: ParsedMail): Promise<void> {
   const logger = getLogger()
 
   try {
-    const mail = await createMail(accountId, parsedMail)
-    logger.info(LogModule.MAIL, `收到新邮件: "${mail.subject}"`)
-
-    // 异步处理自动转发，不阻塞主流程
-    processAutoForwardingAsync(mail).catch(e => {
-      logger.error(LogModule.FORWARD, `自动转发失败: ${(e as Error).message}`)
-    })
+    await ingestMail(accountId, parsedMail)
   } catch (e) {
     logger.error(LogModule.MAIL, `处理新邮件失败: ${(e as Error).message}`)
+    throw e
   }
 }
 
 /**
- * 异步处理自动转发（带并发控制）
+ * 入库新邮件并触发自动转发
+ *
+ * @returns 新建的邮件记录；按 Message-ID 判定为已存在时返回 null
  */
-export async function processAutoForwardingAsync(mail: StoredMail): Promise<void> {
+export async function ingestMail(accountId: number, parsedMail: ParsedMail): Promise<StoredMail | null> {
   const logger = getLogger()
 
-  // 防止同一邮件被并发处理
-  if (processingMails.has(mail.id)) {
-    logger.debug(LogModule.FORWARD, `邮件 #${mail.id} 正在处理中，跳过`)
-    return
+  // UIDVALIDITY 变化后的重新同步会再次送来已入库的邮件，按 Message-ID 去重
+  if (parsedMail.messageId && await findMailByMessageId(accountId, parsedMail.messageId)) {
+    logger.debug(LogModule.MAIL, `邮件已存在，跳过: ${parsedMail.messageId}`)
+    return null
   }
 
-  // 防止处理队列无限增长
-  if (processingMails.size >= MAX_PROCESSING_MAILS) {
-    logger.warn(LogModule.FORWARD, `处理队列已满 (${processingMails.size}/${MAX_PROCESSING_MAILS})，跳过邮件 #${mail.id}`)
-    return
+  const mail = await createMail(accountId, parsedMail)
+  logger.info(LogModule.MAIL, `收到新邮件: "${mail.subject}"`)
+
+  // 插件自己发出的邮件（转发到邮件目标、回复等）回到被监听的邮箱时只入库，不再自动转发，避免环路
+  // 环路标记头可被外部发件人伪造，只认签名有效的标记
+  if (verifyLoopMarker(parsedMail.loopMarker) || (mail.messageId && await isOutboundMessage(mail.messageId))) {
+    logger.debug(LogModule.FORWARD, `邮件 #${mail.id} 由本插件发出，跳过自动转发`)
+    return mail
   }
 
-  processingMails.add(mail.id)
+  // 异步处理自动转发，不阻塞主流程
+  processAutoForwardingAsync(mail).catch(e => {
+    logger.error(LogModule.FORWARD, `自动转发失败: ${(e as Error).message}`)
+  })
 
-  try {
-    const rules = await getRules()
-    const enabledRules = rules.filter(r => r.enabled)
+  return mail
+}
 
-    if (enabledRules.length === 0) {
-      logger.debug(LogModule.FORWARD, '没有启用的规则，跳过自动转发')
-      return
-    }
+/**
+ * 处理自动转发：把匹配规则的投递任务写入队列
+ *
+ * 实际投递、延迟与重试由投递队列完成，见 deliveries.ts；摘要模式的规则加入摘要，见 digests.ts
+ */
+export async function processAutoForwardingAsync(mail: StoredMail): Promise<void> {
+  const logger = getLogger()
 
-    // 获取所有匹配的规则（按优先级排序）
-    const matchingRules = getMatchingRules(mail, enabledRules)
+  const rules = await getRules()
+  const enabledRules = rules.filter(r => r.enabled)
 
-    if (matchingRules.length === 0) {
-      logger.debug(LogModule.FORWARD, `邮件 "${mail.subject}" 没有匹配的规则`)
-      return
-    }
+  if (enabledRules.length === 0) {
+    logger.debug(LogModule.FORWARD, '没有启用的规则，跳过自动转发')
+    return
+  }
 
-    // 默认使用 first-match 策略
-    const matchStrategy: RuleMatchStrategy = 'first-match'
+  // 获取所有匹配的规则（按优先级排序）
+  const matchingRules = getMatchingRules(mail, enabledRules, await createConditionContext(mail))
 
-    // 如果是 first-match，只处理第一个匹配的规则
-    const rulesToExecute = matchStrategy === 'first-match'
-      ? [matchingRules[0]]
-      : matchingRules
+  if (matchingRules.length === 0) {
+    logger.debug(LogModule.FORWARD, `邮件 "${mail.subject}" 没有匹配的规则`)
+    return
+  }
 
-    for (const rule of rulesToExecute) {
-      // 检查是否跳过已转发的邮件
-      if (rule.skipForwarded && mail.isForwarded) {
-        logger.debug(LogModule.FORWARD, `邮件 "${mail.subject}" 已转发，规则 "${rule.name}" 跳过`)
-        continue
-      }
+  const matchStrategy: RuleMatchStrategy = getConfig().ruleMatchStrategy || 'first-match'
+  const liveRules = matchingRules.filter(r => !r.shadow)
+  const rulesToExecute = selectRulesToExecute(liveRules, matchStrategy)
 
-      logger.info(LogModule.FORWARD, `转发 "${mail.subject}" -> 规则 "${rule.name}"`)
+  // 影子规则不参与实时规则的选择，按「假如正式启用」单独判断是否会执行
+  for (const rule of matchingRules.filter(r => r.shadow)) {
+    const selected = selectRulesToExecute(matchingRules.filter(r => !r.shadow || r === rule), matchStrategy)
+    const blockedBy = selected.includes(rule) ? undefined : selected[0]
+    await recordShadowRun(mail, rule, blockedBy).catch((e) => {
+      logger.error(LogModule.FORWARD, `记录规则 "${rule.name}" 的影子运行失败: ${(e as Error).message}`)
+    })
+  }
 
-      // 如果配置了延迟，则等待
-      const delay = rule.delayMs || 0
-      if (delay > 0) {
-        logger.debug(LogModule.FORWARD, `等待 ${delay}ms 后转发`)
-        await sleep(delay)
-      }
+  let enqueued = 0
+  for (const rule of rulesToExecute) {
+    // 检查此规则是否已转发过该邮件
+    if (rule.skipForwarded && await isForwardedByRule(mail, rule)) {
+      logger.debug(LogModule.FORWARD, `邮件 "${mail.subject}" 已由规则 "${rule.name}" 转发，跳过`)
+      continue
+    }
 
-      try {
-        const result = await executeForwardWithRetry(mail.id, rule)
-        logForwardResult(logger, result, rule)
-      } catch (e) {
-        logger.error(LogModule.FORWARD, `执行转发失败: ${(e as Error).message}`)
-      }
+    if (rule.threadFirstOnly && !await isFirstInThread(mail)) {
+      logger.debug(LogModule.FORWARD, `邮件 "${mail.subject}" 不是会话的首封邮件，规则 "${rule.name}" 跳过`)
+      continue
+    }
+
+    if (rule.digest) {
+      await addToDigest(mail, rule)
+      continue
+    }
+
+    if (await enqueueDelivery(mail, rule)) {
+      enqueued++
+      logger.info(LogModule.FORWARD, `转发 "${mail.subject}" -> 规则 "${rule.name}"${rule.delayMs ? `（${rule.delayMs}ms 后）` : ''}`)
+    } else {
+      logger.debug(LogModule.FORWARD, `邮件 #${mail.id} 已在规则 "${rule.name}" 的投递队列中，跳过`)
     }
-  } finally {
-    processingMails.delete(mail.id)
   }
-}
 
-/**
- * 记录转发结果
- */
-function logForwardResult(logger: ReturnType<typeof getLogger>, result: ForwardResult, rule: ForwardRule): void {
-  if (result.success) {
-    logger.info(LogModule.FORWARD, `转发成功 (${result.successCount}/${result.totalTargets})`)
-  } else if (result.successCount > 0) {
-    logger.warn(LogModule.FORWARD, `部分成功 (${result.successCount}/${result.totalTargets})`)
-  } else {
-    logger.error(LogModule.FORWARD, `转发失败: ${result.errors?.join(', ')}`)
+  if (enqueued > 0) {
+    await processDeliveryQueue()
   }
 }
 
-function createFailedResult(message: string, totalTargets: number = 0): ForwardResult {
-  return {
-    success: false,
-    successCount: 0,
-    totalTargets,
-    errors: [message],
+/**
+ * 按匹配策略选出要执行的规则
+ *
+ * first-match 只取优先级最高的规则；all-match 依次取到第一条设置了停止处理的规则为止（含该规则）
+ */
+function selectRulesToExecute(matchingRules: ForwardRule[], strategy: RuleMatchStrategy): ForwardRule[] {
+  if (strategy === 'first-match') {
+    return matchingRules.slice(0, 1)
   }
+  const stopIndex = matchingRules.findIndex(r => r.stopProcessing)
+  return stopIndex < 0 ? matchingRules : matchingRules.slice(0, stopIndex + 1)
 }
 
 // ============ 手动转发 ============
@@ -196,207 +191,6 @@ export async function forwardMail(
   }
 }
 
-// ============ 执行转发 ============
-
-/**
- * 执行带重试的转发
- */
-async function executeForwardWithRetry(mailId: number, rule: ForwardRule): Promise<ForwardResult> {
-  const logger = getLogger()
-  const maxRetries = rule.retryCount || 0
-  const retryInterval = rule.retryIntervalMs || 5000
-  let lastResult: ForwardResult = {
-    success: false,
-    successCount: 0,
-    totalTargets: 0,
-    errors: [],
-  }
-
-  // 首次尝试
-  lastResult = await executeForward(mailId, rule.id)
-
-  // 如果需要重试且有失败的目标
-  if (!lastResult.success && maxRetries > 0 && lastResult.failedTargets && lastResult.failedTargets.length > 0) {
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      logger.debug(LogModule.FORWARD, `重试 ${attempt}/${maxRetries}`)
-      await sleep(retryInterval)
-
-      // 只重试失败的目标
-      const retryResult = await executeForward(mailId, rule.id, lastResult.failedTargets)
-
-      // 合并结果
-      lastResult.successCount += retryResult.successCount
-      lastResult.failedTargets = retryResult.failedTargets
-      lastResult.errors = retryResult.errors
-
-      if (retryResult.success || !retryResult.failedTargets?.length) {
-        lastResult.success = true
-        break
-      }
-    }
-  }
-
-  return lastResult
-}
-
-export async function executeForward(
-  mailId: number,
-  ruleId?: number,
-  targetOverride?: ForwardTarget[]
-): Promise<ForwardResult> {
-  const logger = getLogger()
-  const mailRenderer = getMailRenderer()
-
-  const mail = await getMail(mailId)
-  if (!mail) throw new Error('邮件不存在')
-
-  let rule: ForwardRule | null = null
-  if (ruleId) {
-    rule = await findMatchingRule(mail, ruleId)
-  }
-
-  const targets = targetOverride || rule?.targets || []
-  if (targets.length === 0) {
-    return createFailedResult('没有转发目标')
-  }
-
-  // 如果没有指定规则，创建一个默认规则用于渲染
-  const effectiveRule: ForwardRule = rule || createDefaultRule()
-
-  let messageElements: h[]
-  try {
-    messageElements = await mailRenderer.generateForwardElements(mail, effectiveRule)
-  } catch (e) {
-    logger.error(LogModule.FORWARD, `渲染消息失败: ${(e as Error).message}`)
-    return createFailedResult(`渲染失败: ${(e as Error).message}`, targets.length)
-  }
-
-  // 广播到目标
-  const result = await broadcastToTargets(messageElements, targets)
-
-  // 根据失败策略决定是否标记为已转发
-  const failureStrategy = effectiveRule.failureStrategy || 'mark-partial'
-  const shouldMarkForwarded = shouldMarkAsForwarded(result, failureStrategy)
-
-  if (shouldMarkForwarded) {
-    await markAsForwarded(mailId)
-  }
-
-  return result
-}
-
-/**
- * 根据失败策略决定是否标记邮件为已转发
- */
-function shouldMarkAsForwarded(result: ForwardResult, strategy: FailureStrategy): boolean {
-  switch (strategy) {
-    case 'require-all':
-      return result.success // 只有全部成功才标记
-    case 'retry-failed':
-    case 'mark-partial':
-    default:
-      return result.successCount > 0 // 部分成功就标记
-  }
-}
-
-/**
- * 创建默认规则用于渲染
- */
-function createDefaultRule(): ForwardRule {
-  return {
-    id: 0,
-    name: '默认规则',
-    enabled: true,
-    priority: 100,
-    conditionLogic: 'and',
-    conditions: [],
-    targets: [],
-    elements: [...DEFAULT_FORWARD_ELEMENTS],
-    renderConfig: { ...DEFAULT_RENDER_CONFIG },
-    failureStrategy: 'mark-partial',
-    delayMs: 0,
-    skipForwarded: true,
-    retryCount: 0,
-    retryIntervalMs: 5000,
-    createdAt: new Date(),
-    updatedAt: new Date(),
-  }
-}
-
-// ============ 目标广播 ============
-
-export async function broadcastToTargets(
-  messageElements: h[],
-  targets: ForwardTarget[]
-): Promise<ForwardResult> {
-  const ctx = getContext()
-  const logger = getLogger()
-
-  const errors: string[] = []
-  const failedTargets: ForwardTarget[] = []
-  let successCount = 0
-
-  for (const target of targets) {
-    try {
-      const bot = findBot(target.platform, target.selfId)
-      if (!bot) {
-        const errMsg = `找不到 Bot: platform=${target.platform}, selfId=${target.selfId}`
-        errors.push(errMsg)
-        failedTargets.push(target)
-        logger.warn(LogModule.FORWARD, errMsg)
-        continue
-      }
-
-      if (!bot.isActive) {
-        const errMsg = `Bot 未激活: platform=${target.platform}, selfId=${target.selfId}`
-        errors.push(errMsg)
-        failedTargets.push(target)
-        logger.warn(LogModule.FORWARD, errMsg)
-        continue
-      }
-
-      await bot.sendMessage(target.channelId, messageElements)
-      successCount++
-      logger.debug(LogModule.FORWARD, `成功发送到 ${target.displayName || target.channelId}`)
-    } catch (e) {
-      const errMsg = `发送到 ${target.displayName || target.channelId} 失败: ${(e as Error).message}`
-      errors.push(errMsg)
-      failedTargets.push(target)
-      logger.warn(LogModule.FORWARD, errMsg)
-    }
-  }
-
-  return {
-    success: successCount === targets.length,
-    successCount,
-    totalTargets: targets.length,
-    errors: errors.length > 0 ? errors : undefined,
-    failedTargets: failedTargets.length > 0 ? failedTargets : undefined,
-  }
-}
-
-/**
- * 查找匹配的 Bot 实例
- */
-function findBot(platform: string, selfId: string): Bot | undefined {
-  const ctx = getContext()
-
-  // 首先尝试精确匹配
-  const exactMatch = ctx.bots.find(b => b.platform === platform && b.selfId === selfId)
-  if (exactMatch) return exactMatch
-
-  // 如果找不到精确匹配，尝试模糊匹配（可能是 platform 格式问题）
-  const fuzzyMatch = ctx.bots.find(b =>
-    b.selfId === selfId && (
-      b.platform === platform ||
-      b.platform.startsWith(platform + ':') ||
-      platform.startsWith(b.platform + ':')
-    )
-  )
-
-  return fuzzyMatch
-}
-
 // ============ 账户连接状态监控 ============
 
 /**
@@ -0,0 +1,81 @@
+/**
+ * 核心模块 - HTTP 推送令牌
+ *
+ * 每个 HTTP 推送账号持有一个随机令牌，推送请求凭令牌绑定到对应账号
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto'
+import type { MailAccount } from '../types'
+import { LogModule } from '../logger'
+import { encryptPassword, decryptPassword } from '../utils/crypto'
+import {
+  TABLE_ACCOUNTS,
+  getContext,
+  getLogger,
+} from './state'
+
+/**
+ * 生成新的推送令牌（已加密，可直接写入数据库）
+ */
+export function generateInboundToken(): string {
+  return encryptPassword(randomBytes(24).toString('base64url'))
+}
+
+/**
+ * 获取账号的推送令牌明文
+ *
+ * @param regenerate 生成新令牌并使旧令牌立即失效
+ */
+export async function getInboundToken(accountId: number, regenerate = false): Promise<string> {
+  const ctx = getContext()
+  const logger = getLogger()
+
+  const [account] = await ctx.database.get(TABLE_ACCOUNTS, { id: accountId })
+  if (!account) {
+    throw new Error(`账号不存在: ${accountId}`)
+  }
+  if (account.protocol !== 'http') {
+    throw new Error(`${account.email} 不是 HTTP 推送账号`)
+  }
+
+  if (!regenerate && account.inboundToken) {
+    try {
+      return decryptPassword(account.inboundToken)
+    } catch {
+      logger.warn(LogModule.SYSTEM, `${account.email} 推送令牌解密失败，将重新生成`)
+    }
+  }
+
+  const inboundToken = generateInboundToken()
+  await ctx.database.set(TABLE_ACCOUNTS, { id: accountId }, { inboundToken })
+  logger.info(LogModule.SYSTEM, `${account.email} 已生成新的推送令牌`)
+  return decryptPassword(inboundToken)
+}
+
+/**
+ * 按令牌查找推送账号
+ *
+ * 令牌加密存储无法直接查询，推送账号数量有限，逐个解密后做定长比较。
+ */
+export async function findAccountByInboundToken(token: string): Promise<MailAccount | null> {
+  const ctx = getContext()
+  if (!token) return null
+
+  const expected = digest(token)
+  const accounts = await ctx.database.get(TABLE_ACCOUNTS, { protocol: 'http' })
+  for (const account of accounts) {
+    if (!account.inboundToken) continue
+    let stored: string
+    try {
+      stored = decryptPassword(account.inboundToken)
+    } catch {
+      continue
+    }
+    if (timingSafeEqual(digest(stored), expected)) return account
+  }
+  return null
+}
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest()
+}
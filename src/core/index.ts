@@ -19,7 +19,10 @@ import {
 } from './state'
 import { registerRulesCacheListener } from './rules'
 import { handleNewMail, startAllConnections, stopAllConnections } from './forward'
-import type { ImapConnection } from '../imap'
+import { startDeliveryQueue } from './deliveries'
+import { startDigests } from './digests'
+import { backfillThreadIds } from './threads'
+import type { MailSourceConnection } from '../connection'
 
 // ============ 初始化 ============
 
@@ -37,12 +40,24 @@ export async function initCore(ctx: Context, config: Config): Promise<void> {
   // 注册规则缓存监听器（用于多实例同步）
   registerRulesCacheListener()
 
+  // 恢复投递队列，新邮件的转发任务由队列投递
+  await startDeliveryQueue()
+
+  // 恢复摘要模式累积的邮件，发送重启期间到期的摘要
+  await startDigests()
+
+  // 升级前入库的邮件补写会话 ID，会话查询依赖该字段
+  const backfilled = await backfillThreadIds()
+  if (backfilled > 0) {
+    logger.info(LogModule.SYSTEM, `已为 ${backfilled} 封邮件补写会话 ID`)
+  }
+
   // 启动已启用账户的连接
   await startAllConnections()
 
   // 捕获当前实例拥有的连接（用于 dispose 时安全断开）
   // 这确保热重载时旧实例只断开自己创建的连接
-  const ownedConnections = new Map<number, ImapConnection>(activeConnections)
+  const ownedConnections = new Map<number, MailSourceConnection>(activeConnections)
 
   // 注册清理回调
   ctx.on('dispose', async () => {
@@ -71,7 +86,7 @@ export async function initCore(ctx: Context, config: Config): Promise<void> {
  * 断开指定的连接集合
  */
 async function stopOwnedConnections(
-  connections: Map<number, ImapConnection>,
+  connections: Map<number, MailSourceConnection>,
   logger: MailManagerLogger
 ): Promise<void> {
   const count = connections.size
@@ -112,15 +127,87 @@ export {
   deleteAccount,
   testConnection,
   testConnectionWithConfig,
+  listAccountMailboxes,
   connectAccount,
   disconnectAccount,
   updateAccountStatus,
 } from './accounts'
 
+// OAuth2 令牌
+export {
+  getAccountAccessToken,
+  requestAccessToken,
+} from './oauth2'
+export type { OAuth2TokenResult } from './oauth2'
+
+// HTTP 推送令牌
+export {
+  getInboundToken,
+  findAccountByInboundToken,
+} from './inbound-tokens'
+
+// 转发消息关联
+export {
+  findMailByChatMessage,
+} from './message-links'
+
+// 邮件会话
+export {
+  getThreadMails,
+} from './threads'
+
+// 转发记录
+export {
+  getForwardLogs,
+  isForwardedByRule,
+} from './forward-logs'
+export type { ForwardDelivery } from './forward-logs'
+
+// 投递队列
+export {
+  listDeliveries,
+  retryDelivery,
+  discardDelivery,
+} from './deliveries'
+
+// 摘要模式
+export {
+  flushDigest,
+  getDigestSummaries,
+} from './digests'
+export type { DigestFlushResult } from './digests'
+
+// 影子运行
+export {
+  getShadowLogs,
+  deleteShadowLogs,
+} from './shadow'
+
+// 规则回测
+export { backtestRule } from './backtest'
+
+// 规则历史版本
+export {
+  getRuleVersions,
+  getDeletedRules,
+  diffRuleVersions,
+} from './rule-versions'
+export type { RuleChangeOptions } from './rule-versions'
+
+// 外发邮件
+export {
+  sendMail,
+  replyToMail,
+  sendFromAccount,
+} from './outgoing'
+export type { ReplyOptions, ReplyResult } from './outgoing'
+
 // 邮件管理
 export {
   getMails,
+  getMailThreads,
   getMail,
+  findMailByMessageId,
   deleteMail,
   batchDeleteMails,
   markAsRead,
@@ -137,7 +224,16 @@ export {
   updateRule,
   deleteRule,
   testRule,
+  explainConditionTree,
   matchConditions,
+  matchConditionTree,
+  createConditionContext,
+  getConditionTree,
+  validateConditionTree,
+  toExportedRule,
+  migrateImportedRule,
+  restoreRuleVersion,
+  RULE_EXPORT_VERSION,
   matchRule,
   getMatchingRules,
   checkSingleCondition,
@@ -146,19 +242,19 @@ export {
   getAvailableTargets,
   findMatchingRule,
 } from './rules'
-export type { RuleTestResult } from './rules'
+export type { RuleTestResult, ConditionContext } from './rules'
 
 // 转发功能
 export {
   handleNewMail,
+  ingestMail,
   forwardMail,
-  executeForward,
-  broadcastToTargets,
   processAutoForwardingAsync,
   startAllConnections,
   stopAllConnections,
 } from './forward'
-export type { ForwardResult } from './forward'
+export { executeForward, broadcastToTargets } from './dispatch'
+export type { ForwardResult } from './dispatch'
 
 // ============ 类型重新导出 ============
 
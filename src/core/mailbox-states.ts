@@ -0,0 +1,113 @@
+/**
+ * 核心模块 - 文件夹同步状态
+ *
+ * 持久化每个账号/文件夹的 UID 水位线，供连接层判断新邮件
+ */
+
+import type { MailboxStateStore, MailboxWatermark, MailFlagChange } from '../imap'
+import type { JmapStateStore } from '../jmap'
+import { JMAP_STATE_MAILBOX } from '../jmap'
+import { LogModule } from '../logger'
+import {
+  TABLE_MAILBOX_STATES,
+  TABLE_MAILS,
+  getContext,
+  getLogger,
+} from './state'
+
+/**
+ * 创建指定账号的水位线存储
+ *
+ * 连接层只依赖 MailboxStateStore 接口，不直接访问数据库。
+ */
+export function createMailboxStateStore(accountId: number): MailboxStateStore {
+  return {
+    load: (mailbox) => loadMailboxState(accountId, mailbox),
+    save: (mailbox, watermark) => saveMailboxState(accountId, mailbox, watermark),
+  }
+}
+
+export async function loadMailboxState(accountId: number, mailbox: string): Promise<MailboxWatermark | null> {
+  const ctx = getContext()
+  const [state] = await ctx.database.get(TABLE_MAILBOX_STATES, { accountId, mailbox })
+  if (!state) return null
+  return {
+    uidValidity: state.uidValidity,
+    lastUid: state.lastUid,
+    highestModseq: state.highestModseq || undefined,
+  }
+}
+
+export async function saveMailboxState(accountId: number, mailbox: string, watermark: MailboxWatermark): Promise<void> {
+  const ctx = getContext()
+  await ctx.database.upsert(TABLE_MAILBOX_STATES, [{
+    accountId,
+    mailbox,
+    uidValidity: watermark.uidValidity,
+    lastUid: watermark.lastUid,
+    highestModseq: watermark.highestModseq ?? null,
+    updatedAt: new Date(),
+  }], ['accountId', 'mailbox'])
+}
+
+/**
+ * 创建 JMAP 账号的 Email 状态存储
+ *
+ * 状态字符串是账号级的，保存在固定键的一行中；uidValidity 仅作初始化标记。
+ */
+export function createJmapStateStore(accountId: number): JmapStateStore {
+  return {
+    load: async () => {
+      const ctx = getContext()
+      const [state] = await ctx.database.get(TABLE_MAILBOX_STATES, { accountId, mailbox: JMAP_STATE_MAILBOX })
+      return state?.syncState || null
+    },
+    save: async (syncState) => {
+      const ctx = getContext()
+      await ctx.database.upsert(TABLE_MAILBOX_STATES, [{
+        accountId,
+        mailbox: JMAP_STATE_MAILBOX,
+        uidValidity: 'jmap',
+        lastUid: 0,
+        syncState,
+        updatedAt: new Date(),
+      }], ['accountId', 'mailbox'])
+    },
+  }
+}
+
+/**
+ * 应用增量同步得到的服务器标记变化
+ *
+ * 只更新 serverFlags，不改动本地的 isRead：本地已读状态由控制台操作维护。
+ * 按 (accountId, mailbox, uid) 定位邮件，未入库的邮件直接忽略。
+ */
+export async function applyServerFlagChanges(accountId: number, changes: MailFlagChange[]): Promise<void> {
+  const ctx = getContext()
+  const logger = getLogger()
+  let updated = 0
+
+  for (const change of changes) {
+    const result = await ctx.database.set(TABLE_MAILS, {
+      accountId,
+      mailbox: change.mailbox,
+      uid: change.uid,
+    }, { serverFlags: change.flags })
+    updated += result.matched ?? 0
+  }
+
+  if (updated > 0) {
+    logger.debug(LogModule.SYNC, `账号 #${accountId} 同步 ${updated} 封邮件的服务器标记`)
+  }
+}
+
+/**
+ * 清除账号的全部水位线
+ * 删除账号后调用；重新添加同一邮箱时会从当前位置重新开始监听。
+ */
+export async function clearMailboxStates(accountId: number): Promise<void> {
+  const ctx = getContext()
+  const logger = getLogger()
+  const result = await ctx.database.remove(TABLE_MAILBOX_STATES, { accountId })
+  logger.debug(LogModule.SYNC, `清除账号 #${accountId} 的 ${result.matched ?? 0} 条文件夹状态`)
+}
@@ -7,11 +7,14 @@
 import { $ } from 'koishi'
 import type { ParsedMail } from '../parser'
 import type {
+  MailDirection,
   StoredMail,
   MailListQuery,
+  MailThreadSummary,
   PaginatedResponse,
 } from '../types'
 import { convertParsedMail } from '../imap'
+import { removeMails } from '../cleanup'
 import { LogModule } from '../logger'
 import {
   TABLE_MAILS,
@@ -20,14 +23,17 @@ import {
   getLogger,
 } from './state'
 import { getAccount } from './accounts'
+import { resolveThreadId } from './threads'
 
 // ============ 类型定义 ============
 
 /** 邮件查询条件类型 */
 export interface MailQueryConditions {
   accountId?: number
+  direction?: MailDirection
   isRead?: boolean
   isForwarded?: boolean
+  mailbox?: string
   receivedAt?: { $gte?: Date; $lte?: Date; $lt?: Date }
   $or?: Array<{
     subject?: { $regex: string; $options: string }
@@ -62,17 +68,81 @@ export async function getMails(query: MailListQuery): Promise<PaginatedResponse<
   return { items, total, page, pageSize, totalPages }
 }
 
+/**
+ * 按会话分页列出邮件，每个会话取最新的一封
+ *
+ * 在数据库中按会话分组与分页，再读取当前页各会话的最新邮件
+ */
+export async function getMailThreads(query: MailListQuery): Promise<PaginatedResponse<MailThreadSummary>> {
+  const ctx = getContext()
+  const page = query.page || 1
+  const pageSize = query.pageSize || 20
+  const conditions = buildMailQueryConditions(query)
+
+  const selectThreads = () => ctx.database
+    .select(TABLE_MAILS)
+    .where(conditions)
+    .groupBy(['accountId', 'threadId'], {
+      count: row => $.count(row.id),
+      latestAt: row => $.max(row.receivedAt),
+    })
+
+  const total = await selectThreads().execute(row => $.length(row.threadId)) as number
+  const pageThreads = await selectThreads()
+    .orderBy('latestAt', 'desc')
+    .limit(pageSize)
+    .offset((page - 1) * pageSize)
+    .execute()
+
+  // 同一时间收到多封时取 ID 最大的一封
+  const mails = pageThreads.length
+    ? await ctx.database.get(TABLE_MAILS, {
+      $and: [
+        conditions,
+        { $or: pageThreads.map(t => ({ accountId: t.accountId, threadId: t.threadId, receivedAt: t.latestAt as Date })) },
+      ],
+    })
+    : []
+  const latest = new Map<string, StoredMail>()
+  for (const mail of mails) {
+    const key = `${mail.accountId}:${mail.threadId}`
+    const current = latest.get(key)
+    if (!current || mail.id > current.id) latest.set(key, mail)
+  }
+
+  const items = pageThreads
+    .filter(t => latest.has(`${t.accountId}:${t.threadId}`))
+    .map(t => ({ threadId: t.threadId!, count: t.count, mail: latest.get(`${t.accountId}:${t.threadId}`)! }))
+
+  return { items, total, page, pageSize, totalPages: Math.ceil(total / pageSize) }
+}
+
 export async function getMail(id: number): Promise<StoredMail | null> {
   const ctx = getContext()
   const [mail] = await ctx.database.get(TABLE_MAILS, { id })
   return mail || null
 }
 
+export async function findMailByMessageId(accountId: number, messageId: string): Promise<StoredMail | null> {
+  const ctx = getContext()
+  const [mail] = await ctx.database.get(TABLE_MAILS, { accountId, messageId })
+  return mail || null
+}
+
+/**
+ * 判断 Message-ID 是否属于插件自己发出的邮件（任一账号）
+ */
+export async function isOutboundMessage(messageId: string): Promise<boolean> {
+  const ctx = getContext()
+  const mails = await ctx.database.get(TABLE_MAILS, { messageId, direction: 'outbound' }, ['id'])
+  return mails.length > 0
+}
+
 // ============ 邮件操作 ============
 
 export async function deleteMail(id: number): Promise<void> {
   const ctx = getContext()
-  await ctx.database.remove(TABLE_MAILS, { id })
+  await removeMails(ctx, [id])
 }
 
 export async function batchDeleteMails(accountId?: number, days?: number): Promise<{ deleted: number }> {
@@ -90,10 +160,24 @@ export async function batchDeleteMails(accountId?: number, days?: number): Promi
     conditions.receivedAt = { $lt: cutoffDate }
   }
 
+  // 分批删除，同时删除每封邮件的关联记录
+  const BATCH_SIZE = 100
+  let deleted = 0
   try {
-    const result = await ctx.database.remove(TABLE_MAILS, conditions)
-    logger.info(LogModule.CLEANUP, `删除 ${result.matched} 封邮件`)
-    return { deleted: result.matched }
+    while (true) {
+      const batch = await ctx.database
+        .select(TABLE_MAILS)
+        .where(conditions)
+        .limit(BATCH_SIZE)
+        .project(['id'])
+        .execute()
+      if (batch.length === 0) break
+
+      await removeMails(ctx, batch.map(m => m.id))
+      deleted += batch.length
+    }
+    logger.info(LogModule.CLEANUP, `删除 ${deleted} 封邮件`)
+    return { deleted }
   } catch (err) {
     logger.error(LogModule.CLEANUP, `删除失败`)
     throw err
@@ -133,6 +217,7 @@ export async function createMail(accountId: number, parsedMail: ParsedMail): Pro
 
   const mail = await ctx.database.create(TABLE_MAILS, {
     ...converted,
+    threadId: await resolveThreadId(converted),
     createdAt: new Date(),
   })
 
@@ -178,12 +263,14 @@ export async function syncAccountMails(accountId: number, days?: number): Promis
 
 // ============ 辅助函数 ============
 
-function buildMailQueryConditions(query: MailListQuery): MailQueryConditions {
+export function buildMailQueryConditions(query: MailListQuery): MailQueryConditions {
   const conditions: MailQueryConditions = {}
 
   if (query.accountId) conditions.accountId = query.accountId
+  if (query.direction) conditions.direction = query.direction
   if (typeof query.isRead === 'boolean') conditions.isRead = query.isRead
   if (typeof query.isForwarded === 'boolean') conditions.isForwarded = query.isForwarded
+  if (query.mailbox) conditions.mailbox = query.mailbox
 
   if (query.startDate || query.endDate) {
     conditions.receivedAt = {}
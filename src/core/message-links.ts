@@ -0,0 +1,51 @@
+/**
+ * 核心模块 - 转发消息关联
+ *
+ * 记录邮件转发到聊天后产生的消息 ID，用户引用转发消息时据此找回原邮件
+ */
+
+import type { StoredMail } from '../types'
+import {
+  TABLE_MESSAGE_LINKS,
+  getContext,
+} from './state'
+import { getMail } from './mails'
+
+/**
+ * 记录一次转发产生的消息
+ */
+export async function recordMessageLinks(
+  mail: Pick<StoredMail, 'id' | 'accountId'>,
+  platform: string,
+  channelId: string,
+  messageIds: string[]
+): Promise<void> {
+  const ctx = getContext()
+  const createdAt = new Date()
+
+  for (const messageId of new Set(messageIds.filter(Boolean))) {
+    await ctx.database.create(TABLE_MESSAGE_LINKS, {
+      mailId: mail.id,
+      accountId: mail.accountId,
+      platform,
+      channelId,
+      messageId,
+      createdAt,
+    })
+  }
+}
+
+/**
+ * 按聊天消息查找对应的邮件
+ *
+ * @returns 邮件不存在（未关联或已被清理）时返回 null
+ */
+export async function findMailByChatMessage(platform: string, channelId: string, messageId: string): Promise<StoredMail | null> {
+  const ctx = getContext()
+  const links = await ctx.database.get(TABLE_MESSAGE_LINKS, { platform, channelId, messageId })
+  if (links.length === 0) return null
+
+  // 同一条消息只会关联一封邮件，取最新记录以防平台复用消息 ID
+  const latest = links.reduce((a, b) => (a.createdAt >= b.createdAt ? a : b))
+  return getMail(latest.mailId)
+}
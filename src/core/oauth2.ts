@@ -0,0 +1,247 @@
+/**
+ * 核心模块 - OAuth2 令牌管理
+ *
+ * 负责 OAuth2 凭证的加密存储与访问令牌的自动刷新（refresh_token 授权模式）
+ */
+
+import type { MailAccount, OAuth2Credentials } from '../types'
+import { MailProviderFactory } from '../providers'
+import { LogModule } from '../logger'
+import { encryptPassword, decryptPassword } from '../utils/crypto'
+import {
+  TABLE_ACCOUNTS,
+  getContext,
+  getLogger,
+} from './state'
+
+/** 访问令牌提前刷新的余量，避免连接过程中过期 */
+const TOKEN_EXPIRY_MARGIN_MS = 2 * 60 * 1000
+
+/** 服务端未返回 expires_in 时假定的有效期 */
+const DEFAULT_TOKEN_LIFETIME_MS = 60 * 60 * 1000
+
+/** 令牌端点请求超时 */
+const TOKEN_REQUEST_TIMEOUT_MS = 15000
+
+/** 同一账号的刷新请求合并，避免并发刷新导致刷新令牌轮换冲突 */
+const pendingRefreshes = new Map<number, { task: Promise<string>; forced: boolean }>()
+
+/** 令牌端点的刷新结果 */
+export interface OAuth2TokenResult {
+  accessToken: string
+  expiresAt: number
+  /** 服务端轮换后的新刷新令牌 */
+  refreshToken?: string
+}
+
+// ============ 凭证加解密 ============
+
+/**
+ * 合并并加密 OAuth2 凭证
+ *
+ * 密钥类字段（clientSecret / refreshToken）未提供时保留原值；
+ * 任一关键字段变化都会使缓存的访问令牌失效。
+ */
+export function mergeOAuth2Credentials(
+  input: Partial<OAuth2Credentials>,
+  existing?: OAuth2Credentials
+): OAuth2Credentials {
+  const clientId = input.clientId?.trim() ?? existing?.clientId ?? ''
+  const tokenEndpoint = input.tokenEndpoint !== undefined
+    ? input.tokenEndpoint.trim() || undefined
+    : existing?.tokenEndpoint
+  const scope = input.scope !== undefined ? input.scope.trim() || undefined : existing?.scope
+
+  if (tokenEndpoint && !/^https?:\/\//i.test(tokenEndpoint)) {
+    throw new Error('OAuth2 令牌端点必须是 http:// 或 https:// 开头的 URL')
+  }
+
+  const merged: OAuth2Credentials = {
+    clientId,
+    clientSecret: input.clientSecret ? encryptPassword(input.clientSecret) : existing?.clientSecret,
+    refreshToken: input.refreshToken ? encryptPassword(input.refreshToken) : existing?.refreshToken || '',
+    tokenEndpoint,
+    scope,
+  }
+
+  const changed = !existing
+    || !!input.clientSecret
+    || !!input.refreshToken
+    || merged.clientId !== existing.clientId
+    || merged.tokenEndpoint !== existing.tokenEndpoint
+    || merged.scope !== existing.scope
+
+  if (!changed) {
+    merged.accessToken = existing.accessToken
+    merged.expiresAt = existing.expiresAt
+  }
+
+  return merged
+}
+
+/**
+ * 解密 OAuth2 凭证
+ */
+export function decryptOAuth2Credentials(credentials: OAuth2Credentials): OAuth2Credentials {
+  return {
+    ...credentials,
+    clientSecret: credentials.clientSecret ? decryptPassword(credentials.clientSecret) : undefined,
+    refreshToken: decryptPassword(credentials.refreshToken),
+    accessToken: credentials.accessToken ? decryptPassword(credentials.accessToken) : undefined,
+  }
+}
+
+/**
+ * 解析令牌端点：账号配置优先，其次服务商默认值
+ */
+export function resolveTokenEndpoint(account: Pick<MailAccount, 'email' | 'imapHost'>, credentials: OAuth2Credentials): string {
+  const endpoint = credentials.tokenEndpoint
+    || MailProviderFactory.getProvider(account as MailAccount).oauth2TokenEndpoint
+  if (!endpoint) {
+    throw new Error('未配置 OAuth2 令牌端点，该邮箱服务商没有默认值，请手动填写')
+  }
+  return endpoint
+}
+
+// ============ 令牌刷新 ============
+
+/**
+ * 向令牌端点请求新的访问令牌
+ *
+ * @param credentials 已解密的凭证
+ * @param tokenEndpoint 令牌端点 URL
+ */
+export async function requestAccessToken(credentials: OAuth2Credentials, tokenEndpoint: string): Promise<OAuth2TokenResult> {
+  const ctx = getContext()
+
+  if (!credentials.clientId || !credentials.refreshToken) {
+    throw new Error('OAuth2 凭证不完整，需要客户端 ID 和刷新令牌')
+  }
+
+  const body = new URLSearchParams({
+    grant_type: 'refresh_token',
+    client_id: credentials.clientId,
+    refresh_token: credentials.refreshToken,
+  })
+  if (credentials.clientSecret) body.set('client_secret', credentials.clientSecret)
+  if (credentials.scope) body.set('scope', credentials.scope)
+
+  let response: { status: number; data: any }
+  try {
+    response = await ctx.http('POST', tokenEndpoint, {
+      data: body,
+      headers: { Accept: 'application/json' },
+      timeout: TOKEN_REQUEST_TIMEOUT_MS,
+      validateStatus: () => true,
+    })
+  } catch (err) {
+    throw new Error(`OAuth2 令牌端点请求失败: ${(err as Error).message}`)
+  }
+
+  const data = typeof response.data === 'string' ? safeParseJson(response.data) : response.data
+  if (response.status >= 400 || !data?.access_token) {
+    const code = data?.error || `HTTP ${response.status}`
+    const description = data?.error_description ? ` - ${data.error_description}` : ''
+    if (code === 'invalid_grant') {
+      throw new Error(`OAuth2 刷新令牌已失效 (invalid_grant)，请重新授权${description}`)
+    }
+    throw new Error(`OAuth2 令牌刷新失败 (${code})${description}`)
+  }
+
+  const expiresIn = Number(data.expires_in)
+  return {
+    accessToken: String(data.access_token),
+    expiresAt: Date.now() + (expiresIn > 0 ? expiresIn * 1000 : DEFAULT_TOKEN_LIFETIME_MS),
+    refreshToken: typeof data.refresh_token === 'string' && data.refresh_token ? data.refresh_token : undefined,
+  }
+}
+
+/**
+ * 获取账号可用的访问令牌
+ *
+ * 缓存的令牌未过期时直接返回，否则刷新并加密写回数据库。
+ * 服务端轮换刷新令牌时一并保存新值。
+ *
+ * @param forceRefresh 忽略缓存强制刷新（认证失败后使用）
+ */
+export async function getAccountAccessToken(accountId: number, forceRefresh = false): Promise<string> {
+  // 非强制的请求可能返回刚被服务器拒绝的缓存令牌，强制刷新不能复用，需等它结束后再刷新
+  const pending = pendingRefreshes.get(accountId)
+  if (pending && (pending.forced || !forceRefresh)) return pending.task
+
+  const previous = pending?.task.catch(() => {})
+  const entry = {
+    task: (async () => {
+      await previous
+      return refreshAccountAccessToken(accountId, forceRefresh)
+    })(),
+    forced: forceRefresh,
+  }
+  pendingRefreshes.set(accountId, entry)
+  try {
+    return await entry.task
+  } finally {
+    if (pendingRefreshes.get(accountId) === entry) pendingRefreshes.delete(accountId)
+  }
+}
+
+async function refreshAccountAccessToken(accountId: number, forceRefresh: boolean): Promise<string> {
+  const ctx = getContext()
+  const logger = getLogger()
+
+  const [account] = await ctx.database.get(TABLE_ACCOUNTS, { id: accountId })
+  if (!account) {
+    throw new Error(`账号不存在: ${accountId}`)
+  }
+  if (account.authType !== 'oauth2' || !account.oauth2) {
+    throw new Error(`${account.email} 未配置 OAuth2 凭证`)
+  }
+
+  let credentials: OAuth2Credentials
+  try {
+    credentials = decryptOAuth2Credentials(account.oauth2)
+  } catch {
+    throw new Error(`${account.email} OAuth2 凭证解密失败，请重新配置`)
+  }
+
+  if (!forceRefresh && credentials.accessToken && (credentials.expiresAt || 0) - TOKEN_EXPIRY_MARGIN_MS > Date.now()) {
+    return credentials.accessToken
+  }
+
+  const result = await requestAccessToken(credentials, resolveTokenEndpoint(account, credentials))
+
+  await ctx.database.set(TABLE_ACCOUNTS, { id: accountId }, {
+    oauth2: {
+      ...account.oauth2,
+      refreshToken: result.refreshToken ? encryptPassword(result.refreshToken) : account.oauth2.refreshToken,
+      accessToken: encryptPassword(result.accessToken),
+      expiresAt: result.expiresAt,
+    },
+  })
+
+  logger.debug(LogModule.CONNECT, `${account.email} 访问令牌已刷新，有效期至 ${new Date(result.expiresAt).toISOString()}`)
+  return result.accessToken
+}
+
+/**
+ * 为临时账号（测试连接、列出文件夹）换取访问令牌
+ *
+ * 不写回数据库；返回填入访问令牌后的账号副本。
+ */
+export async function withTemporaryAccessToken<T extends Partial<MailAccount>>(account: T, credentials: OAuth2Credentials): Promise<T> {
+  const tokenEndpoint = resolveTokenEndpoint(account as MailAccount, credentials)
+  const result = await requestAccessToken(credentials, tokenEndpoint)
+  return {
+    ...account,
+    authType: 'oauth2',
+    oauth2: { ...credentials, accessToken: result.accessToken, expiresAt: result.expiresAt },
+  }
+}
+
+function safeParseJson(text: string): any {
+  try {
+    return JSON.parse(text)
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,452 @@
+/**
+ * 核心模块 - 外发邮件
+ *
+ * 通过账号配置的 SMTP 发信（回复、发送新邮件、转发到邮件目标），发出的邮件以 outbound 方向记录到邮件表。
+ * 所有外发邮件都带有环路标记头，回到被监听的邮箱时不会再次触发自动转发。
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+
+import type { EmailForwardTarget, MailAccount, MailAddress, OutgoingAttachment, SendMailRequest, StoredMail } from '../types'
+import { LogModule } from '../logger'
+import { LOOP_HEADER, getThreadId } from '../parser'
+import { sendSmtpMail, parseAddressList, SmtpSendError, type OutgoingMail, type SmtpCredentials, type SmtpSendResult } from '../mailer'
+import { decryptPassword } from '../utils/crypto'
+import {
+  TABLE_ACCOUNTS,
+  TABLE_MAILS,
+  getConfig,
+  getContext,
+  getLogger,
+} from './state'
+import { getMail } from './mails'
+import { getAccountAccessToken } from './oauth2'
+
+/** References 头保留的最大 Message-ID 数量（保留最早一个与最近若干个） */
+const MAX_REFERENCES = 20
+
+/** 回复中引用原文的最大长度 */
+const MAX_QUOTED_LENGTH = 20000
+
+export interface ReplyOptions {
+  /** 同时抄送原邮件的其他收件人 */
+  replyAll?: boolean
+}
+
+export interface ReplyResult {
+  /** 回复邮件的 Message-ID */
+  messageId: string
+  to: MailAddress[]
+  cc: MailAddress[]
+}
+
+// ============ 发送新邮件 ============
+
+/**
+ * 发送一封新邮件并记录到邮件表
+ */
+export async function sendMail(request: SendMailRequest): Promise<StoredMail> {
+  const logger = getLogger()
+
+  const account = await resolveSendAccount(request.account)
+  const to = parseAddressList(request.to)
+  const cc = request.cc ? parseAddressList(request.cc) : []
+  if (to.length === 0) {
+    throw new Error('缺少有效的收件人地址')
+  }
+  const subject = request.subject?.trim()
+  if (!subject) {
+    throw new Error('邮件主题不能为空')
+  }
+  if (!request.text?.trim() && !request.html?.trim() && !request.attachments?.length) {
+    throw new Error('邮件内容不能为空')
+  }
+
+  const outgoing: Omit<OutgoingMail, 'from'> = {
+    to,
+    cc,
+    subject,
+    text: request.text || '',
+    html: request.html || undefined,
+    attachments: request.attachments,
+  }
+  const result = await sendFromAccount(account, outgoing)
+  const mail = await recordSentMail(account, outgoing, result)
+
+  logger.info(LogModule.SEND, `已发送邮件 "${subject}" -> ${to.map(a => a.address).join(', ')}`)
+  return mail
+}
+
+/**
+ * 按账号 ID、邮箱地址或名称查找发信账号
+ */
+async function resolveSendAccount(key: number | string): Promise<MailAccount> {
+  const ctx = getContext()
+
+  const text = String(key).trim()
+  if (/^\d+$/.test(text)) {
+    const [account] = await ctx.database.get(TABLE_ACCOUNTS, { id: Number(text) })
+    if (account) return account
+  }
+
+  const accounts = await ctx.database.get(TABLE_ACCOUNTS, {})
+  const lower = text.toLowerCase()
+  const account = accounts.find(a => a.email.trim().toLowerCase() === lower) || accounts.find(a => a.name === text)
+  if (!account) {
+    throw new Error(`找不到发信账号: ${text}`)
+  }
+  return account
+}
+
+// ============ 转发到邮件目标 ============
+
+/**
+ * 把已入库的邮件转发到邮件目标
+ *
+ * 只有入库时保留了内容的附件（小图片）会随邮件发出，其余附件在正文末尾列出文件名。
+ *
+ * @returns 外发邮件的 Message-ID
+ */
+export async function forwardMailByEmail(mail: StoredMail, target: EmailForwardTarget): Promise<string> {
+  const ctx = getContext()
+  const logger = getLogger()
+
+  const [account] = await ctx.database.get(TABLE_ACCOUNTS, { id: target.accountId })
+  if (!account) {
+    throw new Error(`发信账号不存在: ${target.accountId}`)
+  }
+  const to = parseAddressList(target.address || '')
+  if (to.length === 0) {
+    throw new Error(`无效的收件地址: ${target.address}`)
+  }
+
+  const attachments = getForwardAttachments(mail)
+  const omittedNote = getOmittedNote(mail)
+  const text = mail.textContent || ''
+
+  const outgoing: Omit<OutgoingMail, 'from'> = target.mode === 'wrap'
+    ? {
+      to,
+      subject: /^fwd?:/i.test(mail.subject.trim()) ? mail.subject : `Fwd: ${mail.subject}`,
+      text: `${forwardHeader(mail)}\n\n${text}${omittedNote}`,
+      html: mail.htmlContent
+        ? `<pre style="font-family: inherit; white-space: pre-wrap;">${escapeHtml(forwardHeader(mail))}</pre><hr>${mail.htmlContent}`
+        : undefined,
+      attachments,
+    }
+    : {
+      to,
+      replyTo: mail.replyTo?.length ? mail.replyTo : [mail.from],
+      subject: mail.subject,
+      text: `${text}${omittedNote}`,
+      html: mail.htmlContent || undefined,
+      attachments,
+    }
+  outgoing.headers = { 'Auto-Submitted': 'auto-generated' }
+
+  const result = await sendFromAccount(account, outgoing)
+  await recordSentMail(account, outgoing, result).catch((e) => {
+    logger.warn(LogModule.SEND, `记录已发送邮件失败: ${(e as Error).message}`)
+  })
+  return result.messageId
+}
+
+/**
+ * 把多封邮件合并为一封转发到邮件目标（投递时段的合并投递）
+ *
+ * 合并邮件只有纯文本正文，依次列出每封邮件的转发头与正文
+ *
+ * @returns 外发邮件的 Message-ID
+ */
+export async function forwardMailsByEmail(mails: StoredMail[], target: EmailForwardTarget, title: string): Promise<string> {
+  return sendTextToTarget(target, {
+    subject: title,
+    text: mails.map(mail => `${forwardHeader(mail)}\n\n${mail.textContent || ''}${getOmittedNote(mail)}`).join('\n\n'),
+    attachments: mails.flatMap(getForwardAttachments),
+  })
+}
+
+/**
+ * 把摘要以纯文本邮件发送到邮件目标
+ *
+ * @returns 外发邮件的 Message-ID
+ */
+export async function sendDigestByEmail(target: EmailForwardTarget, title: string, text: string): Promise<string> {
+  return sendTextToTarget(target, { subject: title, text })
+}
+
+/**
+ * 通过目标的发信账号发送插件生成的邮件（标记为自动发送）
+ */
+async function sendTextToTarget(
+  target: EmailForwardTarget,
+  content: Pick<OutgoingMail, 'subject' | 'text' | 'attachments'>
+): Promise<string> {
+  const ctx = getContext()
+  const logger = getLogger()
+
+  const [account] = await ctx.database.get(TABLE_ACCOUNTS, { id: target.accountId })
+  if (!account) {
+    throw new Error(`发信账号不存在: ${target.accountId}`)
+  }
+  const to = parseAddressList(target.address || '')
+  if (to.length === 0) {
+    throw new Error(`无效的收件地址: ${target.address}`)
+  }
+
+  const outgoing: Omit<OutgoingMail, 'from'> = {
+    ...content,
+    to,
+    headers: { 'Auto-Submitted': 'auto-generated' },
+  }
+
+  const result = await sendFromAccount(account, outgoing)
+  await recordSentMail(account, outgoing, result).catch((e) => {
+    logger.warn(LogModule.SEND, `记录已发送邮件失败: ${(e as Error).message}`)
+  })
+  return result.messageId
+}
+
+/** 入库时保留了内容的附件 */
+function getForwardAttachments(mail: StoredMail): OutgoingAttachment[] {
+  return (mail.attachments || [])
+    .filter(a => a.content)
+    .map(a => ({
+      filename: a.filename,
+      content: Buffer.from(a.content!, 'base64'),
+      contentType: a.contentType,
+      cid: a.cid,
+    }))
+}
+
+/** 未保留内容、无法随转发附带的附件说明 */
+function getOmittedNote(mail: StoredMail): string {
+  const omitted = (mail.attachments || []).filter(a => !a.content).map(a => a.filename)
+  return omitted.length ? `\n\n[未随转发附带的附件: ${omitted.join(', ')}]` : ''
+}
+
+function forwardHeader(mail: StoredMail): string {
+  const lines = [
+    '---------- 转发的邮件 ----------',
+    `发件人: ${formatAddress(mail.from)}`,
+    `时间: ${formatDate(mail.receivedAt)}`,
+    `主题: ${mail.subject}`,
+    `收件人: ${mail.to.map(formatAddress).join(', ')}`,
+  ]
+  if (mail.cc?.length) lines.push(`抄送: ${mail.cc.map(formatAddress).join(', ')}`)
+  return lines.join('\n')
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+// ============ 回复邮件 ============
+
+/**
+ * 回复一封已入库的邮件
+ *
+ * 回复发往 Reply-To（缺失时为发件人），带上 In-Reply-To / References 以便邮件客户端归入同一会话。
+ */
+export async function replyToMail(mailId: number, content: string, options: ReplyOptions = {}): Promise<ReplyResult> {
+  const ctx = getContext()
+  const logger = getLogger()
+
+  const text = content.trim()
+  if (!text) {
+    throw new Error('回复内容不能为空')
+  }
+
+  const mail = await getMail(mailId)
+  if (!mail) {
+    throw new Error('邮件不存在')
+  }
+  const [account] = await ctx.database.get(TABLE_ACCOUNTS, { id: mail.accountId })
+  if (!account) {
+    throw new Error(`账号不存在: ${mail.accountId}`)
+  }
+
+  const self = account.email.trim().toLowerCase()
+  const seen = new Set<string>([self])
+  const pick = (addrs: MailAddress[] | undefined) => (addrs || []).filter((addr) => {
+    const key = addr.address?.trim().toLowerCase()
+    if (!key || key === 'unknown@unknown' || seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+
+  const to = pick(mail.replyTo?.length ? mail.replyTo : [mail.from])
+  const cc = options.replyAll ? pick([...mail.to, ...(mail.cc || [])]) : []
+  if (to.length === 0) {
+    throw new Error('无法确定回复地址（原邮件缺少发件人）')
+  }
+
+  const originalId = normalizeMessageId(mail.messageId)
+  const references = originalId
+    ? trimReferences([...(mail.references || []).filter(id => id !== originalId), originalId])
+    : mail.references
+
+  const outgoing: Omit<OutgoingMail, 'from'> = {
+    to,
+    cc,
+    subject: /^re:/i.test(mail.subject.trim()) ? mail.subject : `Re: ${mail.subject}`,
+    text: `${text}\n\n${quoteOriginal(mail.from, mail.receivedAt, mail.textContent || '')}`,
+    inReplyTo: originalId,
+    references,
+  }
+  const result = await sendFromAccount(account, outgoing)
+  await recordSentMail(account, outgoing, result).catch((e) => {
+    logger.warn(LogModule.SEND, `记录已发送邮件失败: ${(e as Error).message}`)
+  })
+
+  logger.info(LogModule.SEND, `已回复邮件 #${mail.id} -> ${to.map(a => a.address).join(', ')}`)
+  return { messageId: result.messageId, to, cc }
+}
+
+/**
+ * 使用账号的发信配置发送邮件
+ *
+ * OAuth2 账号认证失败时强制刷新访问令牌重试一次。
+ */
+export async function sendFromAccount(account: MailAccount, mail: Omit<OutgoingMail, 'from'>): Promise<SmtpSendResult> {
+  const settings = account.smtp
+  if (!settings?.enabled || !settings.host?.trim()) {
+    throw new Error(`${account.email} 未启用发信 SMTP`)
+  }
+  const address = account.email.trim()
+  if (!/^[^@\s]+@[^@\s]+$/.test(address)) {
+    throw new Error(`${address} 不是有效的发件地址`)
+  }
+
+  const timeout = getConfig().connectionTimeout * 1000
+  const outgoing: OutgoingMail = {
+    ...mail,
+    from: { name: settings.fromName || undefined, address },
+    headers: { ...mail.headers, [LOOP_HEADER]: createLoopMarker(address) },
+  }
+  const smtp = { ...settings, host: settings.host.trim() }
+
+  try {
+    return await sendSmtpMail(smtp, await resolveCredentials(account, false), outgoing, timeout)
+  } catch (err) {
+    if (err instanceof SmtpSendError && err.authenticationFailed && usesOAuth2(account)) {
+      return await sendSmtpMail(smtp, await resolveCredentials(account, true), outgoing, timeout)
+    }
+    throw err
+  }
+}
+
+/**
+ * 以 outbound 方向记录已发送的邮件（附件只保留元数据）
+ */
+async function recordSentMail(account: MailAccount, mail: Omit<OutgoingMail, 'from'>, result: SmtpSendResult): Promise<StoredMail> {
+  const ctx = getContext()
+  const now = new Date()
+
+  return ctx.database.create(TABLE_MAILS, {
+    accountId: account.id,
+    direction: 'outbound',
+    messageId: result.messageId,
+    from: { name: account.smtp?.fromName || undefined, address: account.email.trim() },
+    to: mail.to,
+    cc: mail.cc || [],
+    references: mail.references,
+    inReplyTo: mail.inReplyTo,
+    threadId: getThreadId(result.messageId, mail.references, mail.inReplyTo),
+    subject: mail.subject,
+    textContent: mail.text || undefined,
+    htmlContent: mail.html || undefined,
+    attachments: (mail.attachments || []).map(a => ({
+      filename: a.filename,
+      contentType: a.contentType || 'application/octet-stream',
+      size: a.content.length,
+    })),
+    receivedAt: now,
+    isRead: true,
+    isForwarded: false,
+    createdAt: now,
+  })
+}
+
+// ============ 环路标记 ============
+
+/**
+ * 生成环路标记头的值：发件地址加上以加密密钥计算的签名
+ *
+ * 标记头可以被任何发件人伪造，只有签名有效的标记才被认为由本插件发出。
+ */
+export function createLoopMarker(address: string): string {
+  return `${address}; sig=${signLoopMarker(address)}`
+}
+
+/**
+ * 校验环路标记是否由本插件签发
+ *
+ * 加密密钥变化（如未固定设置而重启）后旧标记失效，此时仍可按 Message-ID 识别已记录的外发邮件。
+ */
+export function verifyLoopMarker(marker: string | undefined): boolean {
+  const match = marker?.match(/^(.+); sig=([0-9a-f]{64})$/)
+  if (!match || !getConfig().encryptionKey) return false
+  return timingSafeEqual(Buffer.from(match[2], 'hex'), Buffer.from(signLoopMarker(match[1]), 'hex'))
+}
+
+function signLoopMarker(address: string): string {
+  return createHmac('sha256', getConfig().encryptionKey).update(`${LOOP_HEADER}:${address}`).digest('hex')
+}
+
+function usesOAuth2(account: MailAccount): boolean {
+  return !account.smtp?.password && account.authType === 'oauth2'
+}
+
+/**
+ * 发信凭证：单独填写的发信密码优先，否则沿用收信凭证
+ */
+async function resolveCredentials(account: MailAccount, forceRefresh: boolean): Promise<SmtpCredentials> {
+  const user = account.smtp?.username?.trim() || account.email.trim()
+
+  if (usesOAuth2(account)) {
+    return { user, accessToken: await getAccountAccessToken(account.id, forceRefresh) }
+  }
+
+  let pass: string
+  try {
+    pass = decryptPassword(account.smtp?.password || account.password)
+  } catch {
+    throw new Error(`${account.email} 发信密码解密失败，请重新配置`)
+  }
+  if (!pass) {
+    throw new Error(`${account.email} 未配置发信密码`)
+  }
+  return { user, pass }
+}
+
+/** 统一为带尖括号的形式；本地生成的占位 ID 不是有效的 Message-ID，返回 undefined */
+function normalizeMessageId(messageId: string): string | undefined {
+  const id = messageId.trim().replace(/^<|>$/g, '')
+  return /^[^<>\s@]+@[^<>\s@]+$/.test(id) ? `<${id}>` : undefined
+}
+
+function trimReferences(ids: string[]): string[] {
+  if (ids.length <= MAX_REFERENCES) return ids
+  return [ids[0], ...ids.slice(ids.length - MAX_REFERENCES + 1)]
+}
+
+function quoteOriginal(from: MailAddress, date: Date, text: string): string {
+  const body = text.length > MAX_QUOTED_LENGTH ? `${text.slice(0, MAX_QUOTED_LENGTH)}\n...` : text
+  const quoted = body.trimEnd().split(/\r?\n/).map(line => (line ? `> ${line}` : '>')).join('\n')
+  return `在 ${formatDate(date)}，${formatAddress(from)} 写道：\n${quoted}`
+}
+
+function formatAddress(addr: MailAddress): string {
+  return addr.name ? `${addr.name} <${addr.address}>` : addr.address
+}
+
+function formatDate(date: Date): string {
+  return new Date(date).toLocaleString('zh-CN', {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
@@ -0,0 +1,76 @@
+/**
+ * 核心模块 - POP3 UIDL 记录
+ *
+ * 持久化 POP3 账号已知的 UIDL，供连接层去重新邮件与执行删除策略
+ */
+
+import type { Pop3UidRecord, Pop3UidStore } from '../pop3'
+import { POP3_MAILBOX } from '../pop3'
+import { LogModule } from '../logger'
+import {
+  TABLE_MAILBOX_STATES,
+  TABLE_POP3_UIDS,
+  getContext,
+  getLogger,
+} from './state'
+
+/** POP3 没有 UIDVALIDITY，初始化标记中以固定值记录 */
+const POP3_STATE_MARKER = 'pop3'
+
+/**
+ * 创建指定账号的 UIDL 存储
+ *
+ * 是否已初始化通过 mailbox_states 中的收件箱记录判断，
+ * 这样空邮箱首次监听后收到的第一封邮件也能正常投递。
+ */
+export function createPop3UidStore(accountId: number): Pop3UidStore {
+  return {
+    load: () => loadPop3Uids(accountId),
+    save: (added, removed) => savePop3Uids(accountId, added, removed),
+  }
+}
+
+export async function loadPop3Uids(accountId: number): Promise<Pop3UidRecord[] | null> {
+  const ctx = getContext()
+  const [marker] = await ctx.database.get(TABLE_MAILBOX_STATES, { accountId, mailbox: POP3_MAILBOX })
+  if (!marker || marker.uidValidity !== POP3_STATE_MARKER) return null
+
+  const rows = await ctx.database.get(TABLE_POP3_UIDS, { accountId })
+  return rows.map(row => ({ uidl: row.uidl, delivered: row.delivered, seenAt: row.seenAt }))
+}
+
+export async function savePop3Uids(accountId: number, added: Pop3UidRecord[], removed: string[]): Promise<void> {
+  const ctx = getContext()
+
+  if (added.length > 0) {
+    await ctx.database.upsert(TABLE_POP3_UIDS, added.map(record => ({
+      accountId,
+      uidl: record.uidl,
+      delivered: record.delivered,
+      seenAt: record.seenAt,
+    })), ['accountId', 'uidl'])
+  }
+
+  if (removed.length > 0) {
+    await ctx.database.remove(TABLE_POP3_UIDS, { accountId, uidl: { $in: removed } })
+  }
+
+  await ctx.database.upsert(TABLE_MAILBOX_STATES, [{
+    accountId,
+    mailbox: POP3_MAILBOX,
+    uidValidity: POP3_STATE_MARKER,
+    lastUid: 0,
+    updatedAt: new Date(),
+  }], ['accountId', 'mailbox'])
+}
+
+/**
+ * 清除账号的全部 UIDL 记录
+ * 删除账号或切换协议后调用。
+ */
+export async function clearPop3Uids(accountId: number): Promise<void> {
+  const ctx = getContext()
+  const logger = getLogger()
+  const result = await ctx.database.remove(TABLE_POP3_UIDS, { accountId })
+  logger.debug(LogModule.SYNC, `清除账号 #${accountId} 的 ${result.matched ?? 0} 条 POP3 记录`)
+}
@@ -0,0 +1,172 @@
+/**
+ * 核心模块 - 规则历史版本
+ *
+ * 规则每次创建、修改、删除或恢复后保存一份完整的配置快照，用于对比差异并找回误改或误删的配置。
+ * 升级前创建的规则没有历史，首次修改前先把当前配置记为一个版本。
+ */
+
+import type { ForwardRule, RuleFieldDiff, RuleVersion, RuleVersionAction } from '../types'
+import {
+  TABLE_RULES,
+  TABLE_RULE_VERSIONS,
+  getContext,
+} from './state'
+
+/** 不参与对比与恢复的字段 */
+export const RULE_META_FIELDS = new Set(['id', 'createdAt', 'updatedAt'])
+
+/** 规则变更的附加信息，写入历史版本 */
+export interface RuleChangeOptions {
+  /** 执行变更的控制台用户 */
+  operator?: string
+  /** 恢复到的历史版本号；恢复已删除的规则时沿用 data.id */
+  restoredFrom?: number
+}
+
+// ============ 记录 ============
+
+/**
+ * 写入规则的新版本
+ */
+export async function recordRuleVersion(
+  rule: ForwardRule,
+  action: RuleVersionAction,
+  options: RuleChangeOptions = {}
+): Promise<RuleVersion> {
+  const ctx = getContext()
+  const [latest] = await ctx.database
+    .select(TABLE_RULE_VERSIONS, { ruleId: rule.id })
+    .orderBy('version', 'desc')
+    .limit(1)
+    .execute()
+
+  return await ctx.database.create(TABLE_RULE_VERSIONS, {
+    ruleId: rule.id,
+    version: (latest?.version || 0) + 1,
+    action,
+    snapshot: rule,
+    operator: options.operator,
+    restoredFrom: options.restoredFrom,
+    createdAt: new Date(),
+  })
+}
+
+/**
+ * 规则还没有历史版本时，把当前配置记为第一个版本，时间取规则的最后修改时间
+ */
+export async function ensureRuleBaseline(rule: ForwardRule): Promise<void> {
+  const ctx = getContext()
+  const existing = await ctx.database.get(TABLE_RULE_VERSIONS, { ruleId: rule.id }, ['id'])
+  if (existing.length > 0) return
+
+  await ctx.database.create(TABLE_RULE_VERSIONS, {
+    ruleId: rule.id,
+    version: 1,
+    action: 'update',
+    snapshot: rule,
+    createdAt: new Date(rule.updatedAt),
+  })
+}
+
+// ============ 查询 ============
+
+/**
+ * 获取规则的全部历史版本（新的在前）
+ */
+export async function getRuleVersions(ruleId: number): Promise<RuleVersion[]> {
+  const ctx = getContext()
+  const versions = await ctx.database.get(TABLE_RULE_VERSIONS, { ruleId })
+  return versions.sort((a, b) => b.version - a.version)
+}
+
+/**
+ * 获取已删除规则删除前的最后版本（新删除的在前）
+ */
+export async function getDeletedRules(): Promise<RuleVersion[]> {
+  const ctx = getContext()
+  const deletions = await ctx.database.get(TABLE_RULE_VERSIONS, { action: 'delete' })
+  if (deletions.length === 0) return []
+
+  // 删除后又恢复的规则仍然存在，不再列出
+  const existing = new Set((await ctx.database.get(TABLE_RULES, {
+    id: { $in: deletions.map(d => d.ruleId) },
+  }, ['id'])).map(r => r.id))
+
+  const latest = new Map<number, RuleVersion>()
+  for (const deletion of deletions) {
+    if (existing.has(deletion.ruleId)) continue
+    const current = latest.get(deletion.ruleId)
+    if (!current || deletion.version > current.version) latest.set(deletion.ruleId, deletion)
+  }
+  return [...latest.values()].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+}
+
+/**
+ * 获取规则的指定版本
+ */
+export async function getRuleVersion(ruleId: number, version: number): Promise<RuleVersion> {
+  const ctx = getContext()
+  const [found] = await ctx.database.get(TABLE_RULE_VERSIONS, { ruleId, version })
+  if (!found) throw new Error(`规则 #${ruleId} 的版本 ${version} 不存在`)
+  return found
+}
+
+/**
+ * 对比规则的两个版本
+ *
+ * @param toVersion 留空时与规则的当前配置对比；规则已删除时与最后一个版本对比
+ */
+export async function diffRuleVersions(ruleId: number, fromVersion: number, toVersion?: number): Promise<RuleFieldDiff[]> {
+  const ctx = getContext()
+  const before = (await getRuleVersion(ruleId, fromVersion)).snapshot
+  let after: ForwardRule | null
+  if (toVersion) {
+    after = (await getRuleVersion(ruleId, toVersion)).snapshot
+  } else {
+    const [current] = await ctx.database.get(TABLE_RULES, { id: ruleId })
+    after = current ?? (await getRuleVersions(ruleId))[0]?.snapshot ?? null
+  }
+
+  const diffs: RuleFieldDiff[] = []
+  diffValues(before, after, '', diffs)
+  return diffs
+}
+
+// ============ 辅助函数 ============
+
+/**
+ * 递归对比两个值，普通对象逐字段展开，数组与其他值整体比较
+ */
+export function diffValues(before: unknown, after: unknown, path: string, diffs: RuleFieldDiff[]): void {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort()
+    for (const key of keys) {
+      if (!path && RULE_META_FIELDS.has(key)) continue
+      diffValues(before[key], after[key], path ? `${path}.${key}` : key, diffs)
+    }
+    return
+  }
+  if (stableStringify(before) !== stableStringify(after)) {
+    diffs.push({ field: path, before: before ?? undefined, after: after ?? undefined })
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date)
+}
+
+/**
+ * 按键名排序序列化，null 与未设置视为相同（数据库读出的空列为 null）
+ */
+function stableStringify(value: unknown): string {
+  if (value === undefined || value === null) return 'null'
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`
+  if (isPlainObject(value)) {
+    const entries = Object.keys(value)
+      .filter(key => value[key] !== undefined && value[key] !== null)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+    return `{${entries.join(',')}}`
+  }
+  return JSON.stringify(value)
+}
@@ -10,35 +10,113 @@ import type {
   ForwardCondition,
   ForwardPreviewRequest,
   ForwardPreviewResponse,
-  ForwardTarget,
+  ChatForwardTarget,
   ForwardElement,
   ConditionLogic,
+  ConditionGroup,
+  ConditionNode,
+  ConditionTestNode,
+  DeliverySchedule,
+  DigestConfig,
 } from '../types'
 import { DEFAULT_RENDER_CONFIG, DEFAULT_FORWARD_ELEMENTS } from '../render'
 import { LogModule } from '../logger'
 import {
+  TABLE_ACCOUNTS,
   TABLE_RULES,
+  TABLE_SHADOW_LOGS,
   RULES_CACHE_TTL_MS,
   rulesCache,
   invalidateRulesCache,
+  getConfig,
   getContext,
   getLogger,
   getMailRenderer,
 } from './state'
 import { getMail } from './mails'
+import {
+  RULE_META_FIELDS,
+  ensureRuleBaseline,
+  getRuleVersion,
+  recordRuleVersion,
+  type RuleChangeOptions,
+} from './rule-versions'
+import {
+  findNextWindowStart,
+  getHeaderValues,
+  getMailSize,
+  isInlineAttachment,
+  matchAttachmentType,
+  matchDomainList,
+  matchTimeWindows,
+  parseConditionList,
+  parseSize,
+  parseTimeWindows,
+  validateTimezone,
+} from './conditions'
 
 /** 正则输入截断最大长度 */
 const MAX_REGEX_INPUT_LENGTH = 50000
 
+/** 规则导出格式版本（2.0 起规则带有 conditionTree） */
+export const RULE_EXPORT_VERSION = '2.0'
+
+/** 条件树最大嵌套深度 */
+const MAX_CONDITION_DEPTH = 5
+
+/** 条件类型的中文名称（用于测试结果描述） */
+const CONDITION_LABELS: Record<ForwardCondition['type'], string> = {
+  all: '所有邮件',
+  subject_contains: '主题包含',
+  subject_regex: '主题匹配正则',
+  from_contains: '发件人包含',
+  from_regex: '发件人匹配正则',
+  to_contains: '收件人包含',
+  body_contains: '正文包含',
+  body_regex: '正文匹配正则',
+  mailbox_equals: '来源文件夹为',
+  cc_contains: '抄送包含',
+  from_domain: '发件人域名属于',
+  has_attachment: '带有附件',
+  attachment_name_regex: '附件名匹配正则',
+  attachment_type: '附件类型属于',
+  size_greater_than: '邮件大小超过',
+  received_between: '接收时段在',
+  account_email: '收信账号属于',
+  header_equals: '等于',
+  header_contains: '包含',
+  header_regex: '匹配正则',
+  header_exists: '存在',
+  is_unread: '未读邮件',
+}
+
+/** 不需要匹配值的条件类型 */
+const VALUELESS_CONDITIONS = new Set<ForwardCondition['type']>(['all', 'has_attachment', 'header_exists', 'is_unread'])
+
+const GROUP_LOGIC_LABELS: Record<ConditionGroup['logic'], string> = {
+  and: '全部满足 (AND)',
+  or: '任一满足 (OR)',
+  not: '均不满足 (NOT)',
+}
+
 // ============ 规则测试结果类型 ============
 
 export interface RuleTestResult {
   matched: boolean
   matchedConditions: string[]
   unmatchedConditions: string[]
+  conditionResult: ConditionTestNode
   previewContent?: ForwardPreviewResponse
 }
 
+/** 条件匹配所需的邮件之外的信息 */
+export interface ConditionContext {
+  /** 收信账号的邮箱地址（account_email 条件） */
+  accountEmail?: string
+  /** 接收时段条件使用的时区，留空使用服务器时区 */
+  timezone?: string
+}
+
 // ============ 规则查询 ============
 
 export async function getRules(): Promise<ForwardRule[]> {
@@ -82,12 +160,17 @@ export async function getRule(id: number): Promise<ForwardRule | null> {
 
 // ============ 规则 CRUD ============
 
-export async function createRule(data: Partial<ForwardRule>): Promise<ForwardRule> {
+export async function createRule(data: Partial<ForwardRule>, options: RuleChangeOptions = {}): Promise<ForwardRule> {
   const ctx = getContext()
   const logger = getLogger()
   const now = new Date()
 
+  if (data.conditionTree) validateConditionTree(data.conditionTree)
+  if (data.schedule) validateSchedule(data.schedule)
+  if (data.digest) validateDigest(data.digest)
+
   const rule = await ctx.database.create(TABLE_RULES, {
+    ...(options.restoredFrom && data.id ? { id: data.id } : {}),
     name: data.name || '新规则',
     description: data.description,
     enabled: data.enabled ?? true,
@@ -95,6 +178,7 @@ export async function createRule(data: Partial<ForwardRule>): Promise<ForwardRul
     accountId: data.accountId,
     conditionLogic: data.conditionLogic || 'and',
     conditions: data.conditions || [],
+    conditionTree: data.conditionTree,
     targets: data.targets || [],
     forwardMode: data.forwardMode || 'text',
     elements: data.elements || [...DEFAULT_FORWARD_ELEMENTS],
@@ -104,6 +188,12 @@ export async function createRule(data: Partial<ForwardRule>): Promise<ForwardRul
     failureStrategy: data.failureStrategy || 'mark-partial',
     delayMs: data.delayMs ?? 0,
     skipForwarded: data.skipForwarded ?? true,
+    stopProcessing: data.stopProcessing ?? false,
+    threadFirstOnly: data.threadFirstOnly ?? false,
+    threadQuote: data.threadQuote ?? false,
+    shadow: data.shadow ?? false,
+    schedule: data.schedule,
+    digest: data.digest,
     retryCount: data.retryCount ?? 0,
     retryIntervalMs: data.retryIntervalMs ?? 5000,
     createdAt: now,
@@ -111,17 +201,22 @@ export async function createRule(data: Partial<ForwardRule>): Promise<ForwardRul
   })
 
   logger.debug(LogModule.RULE, `创建规则 "${rule.name}"`)
+  await recordRuleVersion(rule, options.restoredFrom ? 'restore' : 'create', options)
   invalidateRulesCache()
   broadcastRulesUpdate()
 
   return rule
 }
 
-export async function updateRule(id: number, data: Partial<ForwardRule>): Promise<ForwardRule> {
+export async function updateRule(id: number, data: Partial<ForwardRule>, options: RuleChangeOptions = {}): Promise<ForwardRule> {
   const ctx = getContext()
   const [existing] = await ctx.database.get(TABLE_RULES, { id })
   if (!existing) throw new Error(`规则不存在: ${id}`)
+  if (data.conditionTree) validateConditionTree(data.conditionTree)
+  if (data.schedule) validateSchedule(data.schedule)
+  if (data.digest) validateDigest(data.digest)
 
+  await ensureRuleBaseline(existing)
   await ctx.database.set(TABLE_RULES, { id }, {
     ...data,
     updatedAt: new Date(),
@@ -130,20 +225,112 @@ export async function updateRule(id: number, data: Partial<ForwardRule>): Promis
   invalidateRulesCache()
   broadcastRulesUpdate()
 
-  return (await getRule(id))!
+  const rule = (await getRule(id))!
+  await recordRuleVersion(rule, options.restoredFrom ? 'restore' : 'update', options)
+  return rule
 }
 
-export async function deleteRule(id: number): Promise<void> {
+export async function deleteRule(id: number, options: RuleChangeOptions = {}): Promise<void> {
   const ctx = getContext()
   const logger = getLogger()
 
+  const rule = await getRule(id)
+  if (rule) await recordRuleVersion(rule, 'delete', options)
+
   await ctx.database.remove(TABLE_RULES, { id })
+  await ctx.database.remove(TABLE_SHADOW_LOGS, { ruleId: id })
   invalidateRulesCache()
   broadcastRulesUpdate()
 
   logger.debug(LogModule.RULE, `删除规则 #${id}`)
 }
 
+/**
+ * 把规则恢复到历史版本，恢复本身也记为一个新版本
+ *
+ * 规则已删除时以原 ID 重新创建
+ */
+export async function restoreRuleVersion(ruleId: number, version: number, operator?: string): Promise<ForwardRule> {
+  const logger = getLogger()
+  const { snapshot } = await getRuleVersion(ruleId, version)
+
+  // 版本记录之后新增的字段不在快照中，从默认值开始覆盖，避免沿用当前配置
+  const data: Partial<ForwardRule> = getDefaultRuleFields()
+  for (const [key, value] of Object.entries(snapshot)) {
+    if (!RULE_META_FIELDS.has(key)) data[key] = value
+  }
+
+  const options: RuleChangeOptions = { operator, restoredFrom: version }
+  const rule = await getRule(ruleId)
+    ? await updateRule(ruleId, data, options)
+    : await createRule({ ...data, id: ruleId }, options)
+
+  logger.info(LogModule.RULE, `规则 "${rule.name}" 已恢复到版本 ${version}`)
+  return rule
+}
+
+/**
+ * 规则各字段的默认值，可选字段为 null 以便更新时清空
+ */
+function getDefaultRuleFields(): Omit<ForwardRule, 'id' | 'createdAt' | 'updatedAt'> {
+  return {
+    name: '新规则',
+    description: null,
+    enabled: true,
+    priority: 100,
+    accountId: null,
+    conditionLogic: 'and',
+    conditions: [],
+    conditionTree: null,
+    targets: [],
+    forwardMode: 'text',
+    elements: [...DEFAULT_FORWARD_ELEMENTS],
+    regexConfig: null,
+    customCss: null,
+    renderConfig: { ...DEFAULT_RENDER_CONFIG },
+    failureStrategy: 'mark-partial',
+    delayMs: 0,
+    skipForwarded: true,
+    stopProcessing: false,
+    threadFirstOnly: false,
+    threadQuote: false,
+    shadow: false,
+    schedule: null,
+    digest: null,
+    retryCount: 0,
+    retryIntervalMs: 5000,
+  }
+}
+
+// ============ 规则导入导出 ============
+
+/**
+ * 转换为导出格式：移除 ID 与时间戳，旧规则的平铺条件转换为条件树
+ */
+export function toExportedRule(rule: ForwardRule): Partial<ForwardRule> {
+  return {
+    ...rule,
+    id: undefined, // 导出时移除 ID
+    conditionTree: getConditionTree(rule),
+    createdAt: undefined,
+    updatedAt: undefined,
+  }
+}
+
+/**
+ * 迁移导入的规则：1.0 格式只有平铺条件，转换为条件树
+ */
+export function migrateImportedRule(data: Partial<ForwardRule>): Partial<ForwardRule> {
+  if (data.conditionTree) return data
+  return {
+    ...data,
+    conditionTree: getConditionTree({
+      conditions: Array.isArray(data.conditions) ? data.conditions : [],
+      conditionLogic: data.conditionLogic || 'and',
+    }),
+  }
+}
+
 // ============ 规则测试 ============
 
 export async function testRule(ruleId: number, mailId: number): Promise<RuleTestResult> {
@@ -156,39 +343,12 @@ export async function testRule(ruleId: number, mailId: number): Promise<RuleTest
   const mail = await getMail(mailId)
   if (!mail) throw new Error('邮件不存在')
 
+  const context = await createConditionContext(mail)
+  const conditionResult = evaluateConditionNode(mail, getConditionTree(rule), true, context)
   const matchedConditions: string[] = []
   const unmatchedConditions: string[] = []
-  const conditionResults: boolean[] = []
-
-  for (const condition of rule.conditions) {
-    let matched = false
-    try {
-      matched = checkSingleCondition(mail, condition)
-    } catch {
-      matched = false
-    }
-
-    if (condition.negate) matched = !matched
-    conditionResults.push(matched)
-
-    const conditionDesc = `${condition.type}: "${condition.value}"${condition.negate ? ' (取反)' : ''}`
-    if (matched) {
-      matchedConditions.push(conditionDesc)
-    } else {
-      unmatchedConditions.push(conditionDesc)
-    }
-  }
-
-  // 根据条件逻辑判断整体匹配结果
-  const logic = rule.conditionLogic || 'and'
-  let overallMatched: boolean
-  if (rule.conditions.length === 0) {
-    overallMatched = true
-  } else if (logic === 'or') {
-    overallMatched = conditionResults.some(r => r)
-  } else {
-    overallMatched = conditionResults.every(r => r)
-  }
+  collectLeafResults(conditionResult, matchedConditions, unmatchedConditions)
+  const overallMatched = conditionResult.matched
 
   let previewContent: ForwardPreviewResponse | undefined
   if (overallMatched) {
@@ -209,6 +369,7 @@ export async function testRule(ruleId: number, mailId: number): Promise<RuleTest
     matched: overallMatched,
     matchedConditions,
     unmatchedConditions,
+    conditionResult,
     previewContent,
   }
 }
@@ -222,56 +383,244 @@ export async function testRule(ruleId: number, mailId: number): Promise<RuleTest
 export function matchConditions(
   mail: StoredMail,
   conditions: ForwardCondition[],
-  logic: ConditionLogic = 'and'
+  logic: ConditionLogic = 'and',
+  context: ConditionContext = {}
 ): boolean {
-  if (conditions.length === 0) return true
+  return matchConditionTree(mail, { type: 'group', logic, conditions }, context)
+}
 
-  const results: boolean[] = []
+/**
+ * 检查邮件是否匹配条件树
+ */
+export function matchConditionTree(mail: StoredMail, tree: ConditionGroup, context: ConditionContext = {}): boolean {
+  return evaluateConditionNode(mail, tree, false, context).matched
+}
 
-  for (const condition of conditions) {
-    let matched = false
+/**
+ * 计算条件树各节点的匹配明细
+ */
+export function explainConditionTree(mail: StoredMail, tree: ConditionGroup, context: ConditionContext = {}): ConditionTestNode {
+  return evaluateConditionNode(mail, tree, true, context)
+}
 
-    try {
-      matched = checkSingleCondition(mail, condition)
-    } catch {
-      matched = false
+/**
+ * 检查邮件是否匹配规则（考虑账号和条件逻辑）
+ */
+export function matchRule(mail: StoredMail, rule: ForwardRule, context: ConditionContext = {}): boolean {
+  // 检查账号匹配
+  if (rule.accountId && rule.accountId !== mail.accountId) {
+    return false
+  }
+
+  return matchConditionTree(mail, getConditionTree(rule), context)
+}
+
+/**
+ * 准备邮件的条件匹配上下文（收信账号邮箱、规则时区）
+ */
+export async function createConditionContext(mail: StoredMail): Promise<ConditionContext> {
+  const ctx = getContext()
+  const [account] = await ctx.database.get(TABLE_ACCOUNTS, { id: mail.accountId }, ['email'])
+  return {
+    accountEmail: account?.email,
+    timezone: getConfig().ruleTimezone || undefined,
+  }
+}
+
+/**
+ * 获取规则的条件树
+ *
+ * 未设置 conditionTree 的旧规则把 conditions 与 conditionLogic 转换为单层条件组
+ */
+export function getConditionTree(rule: Pick<ForwardRule, 'conditions' | 'conditionLogic' | 'conditionTree'>): ConditionGroup {
+  if (rule.conditionTree) return rule.conditionTree
+  return {
+    type: 'group',
+    logic: rule.conditionLogic === 'or' ? 'or' : 'and',
+    conditions: rule.conditions || [],
+  }
+}
+
+/**
+ * 校验条件树结构与嵌套深度
+ */
+export function validateConditionTree(tree: ConditionGroup): void {
+  const visit = (node: ConditionNode, depth: number) => {
+    if (!node || typeof node !== 'object') {
+      throw new Error('条件树节点格式错误')
+    }
+    if (node.type !== 'group') {
+      validateCondition(node)
+      return
+    }
+    if (depth > MAX_CONDITION_DEPTH) {
+      throw new Error(`条件组最多嵌套 ${MAX_CONDITION_DEPTH} 层`)
     }
+    if (!['and', 'or', 'not'].includes(node.logic)) {
+      throw new Error(`未知的条件组逻辑: ${node.logic}`)
+    }
+    if (!Array.isArray(node.conditions)) {
+      throw new Error('条件组缺少条件列表')
+    }
+    node.conditions.forEach(child => visit(child, depth + 1))
+  }
 
-    if (condition.negate) matched = !matched
-    results.push(matched)
+  if (tree?.type !== 'group') {
+    throw new Error('条件树的根节点必须是条件组')
   }
+  visit(tree, 1)
+}
 
-  // 根据逻辑类型返回结果
-  if (logic === 'or') {
-    return results.some(r => r) // 任一条件满足即可
+/**
+ * 校验投递时段
+ */
+export function validateSchedule(schedule: DeliverySchedule): void {
+  if (typeof schedule.windows !== 'string') {
+    throw new Error('投递时段格式错误')
   }
-  return results.every(r => r) // 所有条件都必须满足（默认 AND）
+  parseTimeWindows(schedule.windows)
+  if (schedule.timezone) validateTimezone(schedule.timezone)
 }
 
 /**
- * 检查邮件是否匹配规则（考虑账号和条件逻辑）
+ * 计算规则从指定时间起最近一次可投递的时间
+ *
+ * @returns 规则未配置投递时段（或配置无效）时返回 null
  */
-export function matchRule(mail: StoredMail, rule: ForwardRule): boolean {
-  // 检查账号匹配
-  if (rule.accountId && rule.accountId !== mail.accountId) {
-    return false
+export function getScheduleStart(rule: ForwardRule, date: Date): Date | null {
+  if (!rule.schedule?.windows?.trim()) return null
+  try {
+    const windows = parseTimeWindows(rule.schedule.windows)
+    return findNextWindowStart(date, windows, rule.schedule.timezone || getConfig().ruleTimezone || undefined)
+  } catch (e) {
+    getLogger().warn(LogModule.FORWARD, `规则 "${rule.name}" 的投递时段无效，按未配置处理: ${(e as Error).message}`)
+    return null
+  }
+}
+
+/**
+ * 校验摘要模式
+ */
+export function validateDigest(digest: DigestConfig): void {
+  const { windowMinutes, maxCount } = digest
+  if (!Number.isInteger(windowMinutes) || windowMinutes < 0 || !Number.isInteger(maxCount) || maxCount < 0) {
+    throw new Error('摘要的汇总时长与数量必须是非负整数')
+  }
+  if (windowMinutes === 0 && maxCount === 0) {
+    throw new Error('摘要至少需要设置汇总时长或数量之一')
+  }
+}
+
+/**
+ * 校验单个条件的取值格式，避免保存后静默匹配失败
+ */
+function validateCondition(condition: ForwardCondition): void {
+  if (!Object.prototype.hasOwnProperty.call(CONDITION_LABELS, condition.type)) {
+    throw new Error(`未知的条件类型: ${condition.type}`)
+  }
+  if (typeof condition.value !== 'string') {
+    throw new Error(`条件 ${condition.type} 缺少匹配值`)
+  }
+  if (isHeaderCondition(condition) && !condition.header?.trim()) {
+    throw new Error(`条件 ${condition.type} 缺少邮件头名称`)
+  }
+  switch (condition.type) {
+    case 'size_greater_than':
+      parseSize(condition.value)
+      break
+    case 'received_between':
+      parseTimeWindows(condition.value)
+      break
+  }
+}
+
+/**
+ * 计算条件树节点的匹配结果
+ *
+ * 空条件组视为满足；根节点为空时匹配所有邮件（与旧版空条件列表一致）。
+ *
+ * @param detailed 为 true 时计算全部子节点并返回明细（规则测试用），否则短路求值
+ */
+function evaluateConditionNode(
+  mail: StoredMail,
+  node: ConditionNode,
+  detailed: boolean,
+  context: ConditionContext
+): ConditionTestNode {
+  if (node.type !== 'group') {
+    let matched = false
+    try {
+      matched = checkSingleCondition(mail, node, context)
+    } catch {
+      matched = false
+    }
+    if (node.negate) matched = !matched
+    return { description: describeCondition(node), matched }
+  }
+
+  const children: ConditionTestNode[] = []
+  let matched: boolean
+  if (node.logic === 'or') {
+    matched = node.conditions.length === 0
+    for (const child of node.conditions) {
+      const result = evaluateConditionNode(mail, child, detailed, context)
+      children.push(result)
+      if (result.matched) {
+        matched = true
+        if (!detailed) break
+      }
+    }
+  } else {
+    // and: 全部满足；not: 全部不满足
+    const expected = node.logic !== 'not'
+    matched = true
+    for (const child of node.conditions) {
+      const result = evaluateConditionNode(mail, child, detailed, context)
+      children.push(result)
+      if (result.matched !== expected) {
+        matched = false
+        if (!detailed) break
+      }
+    }
   }
 
-  // 检查条件匹配（使用规则定义的条件逻辑）
-  const logic = rule.conditionLogic || 'and'
-  return matchConditions(mail, rule.conditions, logic)
+  return {
+    description: GROUP_LOGIC_LABELS[node.logic] || node.logic,
+    matched,
+    children: detailed ? children : undefined,
+  }
+}
+
+function describeCondition(condition: ForwardCondition): string {
+  const label = isHeaderCondition(condition)
+    ? `邮件头 ${condition.header || '(未指定)'} ${CONDITION_LABELS[condition.type]}`
+    : CONDITION_LABELS[condition.type] || condition.type
+  const value = VALUELESS_CONDITIONS.has(condition.type) ? '' : ` "${condition.value}"`
+  return `${label}${value}${condition.negate ? ' (取反)' : ''}`
+}
+
+function isHeaderCondition(condition: ForwardCondition): boolean {
+  return condition.type.startsWith('header_')
+}
+
+function collectLeafResults(node: ConditionTestNode, matched: string[], unmatched: string[]): void {
+  if (!node.children) {
+    (node.matched ? matched : unmatched).push(node.description)
+    return
+  }
+  node.children.forEach(child => collectLeafResults(child, matched, unmatched))
 }
 
 /**
  * 获取所有匹配的规则（按优先级排序）
  */
-export function getMatchingRules(mail: StoredMail, rules: ForwardRule[]): ForwardRule[] {
+export function getMatchingRules(mail: StoredMail, rules: ForwardRule[], context: ConditionContext = {}): ForwardRule[] {
   return rules
-    .filter(rule => matchRule(mail, rule))
+    .filter(rule => matchRule(mail, rule, context))
     .sort((a, b) => (a.priority || 100) - (b.priority || 100)) // 优先级越小越靠前
 }
 
-export function checkSingleCondition(mail: StoredMail, condition: ForwardCondition): boolean {
+export function checkSingleCondition(mail: StoredMail, condition: ForwardCondition, context: ConditionContext = {}): boolean {
   const value = condition.value.toLowerCase()
 
   switch (condition.type) {
@@ -291,6 +640,36 @@ export function checkSingleCondition(mail: StoredMail, condition: ForwardConditi
       return mail.textContent?.toLowerCase().includes(value) || false
     case 'body_regex':
       return safeRegexTest(condition.value, mail.textContent || '')
+    case 'mailbox_equals':
+      // 旧数据没有记录文件夹，均来自 INBOX
+      return (mail.mailbox || 'INBOX').toLowerCase() === value.trim()
+    case 'cc_contains':
+      return mail.cc?.some(c => c.address?.toLowerCase().includes(value)) || false
+    case 'from_domain':
+      return matchDomainList(mail.from?.address, condition.value)
+    case 'has_attachment':
+      return (mail.attachments || []).some(a => !isInlineAttachment(mail, a))
+    case 'attachment_name_regex':
+      return (mail.attachments || []).some(a => !isInlineAttachment(mail, a) && safeRegexTest(condition.value, a.filename || ''))
+    case 'attachment_type':
+      return (mail.attachments || []).some(a => !isInlineAttachment(mail, a) && matchAttachmentType(a, condition.value))
+    case 'size_greater_than':
+      return getMailSize(mail) > parseSize(condition.value)
+    case 'received_between':
+      return matchTimeWindows(mail.receivedAt, parseTimeWindows(condition.value), context.timezone)
+    case 'account_email':
+      return !!context.accountEmail && parseConditionList(condition.value).includes(context.accountEmail.trim().toLowerCase())
+    case 'header_equals':
+      return getHeaderValues(mail, condition.header).some(v => v.trim().toLowerCase() === value.trim())
+    case 'header_contains':
+      return getHeaderValues(mail, condition.header).some(v => v.toLowerCase().includes(value))
+    case 'header_regex':
+      return getHeaderValues(mail, condition.header).some(v => safeRegexTest(condition.value, v))
+    case 'header_exists':
+      return getHeaderValues(mail, condition.header).length > 0
+    case 'is_unread':
+      // 控制台标记为已读或服务器上带有 \Seen 标记均视为已读
+      return !mail.isRead && !mail.serverFlags?.some(flag => flag.toLowerCase() === '\\seen')
     default:
       return false
   }
@@ -360,10 +739,10 @@ export async function getForwardPreview(request: ForwardPreviewRequest): Promise
   )
 }
 
-export async function getAvailableTargets(): Promise<ForwardTarget[]> {
+export async function getAvailableTargets(): Promise<ChatForwardTarget[]> {
   const ctx = getContext()
   const logger = getLogger()
-  const targets: ForwardTarget[] = []
+  const targets: ChatForwardTarget[] = []
 
   const activeBots = ctx.bots.filter(bot => bot.isActive)
 
@@ -447,8 +826,8 @@ export async function findMatchingRule(mail: StoredMail, ruleId?: number): Promi
   }
 
   const rules = await getRules()
-  const enabledRules = rules.filter(r => r.enabled)
+  const enabledRules = rules.filter(r => r.enabled && !r.shadow)
   // getMatchingRules 已按优先级排序，直接取第一个匹配结果
-  const matchingRules = getMatchingRules(mail, enabledRules)
+  const matchingRules = getMatchingRules(mail, enabledRules, await createConditionContext(mail))
   return matchingRules[0] || null
 }
@@ -0,0 +1,120 @@
+/**
+ * 核心模块 - 影子运行
+ *
+ * 影子规则照常匹配实时收到的邮件，但不投递，只记录本会执行的操作与目标，
+ * 用于在正式启用前观察规则在真实邮件上的效果。渲染预览在控制台查看记录时按需生成。
+ */
+
+import { $ } from 'koishi'
+import type {
+  ForwardRule,
+  ForwardTarget,
+  PaginatedResponse,
+  ShadowAction,
+  ShadowLogListItem,
+  ShadowLogQuery,
+  StoredMail,
+} from '../types'
+import { LogModule } from '../logger'
+import {
+  TABLE_SHADOW_LOGS,
+  getContext,
+  getLogger,
+} from './state'
+import { getRules, getScheduleStart } from './rules'
+import { isForwardedByRule } from './forward-logs'
+import { isFirstInThread } from './threads'
+
+/**
+ * 记录影子规则对邮件本会执行的操作
+ *
+ * 与实时规则使用相同的跳过判断；投递时段只记录本会投递的时间，不暂存
+ *
+ * @param blockedBy 按匹配策略抢先执行、使影子规则不会执行的实时规则
+ */
+export async function recordShadowRun(mail: StoredMail, rule: ForwardRule, blockedBy?: ForwardRule): Promise<void> {
+  const ctx = getContext()
+  const logger = getLogger()
+
+  let action: ShadowAction = rule.digest ? 'digest' : 'forward'
+  let detail: string | undefined
+  if (blockedBy) {
+    action = 'skipped'
+    detail = `规则 "${blockedBy.name}" 优先执行`
+  } else if (rule.skipForwarded && await isForwardedByRule(mail, rule)) {
+    action = 'skipped'
+    detail = '已由本规则转发过'
+  } else if (rule.threadFirstOnly && !await isFirstInThread(mail)) {
+    action = 'skipped'
+    detail = '不是会话的首封邮件'
+  } else if (!rule.digest) {
+    const now = new Date()
+    const dueAt = new Date(now.getTime() + (rule.delayMs || 0))
+    const windowStart = getScheduleStart(rule, dueAt)
+    if (windowStart && windowStart.getTime() > dueAt.getTime()) {
+      detail = `投递时段外，将于 ${windowStart.toLocaleString()} 投递`
+    }
+  }
+
+  await ctx.database.create(TABLE_SHADOW_LOGS, {
+    ruleId: rule.id,
+    mailId: mail.id,
+    accountId: mail.accountId,
+    mailSubject: mail.subject,
+    action,
+    detail,
+    targets: action === 'skipped' ? [] : rule.targets.map(getTargetName),
+    createdAt: new Date(),
+  })
+  logger.info(LogModule.FORWARD, `[影子] "${mail.subject}" -> 规则 "${rule.name}"${detail ? `（${detail}）` : ''}`)
+}
+
+function getTargetName(target: ForwardTarget): string {
+  if (target.displayName) return target.displayName
+  switch (target.type) {
+    case 'email':
+      return target.address
+    case 'webhook':
+      return target.url
+    default:
+      return `${target.platform}:${target.channelId}`
+  }
+}
+
+// ============ 查询与清理 ============
+
+/**
+ * 分页查询影子运行记录（新的在前）
+ */
+export async function getShadowLogs(query: ShadowLogQuery): Promise<PaginatedResponse<ShadowLogListItem>> {
+  const ctx = getContext()
+  const page = query.page || 1
+  const pageSize = query.pageSize || 20
+  const conditions = query.ruleId ? { ruleId: query.ruleId } : {}
+
+  const total = await ctx.database.eval(TABLE_SHADOW_LOGS, row => $.count(row.id), conditions) as number
+  const logs = await ctx.database
+    .select(TABLE_SHADOW_LOGS)
+    .where(conditions)
+    .orderBy('id', 'desc')
+    .limit(pageSize)
+    .offset((page - 1) * pageSize)
+    .execute()
+
+  const ruleNames = new Map((await getRules()).map(r => [r.id, r.name]))
+  const items = logs.map(log => ({ ...log, ruleName: ruleNames.get(log.ruleId) }))
+  return { items, total, page, pageSize, totalPages: Math.ceil(total / pageSize) }
+}
+
+/**
+ * 删除影子运行记录
+ *
+ * @param ruleId 只删除指定规则的记录
+ */
+export async function deleteShadowLogs(ruleId?: number): Promise<{ deleted: number }> {
+  const ctx = getContext()
+  const conditions = ruleId ? { ruleId } : {}
+  const deleted = await ctx.database.eval(TABLE_SHADOW_LOGS, row => $.count(row.id), conditions) as number
+  await ctx.database.remove(TABLE_SHADOW_LOGS, conditions)
+  return { deleted }
+}
@@ -6,7 +6,7 @@
 
 import { Context } from 'koishi'
 import type { Config, ForwardRule } from '../types'
-import type { ImapConnection } from '../imap'
+import type { MailSourceConnection } from '../connection'
 import type { MailRenderer } from '../render'
 import type { MailManagerLogger } from '../logger'
 import type { ParsedMail } from '../parser'
@@ -16,6 +16,14 @@ import type { ParsedMail } from '../parser'
 export const TABLE_ACCOUNTS = 'mail_manager.accounts'
 export const TABLE_MAILS = 'mail_manager.mails'
 export const TABLE_RULES = 'mail_manager.rules'
+export const TABLE_MAILBOX_STATES = 'mail_manager.mailbox_states'
+export const TABLE_POP3_UIDS = 'mail_manager.pop3_uids'
+export const TABLE_MESSAGE_LINKS = 'mail_manager.message_links'
+export const TABLE_FORWARD_LOGS = 'mail_manager.forward_logs'
+export const TABLE_DELIVERIES = 'mail_manager.deliveries'
+export const TABLE_DIGEST_ITEMS = 'mail_manager.digest_items'
+export const TABLE_SHADOW_LOGS = 'mail_manager.shadow_logs'
+export const TABLE_RULE_VERSIONS = 'mail_manager.rule_versions'
 export const RULES_CACHE_TTL_MS = 60000 // 1分钟缓存
 
 // ============ 实例隔离机制 ============
@@ -41,8 +49,8 @@ export function setCurrentInstanceId(id: number): void {
 
 // ============ 全局状态 ============
 
-/** 活跃的 IMAP 连接集合 */
-export const activeConnections = new Map<number, ImapConnection>()
+/** 活跃的收信连接集合（IMAP / POP3） */
+export const activeConnections = new Map<number, MailSourceConnection>()
 
 /** 账号操作互斥锁，确保同一账号的连接/断开操作顺序执行 */
 export const accountOperationLocks = new Map<number, Promise<void>>()
@@ -0,0 +1,130 @@
+/**
+ * 核心模块 - 邮件会话
+ *
+ * 按 References / In-Reply-To 把邮件归入会话，会话 ID 为会话首封邮件的 Message-ID（见 parser.ts 的 getThreadId）。
+ * 每封邮件入库时记录会话 ID，升级前入库的邮件在启动时补写，会话的查询与分组都直接使用该字段。
+ */
+
+import type { StoredMail } from '../types'
+import { getThreadId } from '../parser'
+import {
+  TABLE_MAILS,
+  TABLE_MESSAGE_LINKS,
+  getContext,
+} from './state'
+
+type ThreadMail = Pick<StoredMail, 'accountId' | 'messageId' | 'threadId' | 'references' | 'inReplyTo'>
+
+/** 补写会话 ID 时每批处理的邮件数 */
+const BACKFILL_BATCH_SIZE = 200
+
+/**
+ * 获取邮件的会话 ID
+ */
+export function getThreadKey(mail: Pick<StoredMail, 'messageId' | 'threadId' | 'references' | 'inReplyTo'>): string {
+  return mail.threadId || getThreadId(mail.messageId, mail.references, mail.inReplyTo)
+}
+
+/**
+ * 查找所回复的邮件并沿用其会话 ID
+ *
+ * References 被截断或缺失时，仅凭自身的邮件头推算会与已入库的上一封邮件不一致
+ */
+export async function resolveThreadId(mail: Pick<StoredMail, 'accountId' | 'messageId' | 'references' | 'inReplyTo'>): Promise<string> {
+  const ctx = getContext()
+  if (mail.inReplyTo) {
+    const [parent] = await ctx.database.get(
+      TABLE_MAILS,
+      { accountId: mail.accountId, messageId: mail.inReplyTo },
+      ['messageId', 'threadId', 'references', 'inReplyTo']
+    )
+    if (parent) return getThreadKey(parent)
+  }
+  return getThreadId(mail.messageId, mail.references, mail.inReplyTo)
+}
+
+/**
+ * 为升级前入库、没有会话 ID 的邮件补写会话 ID
+ *
+ * 按 ID 升序分批处理，回复邮件可以沿用已补写的上一封邮件的会话 ID
+ *
+ * @returns 补写的邮件数
+ */
+export async function backfillThreadIds(): Promise<number> {
+  const ctx = getContext()
+  let filled = 0
+  let cursor = 0
+
+  while (true) {
+    const batch = await ctx.database
+      .select(TABLE_MAILS, { id: { $gt: cursor }, threadId: { $exists: false } })
+      .orderBy('id', 'asc')
+      .limit(BACKFILL_BATCH_SIZE)
+      .project(['id', 'accountId', 'messageId', 'references', 'inReplyTo'])
+      .execute()
+    if (batch.length === 0) break
+
+    for (const mail of batch) {
+      await ctx.database.set(TABLE_MAILS, { id: mail.id }, { threadId: await resolveThreadId(mail) })
+    }
+    filled += batch.length
+    cursor = batch[batch.length - 1].id
+  }
+  return filled
+}
+
+/** 同一会话的查询条件 */
+function threadQuery(mail: ThreadMail) {
+  return { accountId: mail.accountId, threadId: getThreadKey(mail) }
+}
+
+/**
+ * 获取邮件所在会话的全部邮件（按时间先后）
+ */
+export async function getThreadMails(mailId: number): Promise<StoredMail[]> {
+  const ctx = getContext()
+  const [mail] = await ctx.database.get(TABLE_MAILS, { id: mailId })
+  if (!mail) throw new Error('邮件不存在')
+
+  const mails = await ctx.database.get(TABLE_MAILS, threadQuery(mail))
+  if (!mails.some(m => m.id === mail.id)) mails.push(mail)
+  return mails.sort((a, b) => new Date(a.receivedAt).getTime() - new Date(b.receivedAt).getTime() || a.id - b.id)
+}
+
+/**
+ * 邮件是否是会话中最早收到的邮件（只统计收件）
+ *
+ * 同一次扫描拉取的邮件可能时间相同，此时按 ID 判定先后，保证只有一封被视为首封
+ */
+export async function isFirstInThread(mail: StoredMail): Promise<boolean> {
+  const ctx = getContext()
+  const earlier = await ctx.database.get(TABLE_MAILS, {
+    ...threadQuery(mail),
+    direction: 'inbound',
+    $or: [
+      { receivedAt: { $lt: mail.receivedAt } },
+      { receivedAt: mail.receivedAt, id: { $lt: mail.id } },
+    ],
+  }, ['id'])
+  return earlier.length === 0
+}
+
+/**
+ * 查找会话中其他邮件转发到各频道的最新消息，用于引用回复
+ *
+ * @returns 以 `平台:频道` 为键的消息 ID
+ */
+export async function findThreadMessages(mail: StoredMail): Promise<Map<string, string>> {
+  const ctx = getContext()
+  const messages = new Map<string, string>()
+
+  const others = await ctx.database.get(TABLE_MAILS, { ...threadQuery(mail), id: { $ne: mail.id } }, ['id'])
+  if (others.length === 0) return messages
+
+  const links = await ctx.database.get(TABLE_MESSAGE_LINKS, { mailId: { $in: others.map(m => m.id) } })
+  links.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime() || a.id - b.id)
+  for (const link of links) {
+    messages.set(`${link.platform}:${link.channelId}`, link.messageId)
+  }
+  return messages
+}
@@ -12,12 +12,22 @@ export function extendDatabase(ctx: Context): void {
     name: 'string',
     email: 'string',
     password: 'string',
+    authType: 'string',
+    oauth2: 'json',
     imapHost: 'string',
     imapPort: 'unsigned',
     imapTls: 'boolean',
     enabled: 'boolean',
     sendImapId: 'boolean',
     proxyUrl: 'string',
+    mailboxes: 'json',
+    readOnly: 'boolean',
+    protocol: 'string',
+    pop3LeaveOnServer: 'boolean',
+    pop3DeleteAfterDays: 'unsigned',
+    pop3AllowInsecure: 'boolean',
+    inboundToken: 'string',
+    smtp: 'json',
     status: 'string',
     lastError: 'text',
     createdAt: 'timestamp',
@@ -30,14 +40,24 @@ export function extendDatabase(ctx: Context): void {
   ctx.model.extend('mail_manager.mails', {
     id: 'unsigned',
     accountId: 'unsigned',
+    direction: { type: 'string', initial: 'inbound' },
     messageId: 'string',
+    mailbox: 'string',
+    uid: 'unsigned',
+    serverFlags: 'json',
     from: 'json',
     to: 'json',
     cc: 'json',
+    replyTo: 'json',
+    references: 'json',
+    inReplyTo: 'string',
+    threadId: 'string',
     subject: 'string',
     textContent: 'text',
     htmlContent: 'text',
     attachments: 'json',
+    size: 'unsigned',
+    headers: 'json',
     receivedAt: 'timestamp',
     isRead: 'boolean',
     isForwarded: 'boolean',
@@ -49,9 +69,14 @@ export function extendDatabase(ctx: Context): void {
     indexes: [
       // 优化常用查询的索引
       ['accountId'],
+      ['direction'],
+      ['mailbox'],
       ['receivedAt'],
       ['isRead'],
       ['isForwarded'],
+      ['accountId', 'threadId', 'receivedAt'],
+      // 回环检测按 Message-ID 跨账号查询；同账号查询由唯一索引覆盖
+      ['messageId'],
     ],
   })
 
@@ -65,6 +90,7 @@ export function extendDatabase(ctx: Context): void {
     accountId: 'unsigned',
     conditionLogic: 'string',    // 新增：条件组合逻辑 (and/or)
     conditions: 'json',
+    conditionTree: 'json',       // 嵌套条件树，设置后取代 conditions
     targets: 'json',
     forwardMode: 'string',
     elements: 'json',
@@ -74,6 +100,12 @@ export function extendDatabase(ctx: Context): void {
     failureStrategy: 'string',   // 新增：失败处理策略
     delayMs: 'unsigned',         // 新增：转发延迟
     skipForwarded: 'boolean',    // 新增：跳过已转发
+    stopProcessing: 'boolean',   // 命中后停止处理后续规则
+    threadFirstOnly: 'boolean',  // 只转发会话首封邮件
+    threadQuote: 'boolean',      // 引用同一会话的转发消息
+    shadow: 'boolean',           // 影子运行，只记录不投递
+    schedule: 'json',            // 投递时段
+    digest: 'json',              // 摘要模式
     retryCount: 'unsigned',      // 新增：重试次数
     retryIntervalMs: 'unsigned', // 新增：重试间隔
     createdAt: 'timestamp',
@@ -85,4 +117,144 @@ export function extendDatabase(ctx: Context): void {
       ['enabled'],
     ],
   })
+
+  // 文件夹同步状态表（UID 水位线）
+  ctx.model.extend('mail_manager.mailbox_states', {
+    id: 'unsigned',
+    accountId: 'unsigned',
+    mailbox: 'string',
+    uidValidity: 'string',
+    lastUid: 'unsigned',
+    highestModseq: 'string',
+    syncState: 'string',
+    updatedAt: 'timestamp',
+  }, {
+    autoInc: true,
+    unique: [['accountId', 'mailbox']],
+  })
+
+  ctx.model.extend('mail_manager.pop3_uids', {
+    id: 'unsigned',
+    accountId: 'unsigned',
+    uidl: 'string',
+    delivered: 'boolean',
+    seenAt: 'timestamp',
+  }, {
+    autoInc: true,
+    unique: [['accountId', 'uidl']],
+  })
+
+  // 转发消息与邮件的对应关系（引用回复）
+  ctx.model.extend('mail_manager.message_links', {
+    id: 'unsigned',
+    mailId: 'unsigned',
+    accountId: 'unsigned',
+    platform: 'string',
+    channelId: 'string',
+    messageId: 'string',
+    createdAt: 'timestamp',
+  }, {
+    autoInc: true,
+    indexes: [
+      ['platform', 'channelId', 'messageId'],
+      ['mailId'],
+      ['accountId'],
+    ],
+  })
+
+  // 转发记录（每个目标每次尝试一条）
+  ctx.model.extend('mail_manager.forward_logs', {
+    id: 'unsigned',
+    mailId: 'unsigned',
+    accountId: 'unsigned',
+    ruleId: 'unsigned',
+    targetType: 'string',
+    targetKey: 'string',
+    targetName: 'string',
+    attempt: 'unsigned',
+    status: 'string',
+    error: 'text',
+    messageIds: 'json',
+    httpStatus: 'unsigned',
+    createdAt: 'timestamp',
+  }, {
+    autoInc: true,
+    indexes: [
+      ['mailId'],
+      ['accountId'],
+    ],
+  })
+
+  // 投递队列（自动转发的待投递与失败任务）
+  ctx.model.extend('mail_manager.deliveries', {
+    id: 'unsigned',
+    mailId: 'unsigned',
+    accountId: 'unsigned',
+    ruleId: 'unsigned',
+    targets: 'json',
+    status: 'string',
+    attempts: 'unsigned',
+    maxAttempts: 'unsigned',
+    nextAttemptAt: 'timestamp',
+    held: 'boolean',
+    lastError: 'text',
+    createdAt: 'timestamp',
+    updatedAt: 'timestamp',
+  }, {
+    autoInc: true,
+    unique: [['mailId', 'ruleId']], // 同一邮件同一规则只保留一个任务
+    indexes: [
+      ['status', 'nextAttemptAt'],
+      ['accountId'],
+    ],
+  })
+
+  // 摘要模式下累积的邮件
+  ctx.model.extend('mail_manager.digest_items', {
+    id: 'unsigned',
+    ruleId: 'unsigned',
+    mailId: 'unsigned',
+    accountId: 'unsigned',
+    createdAt: 'timestamp',
+  }, {
+    autoInc: true,
+    unique: [['ruleId', 'mailId']],
+    indexes: [
+      ['accountId'],
+    ],
+  })
+
+  // 影子运行记录（影子规则命中后本会执行的操作）
+  ctx.model.extend('mail_manager.shadow_logs', {
+    id: 'unsigned',
+    ruleId: 'unsigned',
+    mailId: 'unsigned',
+    accountId: 'unsigned',
+    mailSubject: 'string',
+    action: 'string',
+    detail: 'string',
+    targets: 'json',
+    createdAt: 'timestamp',
+  }, {
+    autoInc: true,
+    indexes: [
+      ['ruleId'],
+      ['accountId'],
+    ],
+  })
+
+  // 规则历史版本（每次变更的配置快照）
+  ctx.model.extend('mail_manager.rule_versions', {
+    id: 'unsigned',
+    ruleId: 'unsigned',
+    version: 'unsigned',
+    action: 'string',
+    snapshot: 'json',
+    operator: 'string',
+    restoredFrom: 'unsigned',
+    createdAt: 'timestamp',
+  }, {
+    autoInc: true,
+    unique: [['ruleId', 'version']],
+  })
 }
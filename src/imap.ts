@@ -10,11 +10,12 @@
  * 设计原则：Clean Code (清晰命名、单一职责、高可读性)
  */
 
-import { ImapFlow } from 'imapflow'
+import { ImapFlow, type MailboxObject } from 'imapflow'
 import { Context } from 'koishi'
-import type { MailAccount, MailAddress, MailAttachment, StoredMail } from './types'
+import type { MailAccount, MailAddress, MailAttachment, MailboxInfo, StoredMail } from './types'
+import type { MailSourceConnection, MailSyncResult } from './connection'
 import { getLogger } from './logger'
-import { parseMail, htmlToText, type ParsedMail } from './parser'
+import { parseMail, htmlToText, getThreadId, type ParsedMail } from './parser'
 import { MailProviderFactory, type MailProviderAdapter } from './providers'
 import {
   sleep,
@@ -34,7 +35,7 @@ import {
  * 安全日志代理
  * 封装底层 logger，提供异常捕获和格式化功能
  */
-class SafeLogger {
+export class SafeLogger {
   private get logger() {
     return getLogger()
   }
@@ -67,6 +68,39 @@ class SafeLogger {
 
 const logger = new SafeLogger()
 
+// ==================== 水位线存储 ====================
+
+/** 文件夹 UID 水位线 */
+export interface MailboxWatermark {
+  /** 文件夹的 UIDVALIDITY（字符串形式） */
+  uidValidity: string
+  /** 已处理的最大 UID */
+  lastUid: number
+  /** 上次完整处理时的 HIGHESTMODSEQ（仅 CONDSTORE 可用时记录） */
+  highestModseq?: string
+}
+
+/** 服务器端标记变化 */
+export interface MailFlagChange {
+  /** 文件夹路径 */
+  mailbox: string
+  /** 邮件 UID */
+  uid: number
+  /** 变化后的完整标记列表 */
+  flags: string[]
+}
+
+/**
+ * 水位线持久化接口
+ *
+ * 由 core 层实现并注入，连接层不直接访问数据库。
+ * 未注入时水位线只保存在内存中，重启后从当前位置重新开始。
+ */
+export interface MailboxStateStore {
+  load(mailbox: string): Promise<MailboxWatermark | null>
+  save(mailbox: string, watermark: MailboxWatermark): Promise<void>
+}
+
 // ==================== 核心类：ImapConnection ====================
 
 /**
@@ -75,7 +109,7 @@ const logger = new SafeLogger()
  * 维护单个邮箱账号的 IMAP 会话。
  * 采用状态机思想管理连接状态（Connecting, Connected, Disconnecting, Disconnected）。
  */
-export class ImapConnection {
+export class ImapConnection implements MailSourceConnection {
   private imapFlow: ImapFlow | null = null
   private mailboxLock: any = null
 
@@ -94,6 +128,10 @@ export class ImapConnection {
   private suppressNextCloseReconnect = false
   private lastReconnectScheduledAt = 0
 
+  // OAuth2：认证失败后强制刷新一次访问令牌再重试
+  private forceTokenRefresh = false
+  private tokenRefreshRetried = false
+
   // 健康检查
   private healthCheckTimer: (() => void) | null = null
   private lastHealthCheck: number = 0
@@ -111,6 +149,10 @@ export class ImapConnection {
   private readonly provider: MailProviderAdapter
   private readonly providerFeatures: ReturnType<MailProviderAdapter['getFeatures']>
   private readonly retentionDays: number
+  private readonly mailboxes: string[]
+  private readonly watermarks = new Map<string, MailboxWatermark>()
+  // 已经用于增量同步的 SELECT 结果；会话中途的 HIGHESTMODSEQ 不会随新邮件刷新，只在刚 SELECT 时可信
+  private readonly consumedMailboxes = new WeakSet<object>()
 
   constructor(
     private readonly ctx: Context,
@@ -127,12 +169,16 @@ export class ImapConnection {
       healthCheckInterval: number
       connectivityTestTimeout: number
     },
-    private readonly onMailReceived: (mail: ParsedMail) => void,
-    private readonly onStatusChanged?: (status: MailAccount['status'], error?: string) => void
+    private readonly onMailReceived: (mail: ParsedMail) => Promise<void> | void,
+    private readonly onStatusChanged?: (status: MailAccount['status'], error?: string) => void,
+    private readonly stateStore?: MailboxStateStore,
+    private readonly onFlagsChanged?: (changes: MailFlagChange[]) => void,
+    private readonly accessTokenProvider?: (forceRefresh: boolean) => Promise<string>
   ) {
     this.provider = MailProviderFactory.getProvider(account)
     this.providerFeatures = this.provider.getFeatures()
     this.retentionDays = config.mailRetentionDays
+    this.mailboxes = normalizeMailboxes(account.mailboxes)
     logger.debug('使用 %s 配置: %s', this.provider.displayName, account.email)
   }
 
@@ -169,7 +215,7 @@ export class ImapConnection {
    * 2. 清理旧连接
    * 3. 初始化客户端
    * 4. 建立网络连接
-   * 5. 开启收件箱监听
+   * 5. 开启文件夹监听
    */
   async connect(): Promise<void> {    // 检查是否已销毁
     if (this.disposed) {
@@ -188,7 +234,7 @@ export class ImapConnection {
     try {
       await this.initializeAndConnect()
       this.markAsConnected()
-      await this.startInboxListener()
+      await this.startMailboxListener()
       this.startHealthCheck()
     } catch (error) {
       this.handleConnectionFailure(error as Error)
@@ -275,32 +321,49 @@ export class ImapConnection {
     days?: number,
     onBatch?: (mails: ParsedMail[]) => Promise<void>,
     existingMessageIds?: Set<string>
-  ): Promise<{ total: number; synced: number; skippedExisting: number }> {
+  ): Promise<MailSyncResult> {
     this.assertConnected()
 
-    return await this.withMailboxLock(async () => {
-      const allUids = await this.findMailsToSync(days)
-
-      if (allUids.length === 0) {
-        logger.debug('%s 无邮件需同步', this.account.email)
-        return { total: 0, synced: 0, skippedExisting: 0 }
-      }
-
-      const { candidates, skipped } = await this.filterExistingMailsByMessageId(allUids, existingMessageIds)
-      const uids = candidates
+    const summary = { total: 0, synced: 0, skippedExisting: 0 }
 
-      if (uids.length === 0) {
-        logger.debug('%s 待同步邮件均已存在', this.account.email)
-        return { total: allUids.length, synced: 0, skippedExisting: skipped }
+    try {
+      for (const path of this.mailboxes) {
+        const result = await this.withMailboxLock(path, () => this.syncMailbox(path, days, onBatch, existingMessageIds))
+        summary.total += result.total
+        summary.synced += result.synced
+        summary.skippedExisting += result.skippedExisting
       }
+    } finally {
+      await this.reopenPrimaryMailbox()
+    }
 
-      logger.debug('%s 发现 %d/%d 封邮件需同步', this.account.email, uids.length, allUids.length)
+    return summary
+  }
 
-      const result = await this.processMailSyncBatches(uids, onBatch)
-      this.logSyncSummary(result, uids.length)
+  /**
+   * 列出服务器上的全部文件夹
+   *
+   * 用于控制台选择需要监听的文件夹。
+   */
+  static async listMailboxes(account: Partial<MailAccount>): Promise<MailboxInfo[]> {
+    const provider = MailProviderFactory.getProvider(account as MailAccount)
+    const config = provider.getImapConfig(account as MailAccount)
+    const client = new ImapFlow(config as any)
 
-      return { total: allUids.length, synced: result.synced, skippedExisting: skipped }
-    })
+    await client.connect()
+    try {
+      const list = await client.list()
+      return list
+        .filter(item => !item.flags?.has('\\Noselect'))
+        .map(item => ({
+          path: item.path,
+          name: item.name,
+          delimiter: item.delimiter,
+          specialUse: item.specialUse || undefined,
+        }))
+    } finally {
+      await client.logout().catch(() => {})
+    }
   }
 
   /**
@@ -355,6 +418,7 @@ export class ImapConnection {
     this.state.isConnected = true
     this.reconnectAttempts = 0
     this.lastConnectError = null
+    this.tokenRefreshRetried = false
     this.cancelReconnect()
     this.notifyStatus('connected')
     logger.debug('%s 已连接', this.account.email)
@@ -402,7 +466,8 @@ export class ImapConnection {
     }
 
     // 使用 provider 生成配置
-    const providerConfig = this.provider.getImapConfig(this.account, resolvedHost, proxyUrl)
+    const authAccount = await this.resolveAuthAccount()
+    const providerConfig = this.provider.getImapConfig(authAccount, resolvedHost, proxyUrl)
 
     // 应用配置的超时时间
     const connectionTimeout = this.provider.getConnectionTimeout(this.config.connectionTimeout)
@@ -410,6 +475,7 @@ export class ImapConnection {
       ...providerConfig,
       greetingTimeout: connectionTimeout,
       socketTimeout: connectionTimeout * 2,
+      qresync: this.providerFeatures.supportsQresync,
     }
 
     logger.debug('[%s] host=%s, port=%d, proxy=%s',
@@ -421,6 +487,43 @@ export class ImapConnection {
     await this.imapFlow.connect()
   }
 
+  /**
+   * 获取带有效凭证的账号
+   *
+   * OAuth2 账号在每次连接前通过 accessTokenProvider 获取访问令牌（未过期时使用缓存）。
+   */
+  private async resolveAuthAccount(): Promise<MailAccount> {
+    if (this.account.authType !== 'oauth2' || !this.accessTokenProvider) return this.account
+
+    const forceRefresh = this.forceTokenRefresh
+    this.forceTokenRefresh = false
+    const accessToken = await this.accessTokenProvider(forceRefresh)
+
+    return {
+      ...this.account,
+      oauth2: { ...this.account.oauth2!, accessToken },
+    }
+  }
+
+  /**
+   * OAuth2 认证失败时，强制刷新访问令牌后重试一次
+   *
+   * 缓存的令牌可能已被服务端提前吊销；刷新后仍失败则按不可重试处理。
+   */
+  private shouldRetryWithFreshToken(error: Error): boolean {
+    if (this.account.authType !== 'oauth2' || !this.accessTokenProvider) return false
+    if (this.tokenRefreshRetried) return false
+
+    const authFailed = (error as Error & { authenticationFailed?: boolean }).authenticationFailed === true
+      || /authenticationfailed|authentication failed|invalid credentials/i.test(error.message)
+    if (!authFailed) return false
+
+    this.tokenRefreshRetried = true
+    this.forceTokenRefresh = true
+    logger.info('%s 认证失败，将刷新访问令牌后重试', this.account.email)
+    return true
+  }
+
   private bindClientEvents(): void {
     if (!this.imapFlow) return
 
@@ -455,7 +558,7 @@ export class ImapConnection {
     this.notifyStatus('error', friendlyMsg)
 
     // 检查是否应该重试
-    const shouldRetry = this.provider.shouldRetryOnError(error)
+    const shouldRetry = this.shouldRetryWithFreshToken(error) || this.provider.shouldRetryOnError(error)
     if (shouldRetry) {
       this.tryScheduleReconnect()
     } else {
@@ -714,11 +817,21 @@ export class ImapConnection {
     lastExistsEventTime: 0,
   }
 
-  private async startInboxListener(): Promise<void> {
+  /**
+   * 开启文件夹监听
+   *
+   * 主文件夹（列表中的第一个）保持选中状态并使用 IDLE/EXISTS 实时通知，
+   * 其余文件夹在扫描时通过 STATUS 检查，UIDNEXT 超过水位线时才临时切换过去拉取。
+   */
+  private async startMailboxListener(): Promise<void> {
     if (!this.imapFlow) return
 
-    const mailbox = await this.imapFlow.mailboxOpen('INBOX')
-    logger.debug('%s 收件箱已打开 (共 %d 封)', this.account.email, mailbox.exists)
+    const mailbox = await this.imapFlow.mailboxOpen(this.primaryMailbox, { readOnly: this.readOnly })
+    logger.debug('%s 文件夹 %s 已打开 (共 %d 封%s)',
+      this.account.email, this.primaryMailbox, mailbox.exists, this.readOnly ? '，只读' : '')
+    if (this.mailboxes.length > 1) {
+      logger.debug('%s 额外监听文件夹: %s', this.account.email, this.mailboxes.slice(1).join(', '))
+    }
 
     // 记录当前邮件数量
     this.lastMailCount = mailbox.exists
@@ -736,7 +849,7 @@ export class ImapConnection {
     this.setupExistsEventListener()
 
     // 先执行初始扫描
-    await this.scanUnseenMails()
+    await this.scanWatchedMailboxes()
 
     // 根据策略启动监听
     switch (strategy) {
@@ -786,6 +899,8 @@ export class ImapConnection {
 
     this.imapFlow.on('exists', (data) => {
       if (this.disposed) return
+      // 扫描其他文件夹期间收到的 EXISTS 不代表主文件夹的变化
+      if (data.path !== this.primaryMailbox) return
 
       // 更新事件统计
       this.listenerState.existsEventCount++
@@ -841,12 +956,12 @@ export class ImapConnection {
 
     this.isScanning = true
     try {
-      await this.scanUnseenMails()
+      await this.scanWatchedMailboxes()
 
       // 检查是否有待处理的扫描
       while (this.pendingScan && !this.disposed && this.imapFlow) {
         this.pendingScan = false
-        await this.scanUnseenMails()
+        await this.scanWatchedMailboxes()
       }
     } catch (err) {
       logger.error('%s 扫描失败: %s', this.account.email, (err as Error).message)
@@ -927,11 +1042,15 @@ export class ImapConnection {
       const shouldSearch = idleReliability < 70 || timeSinceLastExists > 5 * 60 * 1000
 
       if (shouldSearch) {
-        const uids = await this.searchUnseenUids()
-        if (uids.length > 0) {
-          logger.debug('[POLL] 发现 %d 封未读邮件 (%s)', uids.length, this.account.email)
-          this.triggerScan()
-        }
+        // 按水位线扫描只需一次 UID SEARCH，开销很小
+        this.triggerScan()
+        return
+      }
+
+      // 非主文件夹没有 IDLE 通知，每次轮询都需要检查
+      if (await this.hasNewMailInSecondaryMailboxes()) {
+        logger.debug('[POLL] %s 其他文件夹有新邮件', this.account.email)
+        this.triggerScan()
       }
     } catch (err) {
       logger.debug('[POLL] %s 检查失败: %s', this.account.email, (err as Error).message)
@@ -1073,56 +1192,337 @@ export class ImapConnection {
     this.tryScheduleReconnect()
   }
 
-  private async scanUnseenMails(): Promise<void> {
-    if (!this.imapFlow) return
+  private async scanWatchedMailboxes(): Promise<void> {
+    await this.scanNewMails(this.primaryMailbox)
+    await this.scanSecondaryMailboxes()
+  }
 
-    // 注意：不要使用 withMailboxLock！
-    // 因为邮箱已经在 startInboxListener 中打开，并且 IDLE 模式正在运行
-    // 获取锁会导致 IDLE 退出且不会自动重启
-    const uids = await this.searchUnseenUids()
+  /**
+   * 扫描当前选中文件夹中的新邮件
+   *
+   * 以 UID 水位线判定新邮件，不依赖服务器上的 \Seen 标记：
+   * - 首次监听：以当前 UIDNEXT 为起点，不回溯历史邮件
+   * - UIDVALIDITY 变化：旧 UID 全部失效，在保留期内重新拉取（入库时按 Message-ID 去重）
+   * - 刚 SELECT 且支持 CONDSTORE：按 HIGHESTMODSEQ 只拉取上次会话以来的新邮件与标记变化
+   * - 其余情况：只拉取 UID 大于水位线的邮件
+   */
+  private async scanNewMails(path: string): Promise<void> {
+    if (!this.imapFlow || !this.imapFlow.mailbox) return
+
+    // 注意：主文件夹不要使用 withMailboxLock！
+    // 因为它已经在 startMailboxListener 中打开，并且 IDLE 模式正在运行
+    const mailbox = this.imapFlow.mailbox
+    const uidValidity = String(mailbox.uidValidity)
+    const baseline = Math.max(0, mailbox.uidNext - 1)
+    const freshModseq = this.takeFreshModseq(mailbox)
+    const watermark = await this.loadWatermark(path)
+
+    if (!watermark) {
+      logger.info('%s/%s 首次监听，从 UID %d 之后开始', this.account.email, path, baseline)
+      await this.saveWatermark(path, { uidValidity, lastUid: baseline, highestModseq: freshModseq })
+      return
+    }
+
+    const resync = watermark.uidValidity !== uidValidity
+    if (resync) {
+      logger.warn('%s/%s UIDVALIDITY 已变化 (%s -> %s)，重新同步',
+        this.account.email, path, watermark.uidValidity, uidValidity)
+    }
 
-    if (uids.length === 0) return
+    let uids: number[] | null = null
+    if (resync) {
+      uids = await this.searchResyncUids()
+    } else if (freshModseq && watermark.highestModseq) {
+      uids = await this.fetchChangesSince(path, watermark)
+      if (uids && freshModseq === watermark.highestModseq) {
+        logger.debug('%s/%s HIGHESTMODSEQ 未变化，跳过扫描', this.account.email, path)
+      }
+    }
+    if (!uids) {
+      uids = await this.searchUidsAbove(watermark.lastUid)
+    }
+
+    // 只有完整处理完本次扫描才推进 HIGHESTMODSEQ，否则下次会漏掉未处理的变化
+    const nextModseq = resync ? freshModseq : watermark.highestModseq
+
+    if (uids.length === 0) {
+      await this.saveWatermark(path, {
+        uidValidity,
+        lastUid: resync ? baseline : watermark.lastUid,
+        highestModseq: freshModseq || nextModseq,
+      })
+      return
+    }
 
-    logger.debug('%s 发现 %d 封未读邮件', this.account.email, uids.length)
+    logger.debug('%s 在 %s 发现 %d 封新邮件', this.account.email, path, uids.length)
 
+    let lastUid = resync ? 0 : watermark.lastUid
+    let completed = false
     const CONCURRENT_LIMIT = 5
-    for (let i = 0; i < uids.length; i += CONCURRENT_LIMIT) {
-      const batch = uids.slice(i, i + CONCURRENT_LIMIT)
-      await Promise.all(batch.map(uid => this.fetchAndNotifyMail(uid)))
+    try {
+      for (let i = 0; i < uids.length; i += CONCURRENT_LIMIT) {
+        const batch = uids.slice(i, i + CONCURRENT_LIMIT)
+        const results = await Promise.all(batch.map(uid => this.fetchAndNotifyMail(uid)))
+
+        // 连接中途断开时批次内的邮件可能没有拉取成功，不推进水位线，重连后重试
+        if (!this.isConnectionUsable()) break
+        // 只推进到第一封失败的邮件之前，失败的邮件及其后的邮件下次扫描重试（入库时按 Message-ID 去重）
+        lastUid = advanceWatermark(lastUid, batch, results)
+        if (lastUid !== batch[batch.length - 1]) break
+      }
+      completed = lastUid === uids[uids.length - 1]
+    } finally {
+      await this.saveWatermark(path, {
+        uidValidity,
+        lastUid,
+        highestModseq: completed && freshModseq ? freshModseq : nextModseq,
+      })
     }
   }
 
-  private async searchUnseenUids(): Promise<number[]> {
+  /**
+   * 取出刚 SELECT 得到的 HIGHESTMODSEQ
+   *
+   * 同一个 SELECT 结果只返回一次：会话中途的值不随新邮件刷新，继续使用会误判为「无变化」。
+   * 服务商未声明支持 CONDSTORE、服务器未启用或文件夹不持久化 modseq 时返回 undefined。
+   */
+  private takeFreshModseq(mailbox: MailboxObject): string | undefined {
+    if (this.consumedMailboxes.has(mailbox)) return undefined
+    this.consumedMailboxes.add(mailbox)
+
+    if (!this.providerFeatures.supportsCondstore) return undefined
+    if (!this.imapFlow?.enabled.has('CONDSTORE')) return undefined
+    if (mailbox.noModseq || mailbox.highestModseq === undefined) return undefined
+    return String(mailbox.highestModseq)
+  }
+
+  /**
+   * 通过 FETCH CHANGEDSINCE 获取上次会话以来的变化
+   *
+   * UID 大于水位线的是新邮件，其余的是标记发生变化的旧邮件。
+   * 失败时返回 null，由调用方回退到 UID SEARCH。
+   */
+  private async fetchChangesSince(path: string, watermark: MailboxWatermark): Promise<number[] | null> {
+    if (!this.imapFlow || !watermark.highestModseq) return null
+
+    const newUids: number[] = []
+    const flagChanges: MailFlagChange[] = []
+
+    try {
+      const messages = this.imapFlow.fetch('1:*', { uid: true, flags: true }, {
+        uid: true,
+        changedSince: BigInt(watermark.highestModseq),
+      })
+      for await (const message of messages) {
+        if (message.uid > watermark.lastUid) {
+          newUids.push(message.uid)
+        } else {
+          flagChanges.push({ mailbox: path, uid: message.uid, flags: [...(message.flags || [])] })
+        }
+      }
+    } catch (err) {
+      logger.warn('%s/%s CONDSTORE 增量同步失败，回退到 UID 搜索: %s',
+        this.account.email, path, (err as Error).message)
+      return null
+    }
+
+    logger.debug('%s/%s 增量同步: 新邮件 %d 封，标记变化 %d 封',
+      this.account.email, path, newUids.length, flagChanges.length)
+
+    if (flagChanges.length > 0 && this.onFlagsChanged) {
+      try {
+        this.onFlagsChanged(flagChanges)
+      } catch (err) {
+        logger.debug('%s 标记变化回调已忽略: %s', this.account.email, (err as Error).message)
+      }
+    }
+
+    return newUids.sort((a, b) => a - b)
+  }
+
+  /**
+   * 扫描非主文件夹
+   *
+   * 先用 STATUS 比较 UIDNEXT 与水位线，避免无意义地切换文件夹；
+   * 处理完成后重新选中主文件夹，让 IDLE 循环继续监听主文件夹。
+   */
+  private async scanSecondaryMailboxes(): Promise<void> {
+    const pending: string[] = []
+    for (const path of this.mailboxes.slice(1)) {
+      if (await this.hasNewMailInMailbox(path)) pending.push(path)
+    }
+    if (pending.length === 0) return
+
+    try {
+      for (const path of pending) {
+        if (this.disposed || !this.imapFlow) return
+        await this.withMailboxLock(path, () => this.scanNewMails(path))
+      }
+    } finally {
+      await this.reopenPrimaryMailbox()
+    }
+  }
+
+  private async hasNewMailInSecondaryMailboxes(): Promise<boolean> {
+    for (const path of this.mailboxes.slice(1)) {
+      if (await this.hasNewMailInMailbox(path)) return true
+    }
+    return false
+  }
+
+  private async hasNewMailInMailbox(path: string): Promise<boolean> {
+    if (!this.imapFlow) return false
+
+    try {
+      const status = await this.imapFlow.status(path, { uidNext: true, uidValidity: true })
+      const watermark = await this.loadWatermark(path)
+      if (!watermark) return true
+      if (status.uidValidity !== undefined && String(status.uidValidity) !== watermark.uidValidity) return true
+      return (status.uidNext || 0) - 1 > watermark.lastUid
+    } catch (err) {
+      logger.warn('%s 查询文件夹 %s 状态失败: %s', this.account.email, path, (err as Error).message)
+      return false
+    }
+  }
+
+  private async loadWatermark(path: string): Promise<MailboxWatermark | null> {
+    const cached = this.watermarks.get(path)
+    if (cached) return cached
+    if (!this.stateStore) return null
+
+    try {
+      const stored = await this.stateStore.load(path)
+      if (stored) this.watermarks.set(path, stored)
+      return stored
+    } catch (err) {
+      logger.warn('%s 读取 %s 水位线失败: %s', this.account.email, path, (err as Error).message)
+      return null
+    }
+  }
+
+  private async saveWatermark(path: string, watermark: MailboxWatermark): Promise<void> {
+    this.watermarks.set(path, watermark)
+    if (!this.stateStore) return
+
+    try {
+      await this.stateStore.save(path, watermark)
+    } catch (err) {
+      logger.warn('%s 保存 %s 水位线失败: %s', this.account.email, path, (err as Error).message)
+    }
+  }
+
+  /**
+   * 重新选中主文件夹
+   *
+   * 切换到其他文件夹处理完成后调用，确保 IDLE/EXISTS 继续作用于主文件夹。
+   */
+  private async reopenPrimaryMailbox(): Promise<void> {
+    if (!this.imapFlow || this.disposed || !this.state.isConnected) return
+    if (this.imapFlow.mailbox && this.imapFlow.mailbox.path === this.primaryMailbox) return
+
+    try {
+      await this.imapFlow.mailboxOpen(this.primaryMailbox, { readOnly: this.readOnly })
+    } catch (err) {
+      logger.warn('%s 重新打开 %s 失败: %s', this.account.email, this.primaryMailbox, (err as Error).message)
+    }
+  }
+
+  private get primaryMailbox(): string {
+    return this.mailboxes[0]
+  }
+
+  /** 观察者模式：只读打开文件夹，不写入任何标记 */
+  private get readOnly(): boolean {
+    return !!this.account.readOnly
+  }
+
+  /**
+   * 搜索 UID 大于水位线的邮件
+   *
+   * `n:*` 在没有新邮件时仍会返回最后一封邮件的 UID，需要再过滤一次。
+   */
+  private async searchUidsAbove(lastUid: number): Promise<number[]> {
     if (!this.imapFlow) return []
 
-    const criteria: Record<string, unknown> = { seen: false }
+    const results = await this.imapFlow.search({ uid: `${lastUid + 1}:*` }, { uid: true })
+    return (results || []).filter(uid => uid > lastUid).sort((a, b) => a - b)
+  }
+
+  /**
+   * UIDVALIDITY 变化后需要重新拉取的邮件（限定在保留期内）
+   */
+  private async searchResyncUids(): Promise<number[]> {
+    if (!this.imapFlow) return []
+
+    const criteria: Record<string, unknown> = { all: true }
 
     if (this.retentionDays > 0) {
       const since = new Date()
       since.setDate(since.getDate() - this.retentionDays)
       criteria.since = since
-      logger.debug('搜索 %s 以来的未读邮件 (保留 %d 天)',
+      logger.debug('重新同步 %s 以来的邮件 (保留 %d 天)',
         since.toISOString().split('T')[0], this.retentionDays)
     }
 
     const results = await this.imapFlow.search(criteria, { uid: true })
-    return results || []
+    return (results || []).sort((a, b) => a - b)
   }
 
-  private async fetchAndNotifyMail(uid: number): Promise<void> {
+  /**
+   * 拉取并交付一封新邮件
+   *
+   * @returns 是否已处理完毕；过大、无数据等主动跳过的邮件也算处理完毕，拉取、解析或入库失败时返回 false
+   */
+  private async fetchAndNotifyMail(uid: number): Promise<boolean> {
+    let mail: ParsedMail | null
     try {
-      const mail = await this.downloadMail(uid)
-      if (mail) {
-        await this.markAsSeen(uid)
-        this.onMailReceived(mail)
-      }
+      mail = await this.fetchMail(uid)
+      if (mail) await this.onMailReceived(mail)
     } catch (err) {
       logger.error('处理邮件 %s 失败: %s', uid, (err as Error).message)
+      return false
+    }
+
+    // 新邮件由水位线判定，\Seen 只是交付后的附带操作，失败不影响处理结果
+    if (mail) {
+      await this.markAsSeen(uid).catch((err) => {
+        logger.warn('标记邮件 %s 为已读失败: %s', uid, (err as Error).message)
+      })
     }
+    return true
   }
 
   // ==================== 内部逻辑：邮件同步 ====================
 
+  private async syncMailbox(
+    path: string,
+    days?: number,
+    onBatch?: (mails: ParsedMail[]) => Promise<void>,
+    existingMessageIds?: Set<string>
+  ): Promise<{ total: number; synced: number; skippedExisting: number }> {
+    const allUids = await this.findMailsToSync(days)
+
+    if (allUids.length === 0) {
+      logger.debug('%s/%s 无邮件需同步', this.account.email, path)
+      return { total: 0, synced: 0, skippedExisting: 0 }
+    }
+
+    const { candidates, skipped } = await this.filterExistingMailsByMessageId(allUids, existingMessageIds)
+    const uids = candidates
+
+    if (uids.length === 0) {
+      logger.debug('%s/%s 待同步邮件均已存在', this.account.email, path)
+      return { total: allUids.length, synced: 0, skippedExisting: skipped }
+    }
+
+    logger.debug('%s/%s 发现 %d/%d 封邮件需同步', this.account.email, path, uids.length, allUids.length)
+
+    const result = await this.processMailSyncBatches(uids, onBatch)
+    this.logSyncSummary(result, uids.length)
+
+    return { total: allUids.length, synced: result.synced, skippedExisting: skipped }
+  }
+
   private async findMailsToSync(days?: number): Promise<number[]> {
     if (!this.imapFlow) return []
 
@@ -1272,58 +1672,72 @@ export class ImapConnection {
   }
 
   private async downloadMail(uid: number): Promise<ParsedMail | null> {
-    if (!this.imapFlow) return null
-
     try {
-      // 首先获取邮件大小（不下载内容）
-      const sizeInfo = await this.imapFlow.fetchOne(String(uid), { size: true }, { uid: true })
-      if (sizeInfo && sizeInfo.size && sizeInfo.size > SYNC_STRATEGY.MAX_MAIL_SIZE) {
-        logger.debug('邮件 %s 过大 (%d > %d bytes)，跳过',
-          uid, sizeInfo.size, SYNC_STRATEGY.MAX_MAIL_SIZE)
-        return null
-      }
+      return await this.fetchMail(uid)
+    } catch (err) {
+      logger.error('下载/解析邮件 %s 失败: %s', uid, (err as Error).message)
+      return null
+    }
+  }
 
-      const message = await this.imapFlow.fetchOne(String(uid), { source: true }, { uid: true })
-      if (!message || !message.source) {
-        logger.debug('邮件 %s 无数据', uid)
-        return null
-      }
+  /**
+   * 下载并解析邮件
+   *
+   * 过大、无数据或验证失败的邮件返回 null；网络或解析错误直接抛出
+   */
+  private async fetchMail(uid: number): Promise<ParsedMail | null> {
+    if (!this.imapFlow) throw new Error('Client not initialized')
 
-      // 再次检查实际下载的大小
-      const sourceBuffer = Buffer.isBuffer(message.source)
-        ? message.source
-        : Buffer.from(message.source)
-      if (sourceBuffer.length > SYNC_STRATEGY.MAX_MAIL_SIZE) {
-        logger.debug('邮件 %s 实际大小 (%d bytes) 超限，跳过', uid, sourceBuffer.length)
-        return null
-      }
+    // 首先获取邮件大小（不下载内容）
+    const sizeInfo = await this.imapFlow.fetchOne(String(uid), { size: true }, { uid: true })
+    if (sizeInfo && sizeInfo.size && sizeInfo.size > SYNC_STRATEGY.MAX_MAIL_SIZE) {
+      logger.debug('邮件 %s 过大 (%d > %d bytes)，跳过',
+        uid, sizeInfo.size, SYNC_STRATEGY.MAX_MAIL_SIZE)
+      return null
+    }
 
-      const parsedMail = await parseMail(sourceBuffer)
+    const message = await this.imapFlow.fetchOne(String(uid), { source: true, flags: true }, { uid: true })
+    if (!message || !message.source) {
+      logger.debug('邮件 %s 无数据', uid)
+      return null
+    }
 
-      if (!this.validateMail(parsedMail)) {
-        logger.debug('邮件 %s 验证失败，跳过', uid)
-        return null
-      }
+    // 再次检查实际下载的大小
+    const sourceBuffer = Buffer.isBuffer(message.source)
+      ? message.source
+      : Buffer.from(message.source)
+    if (sourceBuffer.length > SYNC_STRATEGY.MAX_MAIL_SIZE) {
+      logger.debug('邮件 %s 实际大小 (%d bytes) 超限，跳过', uid, sourceBuffer.length)
+      return null
+    }
 
-      return parsedMail
-    } catch (err) {
-      logger.error('下载/解析邮件 %s 失败: %s', uid, (err as Error).message)
+    const parsedMail = await parseMail(sourceBuffer)
+
+    if (!this.validateMail(parsedMail)) {
+      logger.debug('邮件 %s 验证失败，跳过', uid)
       return null
     }
+
+    // 记录邮件在服务器上的位置
+    parsedMail.uid = uid
+    parsedMail.mailbox = this.imapFlow?.mailbox ? this.imapFlow.mailbox.path : undefined
+    parsedMail.flags = message.flags ? [...message.flags] : undefined
+
+    return parsedMail
   }
 
   private async markAsSeen(uid: number): Promise<void> {
-    if (!this.imapFlow) return
+    if (!this.imapFlow || this.readOnly) return
     await this.imapFlow.messageFlagsAdd(String(uid), ['\\Seen'], { uid: true })
   }
 
   // ==================== 辅助方法 ====================
 
-  private async withMailboxLock<T>(action: () => Promise<T>): Promise<T> {
+  private async withMailboxLock<T>(path: string, action: () => Promise<T>): Promise<T> {
     if (!this.imapFlow) throw new Error('Client not initialized')
 
     try {
-      this.mailboxLock = await this.imapFlow.getMailboxLock('INBOX')
+      this.mailboxLock = await this.imapFlow.getMailboxLock(path, { readOnly: this.readOnly })
       return await action()
     } catch (err) {
       logger.error('邮箱操作失败: %s', (err as Error).message)
@@ -1446,6 +1860,36 @@ export class ImapConnection {
 
 // ==================== 数据转换工具 ====================
 
+/**
+ * 计算一批邮件处理后的水位线
+ *
+ * 按 UID 顺序推进，遇到第一封处理失败的邮件即停止，保证失败的邮件在下次扫描时重试
+ *
+ * @param uids 本批次的 UID（升序）
+ * @param results 与 uids 一一对应的处理结果
+ */
+export function advanceWatermark(lastUid: number, uids: number[], results: boolean[]): number {
+  for (let i = 0; i < uids.length; i++) {
+    if (!results[i]) break
+    lastUid = uids[i]
+  }
+  return lastUid
+}
+
+/**
+ * 规范化监听文件夹列表
+ *
+ * 去除空白与重复项，列表为空时回退到 INBOX。
+ */
+export function normalizeMailboxes(mailboxes?: string[] | null): string[] {
+  const result: string[] = []
+  for (const item of mailboxes || []) {
+    const path = typeof item === 'string' ? item.trim() : ''
+    if (path && !result.includes(path)) result.push(path)
+  }
+  return result.length > 0 ? result : ['INBOX']
+}
+
 export function parseMailAddress(addr: unknown): MailAddress | null {
   if (!addr) return null
 
@@ -1524,16 +1968,28 @@ export function convertParsedMail(accountId: number, mail: ParsedMail): Omit<Sto
   const fromAddresses = parseMailAddresses(mail.from)
   const fromAddress = fromAddresses[0] || { address: 'unknown@unknown' }
 
+  const messageId = mail.messageId || generateRandomId()
+
   return {
     accountId,
-    messageId: mail.messageId || generateRandomId(),
+    direction: 'inbound',
+    messageId,
     from: fromAddress,
     to: parseMailAddresses(mail.to),
     cc: parseMailAddresses(mail.cc),
+    replyTo: mail.replyTo?.length ? parseMailAddresses(mail.replyTo) : undefined,
+    references: mail.references,
+    inReplyTo: mail.inReplyTo,
+    threadId: getThreadId(messageId, mail.references, mail.inReplyTo),
+    mailbox: mail.mailbox,
+    uid: mail.uid,
+    serverFlags: mail.flags,
     subject: mail.subject || '(无主题)',
     textContent,
     htmlContent: htmlContent || undefined,
     attachments: processAttachments(mail.attachments),
+    size: mail.size,
+    headers: mail.headers,
     receivedAt: mail.date || new Date(),
     isRead: false,
     isForwarded: false,
@@ -0,0 +1,187 @@
+/**
+ * HTTP 推送收信路由
+ *
+ * 让邮件转发服务（如 Email Worker）或 CI 系统把原始邮件直接推送给插件：
+ * - `Authorization: Bearer <token>` 鉴权，令牌绑定到某个 HTTP 推送账号
+ * - 请求体为原始 RFC822 邮件，或 `{ raw, encoding?, mailbox? }` JSON 信封
+ * - 大小上限与 IMAP 拉取一致（SYNC_STRATEGY.MAX_MAIL_SIZE）
+ *
+ * 收到的邮件与 IMAP 新邮件一样入库、去重并触发自动转发。
+ */
+
+import type { IncomingMessage } from 'http'
+import { Context } from 'koishi'
+import * as core from './core'
+import { Config } from './config'
+import { getLogger, LogModule } from './logger'
+import { parseMail, type ParsedMail } from './parser'
+import { SYNC_STRATEGY } from './utils'
+
+/** 未指定文件夹时推送的邮件归入收件箱 */
+const DEFAULT_MAILBOX = 'INBOX'
+
+/** base64 编码与 JSON 包装带来的额外体积 */
+const JSON_ENVELOPE_OVERHEAD = 64 * 1024
+
+/** JSON 信封格式 */
+interface InboundEnvelope {
+  /** 原始邮件内容 */
+  raw: string
+  /** raw 的编码，默认 utf8 */
+  encoding?: 'utf8' | 'base64'
+  /** 归入的文件夹名，仅用于展示与规则匹配 */
+  mailbox?: string
+}
+
+/** 请求处理失败，附带 HTTP 状态码 */
+class InboundError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message)
+    this.name = 'InboundError'
+  }
+}
+
+/** 注册 HTTP 推送路由 */
+export function registerInboundRoute(ctx: Context, config: Config): void {
+  const path = config.inboundHttpPath
+
+  // 跳过服务器自带的 body 解析（其大小上限与本路由不一致，且不保留原始字节）
+  ctx.server.post(path, withRawBody(async (koa) => {
+    koa.set('Cache-Control', 'no-store')
+    try {
+      const result = await handleInboundRequest(koa.get('authorization'), koa.get('content-type'), koa.req)
+      koa.status = 200
+      koa.body = { success: true, ...result }
+    } catch (err) {
+      const status = err instanceof InboundError ? err.status : 500
+      const message = (err as Error).message
+      if (status >= 500) {
+        safeLog('error', `HTTP 推送处理失败: ${message}`)
+      } else {
+        safeLog('debug', `HTTP 推送被拒绝 (${status}): ${message}`)
+      }
+      koa.status = status
+      koa.body = { success: false, error: message }
+    }
+  }))
+
+  safeLog('debug', `HTTP 推送路由已注册: POST ${path}`)
+}
+
+async function handleInboundRequest(
+  authorization: string,
+  contentType: string,
+  req: IncomingMessage
+): Promise<{ mailId: number | null; duplicate: boolean }> {
+  const token = /^Bearer\s+(\S+)$/i.exec(authorization.trim())?.[1]
+  if (!token) {
+    throw new InboundError(401, '缺少推送令牌（Authorization: Bearer <token>）')
+  }
+
+  let account: Awaited<ReturnType<typeof core.findAccountByInboundToken>>
+  try {
+    account = await core.findAccountByInboundToken(token)
+  } catch {
+    throw new InboundError(503, '邮件服务尚未就绪')
+  }
+  if (!account) {
+    throw new InboundError(401, '推送令牌无效')
+  }
+  if (!account.enabled) {
+    throw new InboundError(403, `账号 ${account.email} 未启用`)
+  }
+
+  const isJson = /^application\/(?:[\w.+-]+\+)?json\b/i.test(contentType)
+  const limit = SYNC_STRATEGY.MAX_MAIL_SIZE
+  const body = await readBody(req, isJson ? Math.ceil(limit * 4 / 3) + JSON_ENVELOPE_OVERHEAD : limit)
+
+  let source: Buffer = body
+  let mailbox = DEFAULT_MAILBOX
+  if (isJson) {
+    const envelope = parseEnvelope(body)
+    source = Buffer.from(envelope.raw, envelope.encoding === 'base64' ? 'base64' : 'utf8')
+    mailbox = envelope.mailbox?.trim() || DEFAULT_MAILBOX
+  }
+  if (source.length === 0) {
+    throw new InboundError(400, '邮件内容为空')
+  }
+  if (source.length > limit) {
+    throw new InboundError(413, `邮件超过大小上限 (${limit} bytes)`)
+  }
+
+  let parsed: ParsedMail
+  try {
+    parsed = await parseMail(source)
+  } catch (err) {
+    throw new InboundError(400, `邮件解析失败: ${(err as Error).message}`)
+  }
+  if (!parsed.from || (!parsed.subject && !parsed.text && !parsed.html)) {
+    throw new InboundError(422, '邮件缺少发件人或内容')
+  }
+  parsed.mailbox = mailbox
+
+  const mail = await core.ingestMail(account.id, parsed)
+  safeLog('debug', `${account.email} 收到 HTTP 推送邮件${mail ? ` #${mail.id}` : '（已存在）'}`)
+  return { mailId: mail?.id ?? null, duplicate: !mail }
+}
+
+function parseEnvelope(body: Buffer): InboundEnvelope {
+  let data: any
+  try {
+    data = JSON.parse(body.toString('utf8'))
+  } catch {
+    throw new InboundError(400, 'JSON 格式错误')
+  }
+  if (!data || typeof data.raw !== 'string') {
+    throw new InboundError(400, 'JSON 信封缺少 raw 字段')
+  }
+  if (data.encoding !== undefined && data.encoding !== 'utf8' && data.encoding !== 'base64') {
+    throw new InboundError(400, 'encoding 只支持 utf8 或 base64')
+  }
+  if (data.mailbox !== undefined && typeof data.mailbox !== 'string') {
+    throw new InboundError(400, 'mailbox 必须是字符串')
+  }
+  return data
+}
+
+/**
+ * 读取请求体，超过上限时立即中止
+ */
+function readBody(req: IncomingMessage, limit: number): Promise<Buffer> {
+  const declared = Number(req.headers['content-length'])
+  if (declared > limit) {
+    return Promise.reject(new InboundError(413, `请求体超过大小上限 (${limit} bytes)`))
+  }
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    let size = 0
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length
+      if (size > limit) {
+        req.removeAllListeners('data')
+        req.resume()
+        reject(new InboundError(413, `请求体超过大小上限 (${limit} bytes)`))
+        return
+      }
+      chunks.push(chunk)
+    })
+    req.on('end', () => resolve(Buffer.concat(chunks)))
+    req.on('error', reject)
+  })
+}
+
+/**
+ * 标记路由跳过 @koishijs/plugin-server 的 body 解析
+ */
+function withRawBody<T extends (...args: any[]) => any>(handler: T): T {
+  return Object.assign(handler, { [Symbol.for('noParseBody')]: true })
+}
+
+function safeLog(level: 'debug' | 'error', message: string): void {
+  try {
+    getLogger()[level](LogModule.MAIL, message)
+  } catch {
+    // 卸载窗口期忽略日志错误
+  }
+}
@@ -4,8 +4,9 @@ import { } from '@koishijs/plugin-console'
 import { } from '@koishijs/plugin-server'
 
 import { extendDatabase } from './database'
-import { initCore, setDebugMode } from './core'
+import { initCore, setDebugMode, sendMail } from './core'
 import { registerConsoleApi } from './api'
+import { registerInboundRoute } from './inbound'
 import { createLogger, setGlobalLogger } from './logger'
 import { Config } from './config'
 import { registerCommands } from './commands'
@@ -60,6 +61,8 @@ export function apply(ctx: Context, config: Config) {
   ctx.on('ready', async () => {
     try {
       await initCore(ctx, config)
+      // 核心就绪后再提供服务，依赖 mailManager 的插件不会在初始化前调用
+      ctx.set('mailManager', { send: sendMail })
       logger.info('', '启动完成')
     } catch (err) {
       logger.error('', `启动失败: ${(err as Error).message}`)
@@ -67,6 +70,7 @@ export function apply(ctx: Context, config: Config) {
   })
 
   registerConsoleApi(ctx, config)
+  registerInboundRoute(ctx, config)
   ctx.console.addEntry({
     dev: resolve(__dirname, '../client/index.ts'),
     prod: resolve(__dirname, '../dist'),
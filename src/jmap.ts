@@ -0,0 +1,980 @@
+/**
+ * JMAP 邮件连接管理模块 (RFC 8620 / RFC 8621)
+ *
+ * 为 Fastmail、Stalwart 等 JMAP 服务器提供与 IMAP 相同的新邮件流：
+ * 1. 通过 EventSource 接收推送，按 Email 状态字符串调用 Email/changes 增量拉取
+ * 2. 服务器不提供 EventSource 时退化为定时轮询
+ * 3. 复用账号状态上报与指数退避重连
+ *
+ * JMAP 中读取邮件不会改变任何标记，因此天然满足只读观察模式。
+ */
+
+import { Context } from 'koishi'
+import type { MailAccount, MailboxInfo } from './types'
+import type { MailSourceConnection, MailSyncResult } from './connection'
+import { SafeLogger, normalizeMailboxes } from './imap'
+import { parseMail, type ParsedMail } from './parser'
+import { MailProviderFactory, type MailProviderAdapter } from './providers'
+import {
+  SYNC_STRATEGY,
+  getFriendlyErrorMessage,
+} from './utils'
+
+const logger = new SafeLogger()
+
+const CORE_CAPABILITY = 'urn:ietf:params:jmap:core'
+const MAIL_CAPABILITY = 'urn:ietf:params:jmap:mail'
+
+/** 无推送时的默认轮询间隔（服务商未指定时） */
+const DEFAULT_POLL_INTERVAL = 120 * 1000
+
+/** 单次 Email/changes 最多返回的变更数 */
+const MAX_CHANGES = 256
+
+/** 单次 Email/get / Email/query 处理的邮件数 */
+const PAGE_SIZE = 100
+
+/** EventSource 心跳间隔（秒），超过 2.5 倍未收到数据视为断开 */
+const EVENT_PING_INTERVAL = 60
+
+/** 收件箱统一显示为 INBOX，与 IMAP 账号的文件夹配置保持一致 */
+const INBOX_PATH = 'INBOX'
+
+/** Email 状态是账号级的，在 mailbox_states 中以该键保存 */
+export const JMAP_STATE_MAILBOX = '*'
+
+// ==================== 状态存储 ====================
+
+/**
+ * Email 状态字符串持久化接口
+ *
+ * 由核心模块注入，连接层不直接访问数据库。
+ */
+export interface JmapStateStore {
+  /** 读取上次处理完成时的 Email 状态；账号从未初始化时返回 null */
+  load(): Promise<string | null>
+  save(state: string): Promise<void>
+}
+
+// ==================== 协议客户端 ====================
+
+/** JMAP 请求失败 */
+export class JmapRequestError extends Error {
+  /** HTTP 状态码 */
+  status?: number
+  /** JMAP 错误类型（如 cannotCalculateChanges） */
+  type?: string
+  /** 是否为认证失败 */
+  authenticationFailed?: boolean
+
+  constructor(message: string, options: { status?: number; type?: string } = {}) {
+    super(message)
+    this.name = 'JmapRequestError'
+    this.status = options.status
+    this.type = options.type
+    this.authenticationFailed = options.status === 401
+  }
+}
+
+interface JmapClientOptions {
+  /** Session 资源地址 */
+  sessionUrl: string
+  username: string
+  password?: string
+  accessToken?: string
+  timeout: number
+}
+
+interface JmapSession {
+  apiUrl: string
+  downloadUrl: string
+  eventSourceUrl?: string
+  accountId: string
+}
+
+interface JmapMailbox {
+  id: string
+  name: string
+  parentId: string | null
+  role: string | null
+}
+
+interface JmapEmail {
+  id: string
+  blobId: string
+  mailboxIds: Record<string, boolean>
+  size?: number
+  messageId?: string[] | null
+}
+
+/**
+ * 精简的 JMAP 客户端
+ *
+ * 密码认证时依次尝试 Basic 与 Bearer（Fastmail 等服务商的 API 令牌走 Bearer）。
+ */
+export class JmapClient {
+  private session: JmapSession | null = null
+  private authorization: string | null = null
+
+  constructor(private readonly options: JmapClientOptions) {}
+
+  get eventSourceUrl(): string | undefined {
+    return this.session?.eventSourceUrl
+  }
+
+  get accountId(): string {
+    return this.requireSession().accountId
+  }
+
+  /**
+   * 获取 Session 并确定认证方式
+   */
+  async connect(): Promise<void> {
+    const candidates = this.options.accessToken
+      ? [`Bearer ${this.options.accessToken}`]
+      : [
+        `Basic ${Buffer.from(`${this.options.username}:${this.options.password || ''}`).toString('base64')}`,
+        `Bearer ${this.options.password || ''}`,
+      ]
+
+    let lastError: JmapRequestError | null = null
+    for (const authorization of candidates) {
+      const response = await this.request(this.options.sessionUrl, { authorization })
+      if (response.status === 401) {
+        lastError = new JmapRequestError('JMAP 认证失败，请检查账号与密码/令牌', { status: 401 })
+        continue
+      }
+      const data = await this.readJson(response)
+      this.session = parseSession(data, this.options.sessionUrl)
+      this.authorization = authorization
+      return
+    }
+    throw lastError!
+  }
+
+  /**
+   * 执行方法调用，按顺序返回每个调用的结果参数
+   */
+  async call(methodCalls: Array<[string, Record<string, unknown>]>): Promise<any[]> {
+    const session = this.requireSession()
+    const response = await this.request(session.apiUrl, {
+      method: 'POST',
+      body: JSON.stringify({
+        using: [CORE_CAPABILITY, MAIL_CAPABILITY],
+        methodCalls: methodCalls.map(([name, args], index) => [name, { accountId: session.accountId, ...args }, `c${index}`]),
+      }),
+    })
+    const data = await this.readJson(response)
+    if (!Array.isArray(data?.methodResponses)) {
+      throw new JmapRequestError('JMAP 响应格式错误：缺少 methodResponses')
+    }
+
+    return data.methodResponses.map(([name, args]: [string, any]) => {
+      if (name === 'error') {
+        const description = args?.description ? ` - ${args.description}` : ''
+        throw new JmapRequestError(`JMAP 方法调用失败 (${args?.type})${description}`, { type: args?.type })
+      }
+      return args
+    })
+  }
+
+  async getMailboxes(): Promise<JmapMailbox[]> {
+    const [result] = await this.call([['Mailbox/get', { ids: null, properties: ['id', 'name', 'parentId', 'role'] }]])
+    return result.list || []
+  }
+
+  /** 当前的 Email 状态字符串 */
+  async getEmailState(): Promise<string> {
+    const [result] = await this.call([['Email/get', { ids: [] }]])
+    return String(result.state)
+  }
+
+  /**
+   * 获取自 sinceState 以来新建的邮件 ID
+   *
+   * @returns 服务器无法计算变更（状态过旧）时返回 null
+   */
+  async getCreatedSince(sinceState: string): Promise<{ created: string[]; newState: string } | null> {
+    const created: string[] = []
+    let state = sinceState
+
+    for (;;) {
+      let result: any
+      try {
+        [result] = await this.call([['Email/changes', { sinceState: state, maxChanges: MAX_CHANGES }]])
+      } catch (err) {
+        if ((err as JmapRequestError).type === 'cannotCalculateChanges') return null
+        throw err
+      }
+      created.push(...(result.created || []))
+      state = String(result.newState)
+      if (!result.hasMoreChanges) break
+    }
+
+    return { created, newState: state }
+  }
+
+  async getEmails(ids: string[], properties: string[]): Promise<JmapEmail[]> {
+    const emails: JmapEmail[] = []
+    for (let i = 0; i < ids.length; i += PAGE_SIZE) {
+      const [result] = await this.call([['Email/get', { ids: ids.slice(i, i + PAGE_SIZE), properties }]])
+      emails.push(...(result.list || []))
+    }
+    return emails
+  }
+
+  async queryEmails(filter: Record<string, unknown>, position: number): Promise<string[]> {
+    const [result] = await this.call([['Email/query', {
+      filter,
+      sort: [{ property: 'receivedAt', isAscending: false }],
+      position,
+      limit: PAGE_SIZE,
+    }]])
+    return result.ids || []
+  }
+
+  /** 下载邮件原文 */
+  async download(blobId: string): Promise<Buffer> {
+    const session = this.requireSession()
+    const url = expandTemplate(session.downloadUrl, {
+      accountId: session.accountId,
+      blobId,
+      name: 'message.eml',
+      type: 'message/rfc822',
+    })
+    const response = await this.request(url)
+    if (!response.ok) {
+      throw new JmapRequestError(`下载邮件失败 (HTTP ${response.status})`, { status: response.status })
+    }
+    return Buffer.from(await response.arrayBuffer())
+  }
+
+  /**
+   * 打开 EventSource 推送流
+   *
+   * 不设置整体超时，由调用方通过 signal 控制生命周期。
+   */
+  async openEventSource(signal: AbortSignal): Promise<ReadableStream<Uint8Array>> {
+    const session = this.requireSession()
+    if (!session.eventSourceUrl) {
+      throw new JmapRequestError('服务器不支持 EventSource 推送')
+    }
+    const url = expandTemplate(session.eventSourceUrl, {
+      types: 'Email',
+      closeafter: 'no',
+      ping: String(EVENT_PING_INTERVAL),
+    })
+    const response = await fetch(url, {
+      headers: { Authorization: this.authorization!, Accept: 'text/event-stream' },
+      signal,
+    })
+    if (!response.ok || !response.body) {
+      throw new JmapRequestError(`EventSource 连接失败 (HTTP ${response.status})`, { status: response.status })
+    }
+    return response.body
+  }
+
+  private async request(
+    url: string,
+    options: { method?: string; body?: string; authorization?: string } = {}
+  ): Promise<Response> {
+    const response = await fetch(url, {
+      method: options.method || 'GET',
+      headers: {
+        Authorization: options.authorization || this.authorization || '',
+        Accept: 'application/json',
+        ...(options.body ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body: options.body,
+      signal: AbortSignal.timeout(this.options.timeout),
+    })
+    if (response.status === 401 && !options.authorization) {
+      throw new JmapRequestError('JMAP 认证失败，请检查账号与密码/令牌', { status: 401 })
+    }
+    return response
+  }
+
+  private async readJson(response: Response): Promise<any> {
+    const text = await response.text()
+    let data: any = null
+    try {
+      data = text ? JSON.parse(text) : null
+    } catch {
+      // 非 JSON 响应按 HTTP 错误处理
+    }
+    if (!response.ok) {
+      const detail = data?.detail || data?.title || text.slice(0, 200)
+      throw new JmapRequestError(`JMAP 请求失败 (HTTP ${response.status})${detail ? `: ${detail}` : ''}`, {
+        status: response.status,
+        type: data?.type,
+      })
+    }
+    return data
+  }
+
+  private requireSession(): JmapSession {
+    if (!this.session) throw new JmapRequestError('JMAP 会话未建立')
+    return this.session
+  }
+}
+
+// ==================== 连接管理 ====================
+
+/**
+ * JMAP 连接管理器
+ *
+ * 对外表现与 ImapConnection 一致：状态上报、失败后指数退避重连、手动同步。
+ */
+export class JmapConnection implements MailSourceConnection {
+  private client: JmapClient | null = null
+  private state = {
+    isConnecting: false,
+    isConnected: false,
+  }
+
+  private disposed = false
+  private pollTimer: (() => void) | null = null
+  private reconnectTimer: (() => void) | null = null
+  private watchdogTimer: (() => void) | null = null
+  private eventAbort: AbortController | null = null
+  private reconnectAttempts = 0
+  private lastConnectError: Error | null = null
+
+  // 增量同步串行执行，推送与轮询可能同时触发
+  private syncQueue: Promise<unknown> = Promise.resolve()
+  private emailState: string | null = null
+
+  /** 被监听文件夹的 ID -> 路径 */
+  private watchedMailboxes = new Map<string, string>()
+
+  // OAuth2：认证失败后强制刷新一次访问令牌再重试
+  private forceTokenRefresh = false
+  private tokenRefreshRetried = false
+
+  private readonly provider: MailProviderAdapter
+
+  constructor(
+    private readonly ctx: Context,
+    private readonly account: MailAccount,
+    private readonly config: {
+      maxReconnectAttempts: number
+      reconnectBaseInterval: number
+      reconnectMaxInterval: number
+      reconnectJitterRatio: number
+      connectionTimeout: number
+      healthCheckInterval: number
+    },
+    private readonly onMailReceived: (mail: ParsedMail) => Promise<void> | void,
+    private readonly onStatusChanged?: (status: MailAccount['status'], error?: string) => void,
+    private readonly stateStore?: JmapStateStore,
+    private readonly accessTokenProvider?: (forceRefresh: boolean) => Promise<string>
+  ) {
+    this.provider = MailProviderFactory.getProvider(account)
+    logger.debug('使用 JMAP (%s 配置): %s', this.provider.displayName, account.email)
+  }
+
+  // ==================== 公共 API ====================
+
+  get status(): MailAccount['status'] {
+    if (this.state.isConnecting) return 'connecting'
+    if (this.state.isConnected) return 'connected'
+    return 'disconnected'
+  }
+
+  isTerminallyFailed(): boolean {
+    if (this.disposed) return true
+    return this.reconnectAttempts > this.config.maxReconnectAttempts && !this.state.isConnected
+  }
+
+  /**
+   * 建立连接
+   *
+   * 获取 Session 后先按保存的状态字符串补齐离线期间的新邮件，再开启推送。
+   */
+  async connect(): Promise<void> {
+    if (this.disposed) {
+      logger.debug('%s 已销毁，跳过连接', this.account.email)
+      return
+    }
+    this.cancelReconnect()
+    this.stopPolling()
+    this.closeEventSource()
+
+    if (this.account.proxyUrl) {
+      logger.warn('%s JMAP 暂不支持代理，将直接连接', this.account.email)
+    }
+
+    this.state.isConnecting = true
+    this.state.isConnected = false
+    this.notifyStatus('connecting')
+
+    try {
+      const client = await this.createClient()
+      await client.connect()
+      this.client = client
+      await this.loadWatchedMailboxes()
+      await this.runSync()
+      this.markAsConnected()
+      this.startListening()
+    } catch (error) {
+      this.handleConnectionFailure(error as Error)
+      throw error
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.disposed) return
+    this.disposed = true
+
+    this.stopPolling()
+    this.cancelReconnect()
+    this.closeEventSource()
+
+    const wasActive = this.state.isConnected
+    this.state.isConnecting = false
+    this.state.isConnected = false
+
+    await this.syncQueue.catch(() => {})
+    this.client = null
+
+    logger.debug('%s 已断开', this.account.email)
+    if (wasActive) {
+      this.notifyStatus('disconnected')
+    }
+  }
+
+  resetReconnectAttempts(): void {
+    this.reconnectAttempts = 0
+  }
+
+  /**
+   * 同步邮件
+   *
+   * 按接收时间倒序查询被监听的文件夹，先比对 Message-ID，只下载本地缺失的邮件。
+   */
+  async syncMails(
+    days?: number,
+    onBatch?: (mails: ParsedMail[]) => Promise<void>,
+    existingMessageIds?: Set<string>
+  ): Promise<MailSyncResult> {
+    const client = this.client
+    if (!client || !this.state.isConnected) {
+      throw new Error('未连接到邮箱服务器')
+    }
+
+    const after = days && days > 0 ? new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString() : undefined
+    const summary: MailSyncResult = { total: 0, synced: 0, skippedExisting: 0 }
+    const seen = new Set<string>()
+    let batch: ParsedMail[] = []
+
+    for (const [mailboxId, path] of this.watchedMailboxes) {
+      for (let position = 0; ; position += PAGE_SIZE) {
+        const ids = (await client.queryEmails({ inMailbox: mailboxId, ...(after ? { after } : {}) }, position))
+          .filter(id => !seen.has(id))
+        if (ids.length === 0) break
+        ids.forEach(id => seen.add(id))
+
+        const emails = await client.getEmails(ids, ['id', 'blobId', 'size', 'messageId'])
+        for (const email of emails) {
+          summary.total++
+          const messageId = email.messageId?.[0]
+          if (messageId && (existingMessageIds?.has(messageId) || existingMessageIds?.has(`<${messageId}>`))) {
+            summary.skippedExisting++
+            continue
+          }
+
+          const mail = await this.downloadMail(client, email, path)
+          if (!mail) continue
+          batch.push(mail)
+          summary.synced++
+
+          if (batch.length >= SYNC_STRATEGY.BATCH_SIZE) {
+            await onBatch?.(batch)
+            batch = []
+          }
+        }
+      }
+    }
+
+    if (batch.length > 0) await onBatch?.(batch)
+    logger.debug('%s JMAP 同步完成: %d/%d', this.account.email, summary.synced, summary.total)
+    return summary
+  }
+
+  /**
+   * 静态测试方法
+   */
+  static async testConnection(account: Partial<MailAccount>): Promise<{ success: boolean; message: string }> {
+    try {
+      const client = createClient(account, 10000)
+      await client.connect()
+      const mailboxes = await client.getMailboxes()
+      return { success: true, message: `连接测试成功（共 ${mailboxes.length} 个文件夹）` }
+    } catch (error) {
+      return { success: false, message: (error as Error).message }
+    }
+  }
+
+  /**
+   * 列出服务器上的文件夹
+   */
+  static async listMailboxes(account: Partial<MailAccount>): Promise<MailboxInfo[]> {
+    const client = createClient(account, 15000)
+    await client.connect()
+    const mailboxes = await client.getMailboxes()
+    const paths = buildMailboxPaths(mailboxes)
+    return mailboxes
+      .map(mailbox => ({
+        path: paths.get(mailbox.id)!,
+        name: mailbox.role === 'inbox' ? INBOX_PATH : mailbox.name,
+        delimiter: '/',
+        specialUse: mailbox.role && mailbox.role !== 'inbox'
+          ? `\\${mailbox.role.charAt(0).toUpperCase()}${mailbox.role.slice(1)}`
+          : undefined,
+      }))
+      .sort((a, b) => (a.path === INBOX_PATH ? -1 : b.path === INBOX_PATH ? 1 : a.path.localeCompare(b.path)))
+  }
+
+  // ==================== 内部逻辑：同步 ====================
+
+  private async loadWatchedMailboxes(): Promise<void> {
+    const mailboxes = await this.client!.getMailboxes()
+    const paths = buildMailboxPaths(mailboxes)
+    const byPath = new Map([...paths].map(([id, path]) => [path, id]))
+
+    this.watchedMailboxes.clear()
+    for (const path of normalizeMailboxes(this.account.mailboxes)) {
+      const id = byPath.get(path) ?? (path.toUpperCase() === INBOX_PATH ? byPath.get(INBOX_PATH) : undefined)
+      if (id) {
+        this.watchedMailboxes.set(id, path)
+      } else {
+        logger.warn('%s JMAP 文件夹不存在，已忽略: %s', this.account.email, path)
+      }
+    }
+
+    if (this.watchedMailboxes.size === 0) {
+      throw new Error('没有可监听的 JMAP 文件夹')
+    }
+  }
+
+  /** 串行执行一次增量同步 */
+  private runSync(): Promise<void> {
+    const task = this.syncQueue.catch(() => {}).then(() => this.fetchNewMails())
+    this.syncQueue = task
+    return task
+  }
+
+  /**
+   * 拉取新邮件
+   *
+   * - 首次监听：只记录当前状态字符串，不回溯历史邮件
+   * - 之后：Email/changes 中新建且位于被监听文件夹的邮件视为新邮件
+   * - 状态过旧无法计算变更时重新记录当前状态（与 UIDVALIDITY 变化的处理一致）
+   * - 全部投递成功后才推进状态，失败时下次重试（入库按 Message-ID 去重）
+   */
+  private async fetchNewMails(): Promise<void> {
+    const client = this.client
+    if (!client || this.disposed) return
+
+    const saved = this.emailState ?? await this.loadState()
+    if (saved === null) {
+      const state = await client.getEmailState()
+      await this.saveState(state)
+      logger.info('%s JMAP 首次监听，从当前状态开始', this.account.email)
+      return
+    }
+
+    const changes = await client.getCreatedSince(saved)
+    if (!changes) {
+      const state = await client.getEmailState()
+      await this.saveState(state)
+      logger.warn('%s JMAP 状态已过期，无法计算变更，从当前状态重新开始', this.account.email)
+      return
+    }
+    if (changes.newState === saved) return
+
+    if (changes.created.length > 0) {
+      const emails = await client.getEmails(changes.created, ['id', 'blobId', 'mailboxIds', 'size'])
+      for (const email of emails) {
+        const mailboxId = Object.keys(email.mailboxIds || {}).find(id => this.watchedMailboxes.has(id))
+        if (!mailboxId) continue
+
+        const mail = await this.downloadMail(client, email, this.watchedMailboxes.get(mailboxId)!)
+        if (!mail) continue
+        try {
+          await this.onMailReceived(mail)
+        } catch (err) {
+          logger.error('%s 处理 JMAP 邮件 %s 失败: %s', this.account.email, email.id, (err as Error).message)
+          return
+        }
+      }
+    }
+
+    await this.saveState(changes.newState)
+  }
+
+  private async downloadMail(client: JmapClient, email: JmapEmail, path: string): Promise<ParsedMail | null> {
+    if (email.size && email.size > SYNC_STRATEGY.MAX_MAIL_SIZE) {
+      logger.debug('JMAP 邮件 %s 过大 (%d > %d bytes)，跳过', email.id, email.size, SYNC_STRATEGY.MAX_MAIL_SIZE)
+      return null
+    }
+
+    const source = await client.download(email.blobId)
+    let parsed: ParsedMail
+    try {
+      parsed = await parseMail(source)
+    } catch (err) {
+      logger.error('解析 JMAP 邮件 %s 失败: %s', email.id, (err as Error).message)
+      return null
+    }
+
+    if (!parsed.from || (!parsed.subject && !parsed.text && !parsed.html)) {
+      logger.debug('JMAP 邮件 %s 验证失败，跳过', email.id)
+      return null
+    }
+
+    parsed.mailbox = path
+    return parsed
+  }
+
+  private async loadState(): Promise<string | null> {
+    if (!this.stateStore) return null
+    return this.stateStore.load()
+  }
+
+  private async saveState(state: string): Promise<void> {
+    this.emailState = state
+    if (!this.stateStore) return
+    try {
+      await this.stateStore.save(state)
+    } catch (err) {
+      logger.warn('%s 保存 JMAP 状态失败: %s', this.account.email, (err as Error).message)
+    }
+  }
+
+  private async createClient(): Promise<JmapClient> {
+    if (this.account.authType !== 'oauth2' || !this.accessTokenProvider) {
+      return createClient(this.account, this.config.connectionTimeout * 1000)
+    }
+
+    const forceRefresh = this.forceTokenRefresh
+    this.forceTokenRefresh = false
+    const accessToken = await this.accessTokenProvider(forceRefresh)
+    return createClient({
+      ...this.account,
+      oauth2: { ...this.account.oauth2!, accessToken },
+    }, this.config.connectionTimeout * 1000)
+  }
+
+  // ==================== 内部逻辑：推送与轮询 ====================
+
+  /**
+   * 开始监听新邮件
+   *
+   * 有 EventSource 时以推送为主，并按健康检查间隔补一次同步；否则按轮询间隔同步。
+   */
+  private startListening(): void {
+    if (this.disposed) return
+
+    const hasPush = !!this.client?.eventSourceUrl
+    if (hasPush) {
+      this.openEventSource()
+    }
+
+    const interval = hasPush
+      ? this.config.healthCheckInterval * 1000
+      : this.provider.getFeatures().pollInterval || DEFAULT_POLL_INTERVAL
+    try {
+      this.pollTimer = this.ctx.setInterval(() => this.poll(), interval)
+      logger.debug('%s JMAP %s已启动 (间隔 %ds)', this.account.email, hasPush ? '推送与补偿同步' : '轮询', Math.floor(interval / 1000))
+    } catch (err) {
+      logger.warn('%s JMAP 轮询调度失败: %s', this.account.email, (err as Error).message)
+      this.pollTimer = null
+    }
+  }
+
+  private openEventSource(): void {
+    const client = this.client
+    if (!client) return
+
+    const controller = new AbortController()
+    this.eventAbort = controller
+
+    const consume = async () => {
+      const stream = await client.openEventSource(controller.signal)
+      logger.debug('%s JMAP 推送已连接', this.account.email)
+      this.resetWatchdog(controller)
+
+      const reader = stream.getReader()
+      const decoder = new TextDecoder()
+      let buffer = ''
+      for (;;) {
+        const { done, value } = await reader.read()
+        if (done) break
+        this.resetWatchdog(controller)
+        buffer += decoder.decode(value, { stream: true })
+
+        let index: number
+        while ((index = buffer.search(/\r?\n\r?\n/)) !== -1) {
+          const block = buffer.slice(0, index)
+          buffer = buffer.slice(index).replace(/^\r?\n\r?\n/, '')
+          this.handleEvent(block)
+        }
+      }
+      throw new Error('JMAP 推送连接被服务器关闭')
+    }
+
+    consume().catch((error) => {
+      if (this.disposed || (controller.signal.aborted && this.eventAbort !== controller)) return
+      this.clearWatchdog()
+      this.eventAbort = null
+      if (!this.state.isConnected) return
+
+      logger.warn('%s JMAP 推送中断: %s', this.account.email, (error as Error).message)
+      this.stopPolling()
+      this.handleConnectionFailure(error as Error)
+    })
+  }
+
+  /** 解析一条 SSE 事件，Email 状态变化时触发增量同步 */
+  private handleEvent(block: string): void {
+    let event = 'message'
+    const data: string[] = []
+    for (const line of block.split(/\r?\n/)) {
+      if (line.startsWith('event:')) event = line.slice(6).trim()
+      else if (line.startsWith('data:')) data.push(line.slice(5).trimStart())
+    }
+    if (event !== 'state' || data.length === 0) return
+
+    let payload: any
+    try {
+      payload = JSON.parse(data.join('\n'))
+    } catch {
+      logger.debug('%s JMAP 推送事件格式错误，已忽略', this.account.email)
+      return
+    }
+
+    const newState = payload?.changed?.[this.client?.accountId ?? '']?.Email
+    if (!newState || newState === this.emailState) return
+
+    logger.debug('%s JMAP 推送: Email 状态变为 %s', this.account.email, newState)
+    this.poll()
+  }
+
+  private async poll(): Promise<void> {
+    if (this.disposed || !this.state.isConnected) return
+    try {
+      await this.runSync()
+    } catch (error) {
+      if (this.disposed) return
+      logger.warn('%s JMAP 同步失败: %s', this.account.email, (error as Error).message)
+      this.stopPolling()
+      this.closeEventSource()
+      this.handleConnectionFailure(error as Error)
+    }
+  }
+
+  private resetWatchdog(controller: AbortController): void {
+    this.clearWatchdog()
+    this.watchdogTimer = this.ctx.setTimeout(() => {
+      this.watchdogTimer = null
+      controller.abort(new Error('JMAP 推送心跳超时'))
+    }, EVENT_PING_INTERVAL * 2500)
+  }
+
+  private clearWatchdog(): void {
+    if (this.watchdogTimer) {
+      this.watchdogTimer()
+      this.watchdogTimer = null
+    }
+  }
+
+  private closeEventSource(): void {
+    this.clearWatchdog()
+    const controller = this.eventAbort
+    this.eventAbort = null
+    controller?.abort()
+  }
+
+  private stopPolling(): void {
+    if (this.pollTimer) {
+      this.pollTimer()
+      this.pollTimer = null
+    }
+  }
+
+  // ==================== 内部逻辑：状态与重连 ====================
+
+  private markAsConnected(): void {
+    this.state.isConnecting = false
+    this.state.isConnected = true
+    this.reconnectAttempts = 0
+    this.lastConnectError = null
+    this.tokenRefreshRetried = false
+    this.notifyStatus('connected')
+    logger.debug('%s 已连接 (JMAP)', this.account.email)
+  }
+
+  private handleConnectionFailure(error: Error): void {
+    this.state.isConnecting = false
+    this.state.isConnected = false
+    this.lastConnectError = error
+
+    const friendlyMsg = getFriendlyErrorMessage(
+      error,
+      this.account.imapHost,
+      this.provider.getCustomErrorMatchers()
+    )
+    logger.error('%s 连接失败: %s', this.account.email, friendlyMsg)
+    this.notifyStatus('error', friendlyMsg)
+
+    const authFailed = (error as JmapRequestError).authenticationFailed === true
+    if (authFailed && this.shouldRetryWithFreshToken()) {
+      this.tryScheduleReconnect()
+    } else if (!authFailed && this.provider.shouldRetryOnError(error)) {
+      this.tryScheduleReconnect()
+    } else {
+      logger.debug('%s 错误不可重试: %s', this.account.email, error.message)
+    }
+  }
+
+  private shouldRetryWithFreshToken(): boolean {
+    if (this.account.authType !== 'oauth2' || !this.accessTokenProvider) return false
+    if (this.tokenRefreshRetried) return false
+
+    this.tokenRefreshRetried = true
+    this.forceTokenRefresh = true
+    logger.info('%s 认证失败，将刷新访问令牌后重试', this.account.email)
+    return true
+  }
+
+  private tryScheduleReconnect(): void {
+    if (this.disposed || this.reconnectTimer || !this.account.enabled) return
+
+    this.reconnectAttempts++
+    if (this.reconnectAttempts > this.config.maxReconnectAttempts) {
+      const finalError = this.lastConnectError?.message || '未知错误'
+      logger.warn('%s 达到最大重连次数 (%d/次)，停止重连，最后错误: %s',
+        this.account.email, this.config.maxReconnectAttempts, finalError)
+      this.notifyStatus('error', `已达到最大重连次数 (${this.config.maxReconnectAttempts})，最后错误: ${finalError}`)
+      return
+    }
+
+    const delay = this.calculateReconnectDelay()
+    logger.info('%s 将在 %ds 后重连 (第 %d/%d 次)',
+      this.account.email, Math.floor(delay / 1000), this.reconnectAttempts, this.config.maxReconnectAttempts)
+
+    try {
+      this.reconnectTimer = this.ctx.setTimeout(() => {
+        this.reconnectTimer = null
+        if (this.disposed || this.state.isConnected || this.state.isConnecting) return
+        this.connect().catch((err) => {
+          logger.debug('%s 重连失败: %s', this.account.email, (err as Error).message)
+        })
+      }, delay)
+    } catch (err) {
+      logger.warn('%s 重连调度失败: %s', this.account.email, (err as Error).message)
+      this.reconnectTimer = null
+    }
+  }
+
+  private calculateReconnectDelay(): number {
+    const providerDelay = this.provider.getReconnectDelay(this.reconnectAttempts, this.config.reconnectBaseInterval)
+    const maxDelay = Math.max(1000, this.config.reconnectMaxInterval * 1000)
+    const jitterRatio = Math.max(0, Math.min(this.config.reconnectJitterRatio, 0.5))
+    const jitter = 1 + (Math.random() * 2 - 1) * jitterRatio
+    return Math.max(1000, Math.floor(Math.min(providerDelay, maxDelay) * jitter))
+  }
+
+  private cancelReconnect(): void {
+    if (this.reconnectTimer) {
+      this.reconnectTimer()
+      this.reconnectTimer = null
+    }
+  }
+
+  private notifyStatus(status: MailAccount['status'], error?: string): void {
+    if (!this.onStatusChanged) return
+    try {
+      this.onStatusChanged(status, error)
+    } catch (err) {
+      logger.debug('%s 状态回调已忽略: %s', this.account.email, (err as Error).message)
+    }
+  }
+}
+
+// ==================== 工具函数 ====================
+
+function createClient(account: Partial<MailAccount>, timeout: number): JmapClient {
+  const oauth2 = account.authType === 'oauth2'
+  if (oauth2 && !account.oauth2?.accessToken) {
+    throw new Error('缺少 OAuth2 访问令牌')
+  }
+  return new JmapClient({
+    sessionUrl: resolveSessionUrl(account),
+    username: account.email || '',
+    password: oauth2 ? undefined : account.password,
+    accessToken: oauth2 ? account.oauth2!.accessToken : undefined,
+    timeout,
+  })
+}
+
+/**
+ * 解析 Session 地址
+ *
+ * 服务器地址可以直接填写完整 URL；只填主机名时按 RFC 8620 使用 /.well-known/jmap。
+ */
+export function resolveSessionUrl(account: Partial<MailAccount>): string {
+  const host = (account.imapHost || '').trim()
+  if (/^https?:\/\//i.test(host)) return host
+
+  const secure = account.imapTls !== false
+  const port = account.imapPort
+  const defaultPort = secure ? 443 : 80
+  const portSuffix = port && port !== defaultPort ? `:${port}` : ''
+  return `${secure ? 'https' : 'http'}://${host}${portSuffix}/.well-known/jmap`
+}
+
+function parseSession(data: any, sessionUrl: string): JmapSession {
+  const accountId = data?.primaryAccounts?.[MAIL_CAPABILITY]
+  if (!data?.apiUrl || !data?.downloadUrl || !accountId) {
+    throw new JmapRequestError('JMAP Session 缺少 apiUrl、downloadUrl 或邮件账号')
+  }
+  // 相对地址以 Session 地址为基准解析
+  return {
+    apiUrl: new URL(data.apiUrl, sessionUrl).toString(),
+    downloadUrl: resolveTemplateUrl(data.downloadUrl, sessionUrl),
+    eventSourceUrl: data.eventSourceUrl ? resolveTemplateUrl(data.eventSourceUrl, sessionUrl) : undefined,
+    accountId: String(accountId),
+  }
+}
+
+/** URL 模板中的 {var} 不能经过 URL 编码，只解析相对路径前缀 */
+function resolveTemplateUrl(template: string, base: string): string {
+  if (/^https?:\/\//i.test(template)) return template
+  return new URL(base).origin + (template.startsWith('/') ? '' : '/') + template
+}
+
+/** 展开 RFC 6570 级别 1 的 URL 模板 */
+function expandTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key) => key in values ? encodeURIComponent(values[key]) : match)
+}
+
+/** 按 parentId 拼出文件夹路径，收件箱统一为 INBOX */
+function buildMailboxPaths(mailboxes: JmapMailbox[]): Map<string, string> {
+  const byId = new Map(mailboxes.map(mailbox => [mailbox.id, mailbox]))
+  const paths = new Map<string, string>()
+
+  const resolve = (mailbox: JmapMailbox, depth = 0): string => {
+    const cached = paths.get(mailbox.id)
+    if (cached) return cached
+    const name = mailbox.role === 'inbox' ? INBOX_PATH : mailbox.name
+    const parent = mailbox.parentId ? byId.get(mailbox.parentId) : undefined
+    const path = parent && depth < 32 ? `${resolve(parent, depth + 1)}/${name}` : name
+    paths.set(mailbox.id, path)
+    return path
+  }
+
+  mailboxes.forEach(mailbox => resolve(mailbox))
+  return paths
+}
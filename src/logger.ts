@@ -14,6 +14,7 @@ export const LogModule = {
   SYSTEM: '系统',
   CLEANUP: '清理',
   MAIL: '邮件',
+  SEND: '发信',
   IMAP: 'IMAP',
 } as const
 
@@ -0,0 +1,139 @@
+/**
+ * 发信 (SMTP) 客户端
+ *
+ * 基于 nodemailer 发送回复等外发邮件。发信频率很低，每次发信建立独立连接，不维护连接池。
+ */
+
+import { createTransport } from 'nodemailer'
+import addressparser from 'nodemailer/lib/addressparser'
+import type { MailAddress, OutgoingAttachment, SmtpSendSettings } from './types'
+
+/** 外发邮件内容 */
+export interface OutgoingMail {
+  /** 发件地址 */
+  from: MailAddress
+  to: MailAddress[]
+  cc?: MailAddress[]
+  replyTo?: MailAddress[]
+  subject: string
+  text: string
+  html?: string
+  /** 被回复邮件的 Message-ID */
+  inReplyTo?: string
+  /** 会话中的 Message-ID 链 */
+  references?: string[]
+  attachments?: OutgoingAttachment[]
+  /** 额外的邮件头 */
+  headers?: Record<string, string>
+}
+
+/** 发信凭证：密码或 OAuth2 访问令牌 */
+export type SmtpCredentials =
+  | { user: string; pass: string }
+  | { user: string; accessToken: string }
+
+/** 发信结果 */
+export interface SmtpSendResult {
+  /** 新邮件的 Message-ID */
+  messageId: string
+  /** 服务器接受的收件人 */
+  accepted: string[]
+  /** 服务器拒绝的收件人 */
+  rejected: string[]
+}
+
+/** 发信失败 */
+export class SmtpSendError extends Error {
+  constructor(message: string, readonly authenticationFailed = false) {
+    super(message)
+    this.name = 'SmtpSendError'
+  }
+}
+
+/**
+ * 通过 SMTP 发送一封邮件
+ *
+ * @param timeout 连接与握手超时（毫秒）
+ */
+export async function sendSmtpMail(
+  settings: SmtpSendSettings,
+  credentials: SmtpCredentials,
+  mail: OutgoingMail,
+  timeout: number
+): Promise<SmtpSendResult> {
+  const transport = createTransport({
+    host: settings.host,
+    port: settings.port,
+    secure: settings.secure,
+    auth: 'accessToken' in credentials
+      ? { type: 'OAuth2', user: credentials.user, accessToken: credentials.accessToken }
+      : { user: credentials.user, pass: credentials.pass },
+    connectionTimeout: timeout,
+    greetingTimeout: timeout,
+    socketTimeout: timeout * 2,
+  })
+
+  try {
+    const info = await transport.sendMail({
+      from: toNodemailerAddress(mail.from),
+      to: mail.to.map(toNodemailerAddress),
+      cc: mail.cc?.length ? mail.cc.map(toNodemailerAddress) : undefined,
+      replyTo: mail.replyTo?.length ? mail.replyTo.map(toNodemailerAddress) : undefined,
+      subject: mail.subject,
+      text: mail.text,
+      html: mail.html,
+      inReplyTo: mail.inReplyTo,
+      references: mail.references?.length ? mail.references : undefined,
+      attachments: mail.attachments?.map(a => ({
+        filename: a.filename,
+        content: a.content,
+        contentType: a.contentType,
+        cid: a.cid,
+      })),
+      headers: mail.headers,
+    })
+
+    return {
+      messageId: info.messageId,
+      accepted: info.accepted.map(String),
+      rejected: info.rejected.map(String),
+    }
+  } catch (err) {
+    throw toSendError(err as Error & { code?: string; response?: string })
+  } finally {
+    transport.close()
+  }
+}
+
+/**
+ * 解析收件人字符串（支持显示名称与逗号分隔）
+ */
+export function parseAddressList(input: string | string[]): MailAddress[] {
+  const list = Array.isArray(input) ? input.join(', ') : input
+  return addressparser(list, { flatten: true })
+    .filter(addr => addr.address)
+    .map(addr => ({ name: addr.name || undefined, address: addr.address! }))
+}
+
+function toNodemailerAddress(addr: MailAddress): { name: string; address: string } {
+  return { name: addr.name || '', address: addr.address }
+}
+
+function toSendError(err: Error & { code?: string; response?: string }): SmtpSendError {
+  const detail = err.response || err.message
+  switch (err.code) {
+    case 'EAUTH':
+      return new SmtpSendError(`SMTP 认证失败，请检查发信用户名与密码: ${detail}`, true)
+    case 'EENVELOPE':
+      return new SmtpSendError(`收件人被服务器拒绝: ${detail}`)
+    case 'ETIMEDOUT':
+    case 'ECONNECTION':
+    case 'ESOCKET':
+    case 'EDNS':
+      return new SmtpSendError(`无法连接 SMTP 服务器: ${detail}`)
+    case 'ETLS':
+      return new SmtpSendError(`SMTP TLS 握手失败，请检查端口与 TLS 设置: ${detail}`)
+    default:
+      return new SmtpSendError(`发信失败: ${detail}`)
+  }
+}
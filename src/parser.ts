@@ -9,10 +9,19 @@
 import PostalMime from 'postal-mime'
 import { simpleParser, ParsedMail as MailparserParsedMail } from 'mailparser'
 import { Logger } from 'koishi'
-import type { MailAddress, MailAttachment } from './types'
+import type { MailAddress, MailAttachment, MailHeader } from './types'
 
 const logger = new Logger('mail-manager/parser')
 
+/** 本插件发出的邮件携带的环路标记头 */
+export const LOOP_HEADER = 'X-Mail-Manager-Loop'
+
+/** 保存的邮件头总长度上限（Received 链可能很长） */
+const MAX_HEADERS_LENGTH = 64 * 1024
+
+/** 单个邮件头内容长度上限 */
+const MAX_HEADER_VALUE_LENGTH = 4096
+
 /** 统一的邮件解析接口 */
 export interface ParsedMail {
   messageId?: string
@@ -23,9 +32,25 @@ export interface ParsedMail {
   cc?: MailAddress[]
   bcc?: MailAddress[]
   replyTo?: MailAddress[]
+  /** 会话中的 Message-ID 链（References，缺失时取 In-Reply-To） */
+  references?: string[]
+  /** 所回复邮件的 Message-ID（In-Reply-To） */
+  inReplyTo?: string
+  /** 本插件发出邮件的环路标记（X-Mail-Manager-Loop 头），签名有效的邮件不会再被自动转发 */
+  loopMarker?: string
   text?: string
   html?: string
   attachments?: MailAttachment[]
+  /** 原始邮件大小（字节） */
+  size?: number
+  /** 原始邮件头 */
+  headers?: MailHeader[]
+  /** 来源文件夹（由连接层在拉取后填充，解析器本身不设置） */
+  mailbox?: string
+  /** 文件夹内 UID（由连接层在拉取后填充） */
+  uid?: number
+  /** 拉取时服务器上的标记（由连接层在拉取后填充） */
+  flags?: string[]
 }
 
 /** 解析统计 */
@@ -46,14 +71,42 @@ export async function parseMail(source: Buffer | Uint8Array): Promise<ParsedMail
   try {
     const result = await parseWithPostalMime(source)
     stats.postalMimeSuccess++
-    return result
+    return { ...result, size: source.byteLength }
   } catch (err) {
     // 回退路径：mailparser（处理特殊编码、复杂结构）
     logger.warn('postal-mime 解析失败，回退到 mailparser: %s', (err as Error)?.message || String(err))
     stats.postalMimeFailed++
     stats.mailparserFallback++
-    return await parseWithMailparser(source)
+    return { ...await parseWithMailparser(source), size: source.byteLength }
+  }
+}
+
+/**
+ * 解析 mailparser 的原始头行（`Name: value`，可能包含折行）
+ */
+function parseHeaderLine(header: { key: string; line: string }): MailHeader {
+  const idx = header.line.indexOf(':')
+  return {
+    name: idx > 0 ? header.line.slice(0, idx).trim() : header.key,
+    value: (idx > 0 ? header.line.slice(idx + 1) : header.line).replace(/\r?\n[ \t]+/g, ' ').trim(),
+  }
+}
+
+/**
+ * 限制保存的邮件头长度：单个头内容截断，总长度超限后丢弃其余头
+ */
+function limitHeaders(headers: MailHeader[]): MailHeader[] {
+  const result: MailHeader[] = []
+  let total = 0
+  for (const header of headers) {
+    const value = header.value.length > MAX_HEADER_VALUE_LENGTH
+      ? `${header.value.slice(0, MAX_HEADER_VALUE_LENGTH)}...`
+      : header.value
+    total += header.name.length + value.length
+    if (total > MAX_HEADERS_LENGTH) break
+    result.push({ name: header.name, value })
   }
+  return result
 }
 
 function normalizeTextContent(text?: string): string | undefined {
@@ -206,6 +259,10 @@ async function parseWithPostalMime(source: Buffer | Uint8Array): Promise<ParsedM
     cc: parsePostalAddressList(email.cc),
     bcc: parsePostalAddressList(email.bcc),
     replyTo: parsePostalAddressList(email.replyTo),
+    references: parseReferences(email.references, email.inReplyTo),
+    inReplyTo: parseReferences(email.inReplyTo, undefined)?.[0],
+    loopMarker: email.headers.find(header => header.key === LOOP_HEADER.toLowerCase())?.value?.trim() || undefined,
+    headers: limitHeaders(email.headers.map(header => ({ name: header.originalKey || header.key, value: header.value }))),
     text: textContent || (htmlContent ? normalizeTextContent(htmlToText(htmlContent)) : undefined),
     html: htmlContent,
     attachments: parsePostalAttachments(email.attachments),
@@ -234,12 +291,32 @@ async function parseWithMailparser(source: Buffer | Uint8Array): Promise<ParsedM
     cc: parseMailparserAddressList(parsed.cc),
     bcc: parseMailparserAddressList(parsed.bcc),
     replyTo: parseMailparserAddressList(parsed.replyTo),
+    references: parseReferences(parsed.references, parsed.inReplyTo),
+    inReplyTo: parseReferences(parsed.inReplyTo, undefined)?.[0],
+    loopMarker: String(parsed.headers.get(LOOP_HEADER.toLowerCase()) ?? '').trim() || undefined,
+    headers: limitHeaders(parsed.headerLines.map(parseHeaderLine)),
     text: textContent || (htmlContent ? normalizeTextContent(htmlToText(htmlContent)) : undefined),
     html: htmlContent,
     attachments: parseMailparserAttachments(parsed.attachments),
   }
 }
 
+/**
+ * 推算邮件所属的会话 ID
+ *
+ * 取 References 中的第一个 Message-ID（会话的首封邮件），没有时取 In-Reply-To，都没有时邮件自成一个会话
+ */
+export function getThreadId(messageId: string, references?: string[], inReplyTo?: string): string {
+  return references?.[0] || inReplyTo || messageId
+}
+
+/** 解析 References / In-Reply-To 头中的 Message-ID 列表 */
+function parseReferences(references: string | string[] | undefined, inReplyTo: string | undefined): string[] | undefined {
+  const source = Array.isArray(references) ? references.join(' ') : references || inReplyTo || ''
+  const ids = source.match(/<[^<>\s]+>/g)
+  return ids?.length ? ids : undefined
+}
+
 /** 解析 postal-mime 的单个地址 */
 function parsePostalAddress(addr: unknown): MailAddress | undefined {
   if (!addr || typeof addr !== 'object') return undefined
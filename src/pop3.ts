@@ -0,0 +1,943 @@
+/**
+ * POP3 邮件连接管理模块
+ *
+ * 为只开放 POP3 的邮箱提供与 IMAP 相同的新邮件流：
+ * 1. 定期建立 POP3 会话，按 UIDL 去重拉取新邮件
+ * 2. 可选「下载后删除」或「保留 N 天后删除」
+ * 3. 复用账号状态上报与指数退避重连
+ *
+ * POP3 没有 IDLE，且多数服务器在会话期间锁定邮箱、不会出现新邮件，
+ * 因此每次轮询都是一次完整的「登录 - 拉取 - 退出」会话，轮询本身即健康检查。
+ */
+
+import * as net from 'net'
+import * as tls from 'tls'
+import { Context } from 'koishi'
+import type { MailAccount, MailboxInfo } from './types'
+import type { MailSourceConnection, MailSyncResult } from './connection'
+import { SafeLogger } from './imap'
+import { parseMail, parseMailDate, type ParsedMail } from './parser'
+import { MailProviderFactory, type MailProviderAdapter } from './providers'
+import {
+  SYNC_STRATEGY,
+  getFriendlyErrorMessage,
+} from './utils'
+
+const logger = new SafeLogger()
+
+/** POP3 固定只有一个收件箱 */
+export const POP3_MAILBOX = 'INBOX'
+
+/** 默认轮询间隔（服务商未指定时） */
+const DEFAULT_POLL_INTERVAL = 120 * 1000
+
+// ==================== UIDL 存储 ====================
+
+/** 已知的 UIDL 记录 */
+export interface Pop3UidRecord {
+  /** 服务器分配的唯一 ID */
+  uidl: string
+  /** 是否已下载并投递（首次监听时记录的存量邮件为 false） */
+  delivered: boolean
+  /** 首次发现时间，用于「保留 N 天后删除」 */
+  seenAt: Date
+}
+
+/**
+ * UIDL 持久化接口
+ *
+ * 由核心模块注入，连接层不直接访问数据库。
+ */
+export interface Pop3UidStore {
+  /** 读取已知 UIDL；账号从未初始化时返回 null */
+  load(): Promise<Pop3UidRecord[] | null>
+  /** 写入新记录并删除已从服务器移除的记录，同时标记为已初始化 */
+  save(added: Pop3UidRecord[], removed: string[]): Promise<void>
+}
+
+/**
+ * 计算本次会话要删除的邮件序号，只读观察模式下从不删除
+ *
+ * - 不保留在服务器上：只删除本次投递成功的新邮件
+ * - 保留 N 天后删除：只删除由本插件投递过且超过保留期的邮件
+ *
+ * @param uidls 服务器上的邮件序号 -> UIDL
+ * @param known 会话开始前已知的 UIDL 记录
+ * @param delivered 本次投递成功的新邮件序号
+ */
+export function planPop3Deletions(
+  account: Pick<MailAccount, 'readOnly' | 'pop3LeaveOnServer' | 'pop3DeleteAfterDays'>,
+  uidls: Map<number, string>,
+  known: Map<string, Pop3UidRecord>,
+  delivered: number[],
+  now: Date
+): Set<number> {
+  const toDelete = new Set<number>()
+  if (account.readOnly) return toDelete
+
+  if (account.pop3LeaveOnServer === false) {
+    for (const num of delivered) toDelete.add(num)
+    return toDelete
+  }
+
+  const deleteAfterDays = account.pop3DeleteAfterDays || 0
+  if (deleteAfterDays > 0) {
+    const cutoff = now.getTime() - deleteAfterDays * 24 * 60 * 60 * 1000
+    for (const [num, uidl] of uidls) {
+      const record = known.get(uidl)
+      if (record?.delivered && new Date(record.seenAt).getTime() < cutoff) toDelete.add(num)
+    }
+  }
+  return toDelete
+}
+
+// ==================== 协议客户端 ====================
+
+/** POP3 服务器返回的 -ERR 响应 */
+export class Pop3ResponseError extends Error {
+  /** 是否为认证失败 */
+  authenticationFailed?: boolean
+
+  constructor(message: string) {
+    super(message)
+    this.name = 'Pop3ResponseError'
+  }
+}
+
+interface Pop3ClientOptions {
+  host: string
+  port: number
+  /** 直接使用 TLS（通常为 995 端口）；为 false 时尝试 STLS 升级 */
+  secure: boolean
+  /** 服务器不支持 STLS 时是否允许明文连接 */
+  allowInsecure?: boolean
+  servername?: string
+  timeout: number
+}
+
+interface PendingResponse {
+  multiline: boolean
+  resolve: (response: { status: string; body?: Buffer }) => void
+  reject: (error: Error) => void
+}
+
+/**
+ * 精简的 POP3 客户端 (RFC 1939 / RFC 2449 / RFC 2595)
+ *
+ * 命令严格串行执行，不使用 PIPELINING。
+ */
+export class Pop3Client {
+  private socket: net.Socket | null = null
+  private buffer: Buffer = Buffer.alloc(0)
+  private scanOffset = 0
+  private pending: PendingResponse | null = null
+  private closedError: Error | null = null
+  private readonly capabilities = new Set<string>()
+
+  constructor(private readonly options: Pop3ClientOptions) {}
+
+  /** 连接是否仍然打开 */
+  get isOpen(): boolean {
+    return !!this.socket
+  }
+
+  /**
+   * 建立连接并读取欢迎信息；明文端口升级 STLS，服务器不支持时除非显式允许，否则拒绝连接
+   */
+  async connect(): Promise<void> {
+    this.socket = await this.openSocket()
+    this.bindSocket(this.socket)
+    await this.read(false)
+
+    await this.loadCapabilities()
+
+    if (!this.options.secure) {
+      if (this.capabilities.has('STLS')) {
+        await this.command('STLS')
+        await this.upgradeToTls()
+        await this.loadCapabilities()
+      } else if (this.options.allowInsecure) {
+        logger.warn('POP3 %s 不支持 STLS，将使用明文连接', this.options.host)
+      } else {
+        throw new Error(`POP3 服务器 ${this.options.host} 不支持 STLS，拒绝以明文发送凭证；确需明文连接请在账号中开启「允许明文连接」`)
+      }
+    }
+  }
+
+  /**
+   * 使用用户名和密码登录 (USER/PASS)
+   */
+  async login(user: string, pass: string): Promise<void> {
+    try {
+      await this.command(`USER ${user}`)
+      await this.command(`PASS ${pass}`)
+    } catch (err) {
+      throw this.asAuthError(err as Error)
+    }
+  }
+
+  /**
+   * 使用 OAuth2 访问令牌登录 (AUTH XOAUTH2)
+   */
+  async loginWithToken(user: string, accessToken: string): Promise<void> {
+    const payload = Buffer.from(`user=${user}\x01auth=Bearer ${accessToken}\x01\x01`).toString('base64')
+    try {
+      const response = await this.command(`AUTH XOAUTH2 ${payload}`)
+      // 失败时服务器先返回 "+ <错误详情>" 的质询，需要发送空行才能拿到 -ERR
+      if (response.status.startsWith('+ ') || response.status === '+') {
+        await this.command('')
+      }
+    } catch (err) {
+      throw this.asAuthError(err as Error)
+    }
+  }
+
+  /** 邮件数量与总大小 */
+  async stat(): Promise<{ count: number; size: number }> {
+    const { status } = await this.command('STAT')
+    const [, count, size] = status.split(/\s+/)
+    return { count: Number(count) || 0, size: Number(size) || 0 }
+  }
+
+  /** 邮件序号 -> UIDL */
+  async uidl(): Promise<Map<number, string>> {
+    const { body } = await this.command('UIDL', true)
+    const result = new Map<number, string>()
+    for (const line of this.splitLines(body)) {
+      const [num, uid] = line.split(/\s+/)
+      if (num && uid) result.set(Number(num), uid)
+    }
+    return result
+  }
+
+  /** 邮件序号 -> 大小（字节） */
+  async list(): Promise<Map<number, number>> {
+    const { body } = await this.command('LIST', true)
+    const result = new Map<number, number>()
+    for (const line of this.splitLines(body)) {
+      const [num, size] = line.split(/\s+/)
+      if (num && size) result.set(Number(num), Number(size))
+    }
+    return result
+  }
+
+  /** 下载整封邮件 */
+  async retr(num: number): Promise<Buffer> {
+    const { body } = await this.command(`RETR ${num}`, true)
+    return body || Buffer.alloc(0)
+  }
+
+  /** 下载邮件头与正文前若干行 */
+  async top(num: number, lines: number): Promise<Buffer> {
+    const { body } = await this.command(`TOP ${num} ${lines}`, true)
+    return body || Buffer.alloc(0)
+  }
+
+  /** 标记删除（QUIT 后生效） */
+  async dele(num: number): Promise<void> {
+    await this.command(`DELE ${num}`)
+  }
+
+  async noop(): Promise<void> {
+    await this.command('NOOP')
+  }
+
+  /** 正常退出，提交 DELE */
+  async quit(): Promise<void> {
+    try {
+      await this.command('QUIT')
+    } finally {
+      this.close()
+    }
+  }
+
+  /** 直接关闭连接（不提交 DELE） */
+  close(): void {
+    if (this.socket) {
+      this.socket.removeAllListeners()
+      this.socket.on('error', () => {})
+      this.socket.destroy()
+      this.socket = null
+    }
+  }
+
+  // ---------- 内部实现 ----------
+
+  private openSocket(): Promise<net.Socket> {
+    const { host, port, secure, servername, timeout } = this.options
+
+    return new Promise((resolve, reject) => {
+      const onError = (err: Error) => {
+        socket.destroy()
+        reject(err)
+      }
+      const onTimeout = () => onError(new Error(`POP3 连接超时 (${host}:${port})`))
+      const onConnect = () => {
+        socket.removeListener('error', onError)
+        socket.removeListener('timeout', onTimeout)
+        resolve(socket)
+      }
+      const socket = secure
+        ? tls.connect({ host, port, servername: servername || host, minVersion: 'TLSv1.2' }, onConnect)
+        : net.connect({ host, port }, onConnect)
+      socket.setTimeout(timeout)
+      socket.once('timeout', onTimeout)
+      socket.once('error', onError)
+    })
+  }
+
+  private upgradeToTls(): Promise<void> {
+    const plain = this.socket!
+    plain.removeAllListeners('data')
+    plain.removeAllListeners('close')
+    plain.removeAllListeners('error')
+    plain.removeAllListeners('timeout')
+
+    return new Promise((resolve, reject) => {
+      const secured = tls.connect({
+        socket: plain,
+        servername: this.options.servername || this.options.host,
+        minVersion: 'TLSv1.2',
+      }, () => {
+        secured.removeListener('error', reject)
+        this.socket = secured
+        this.bindSocket(secured)
+        resolve()
+      })
+      secured.once('error', reject)
+    })
+  }
+
+  private bindSocket(socket: net.Socket): void {
+    socket.setTimeout(this.options.timeout)
+    socket.on('data', (chunk: Buffer) => {
+      this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk
+      this.processBuffer()
+    })
+    socket.on('timeout', () => this.fail(new Error('POP3 响应超时')))
+    socket.on('error', (err) => this.fail(err))
+    socket.on('close', () => this.fail(new Error('POP3 连接已关闭')))
+  }
+
+  private async loadCapabilities(): Promise<void> {
+    this.capabilities.clear()
+    try {
+      const { body } = await this.command('CAPA', true)
+      for (const line of this.splitLines(body)) {
+        this.capabilities.add(line.split(/\s+/)[0].toUpperCase())
+      }
+    } catch {
+      // 旧服务器不支持 CAPA，按无扩展处理
+    }
+  }
+
+  private command(line: string, multiline = false): Promise<{ status: string; body?: Buffer }> {
+    if (!this.socket) {
+      return Promise.reject(this.closedError || new Error('POP3 未连接'))
+    }
+    const response = this.read(multiline)
+    this.socket.write(`${line}\r\n`)
+    return response
+  }
+
+  private read(multiline: boolean): Promise<{ status: string; body?: Buffer }> {
+    if (this.pending) {
+      return Promise.reject(new Error('POP3 命令不能并发执行'))
+    }
+    return new Promise((resolve, reject) => {
+      this.pending = { multiline, resolve, reject }
+      this.processBuffer()
+    })
+  }
+
+  private processBuffer(): void {
+    const pending = this.pending
+    if (!pending) return
+
+    const lineEnd = this.buffer.indexOf('\r\n')
+    if (lineEnd < 0) return
+
+    const status = this.buffer.subarray(0, lineEnd).toString('utf8')
+
+    if (status.startsWith('-ERR')) {
+      this.consume(lineEnd + 2)
+      this.settle().reject(new Pop3ResponseError(status.slice(4).trim() || 'POP3 服务器返回错误'))
+      return
+    }
+
+    // "+ " 为 SASL 质询，按单行响应处理
+    if (!pending.multiline || !status.startsWith('+OK')) {
+      this.consume(lineEnd + 2)
+      this.settle().resolve({ status })
+      return
+    }
+
+    // 多行响应以 CRLF.CRLF 结束；空正文时终止符与状态行的 CRLF 重叠
+    const terminator = this.buffer.indexOf('\r\n.\r\n', Math.max(lineEnd, this.scanOffset))
+    if (terminator < 0) {
+      this.scanOffset = Math.max(lineEnd, this.buffer.length - 4)
+      return
+    }
+
+    const raw = terminator > lineEnd
+      ? this.buffer.subarray(lineEnd + 2, terminator + 2)
+      : Buffer.alloc(0)
+    this.consume(terminator + 5)
+    this.settle().resolve({ status, body: this.unstuff(raw) })
+  }
+
+  private consume(length: number): void {
+    this.buffer = this.buffer.subarray(length)
+    this.scanOffset = 0
+  }
+
+  private settle(): PendingResponse {
+    const pending = this.pending!
+    this.pending = null
+    return pending
+  }
+
+  private fail(error: Error): void {
+    this.closedError = error
+    this.close()
+    if (this.pending) {
+      this.settle().reject(error)
+    }
+  }
+
+  /** 去除行首转义的点 (RFC 1939 byte-stuffing) */
+  private unstuff(raw: Buffer): Buffer {
+    if (raw.indexOf('\r\n..') < 0 && !(raw[0] === 0x2e && raw[1] === 0x2e)) return raw
+    const text = raw.toString('latin1').replace(/(^|\r\n)\.\./g, '$1.')
+    return Buffer.from(text, 'latin1')
+  }
+
+  private splitLines(body?: Buffer): string[] {
+    if (!body) return []
+    return body.toString('utf8').split('\r\n').map(line => line.trim()).filter(Boolean)
+  }
+
+  private asAuthError(err: Error): Error {
+    if (err instanceof Pop3ResponseError) {
+      const authError = new Pop3ResponseError(`POP3 认证失败: ${err.message}`)
+      authError.authenticationFailed = true
+      return authError
+    }
+    return err
+  }
+}
+
+// ==================== 核心类：Pop3Connection ====================
+
+/**
+ * POP3 连接管理器
+ *
+ * 对外表现与 ImapConnection 一致：状态上报、失败后指数退避重连、手动同步。
+ */
+export class Pop3Connection implements MailSourceConnection {
+  private state = {
+    isConnecting: false,
+    isConnected: false,
+  }
+
+  private disposed = false
+  private pollTimer: (() => void) | null = null
+  private reconnectTimer: (() => void) | null = null
+  private reconnectAttempts = 0
+  private lastConnectError: Error | null = null
+  private polling = false
+
+  // 同一时间只允许一个会话，避免服务器报「邮箱已锁定」
+  private sessionQueue: Promise<unknown> = Promise.resolve()
+
+  // OAuth2：认证失败后强制刷新一次访问令牌再重试
+  private forceTokenRefresh = false
+  private tokenRefreshRetried = false
+
+  private readonly provider: MailProviderAdapter
+  private readonly pollInterval: number
+
+  constructor(
+    private readonly ctx: Context,
+    private readonly account: MailAccount,
+    private readonly config: {
+      maxReconnectAttempts: number
+      reconnectBaseInterval: number
+      reconnectMaxInterval: number
+      reconnectJitterRatio: number
+      connectionTimeout: number
+    },
+    private readonly onMailReceived: (mail: ParsedMail) => Promise<void> | void,
+    private readonly onStatusChanged?: (status: MailAccount['status'], error?: string) => void,
+    private readonly uidStore?: Pop3UidStore,
+    private readonly accessTokenProvider?: (forceRefresh: boolean) => Promise<string>
+  ) {
+    this.provider = MailProviderFactory.getProvider(account)
+    this.pollInterval = this.provider.getFeatures().pollInterval || DEFAULT_POLL_INTERVAL
+    logger.debug('使用 POP3 (%s 配置): %s', this.provider.displayName, account.email)
+  }
+
+  // ==================== 公共 API ====================
+
+  get status(): MailAccount['status'] {
+    if (this.state.isConnecting) return 'connecting'
+    if (this.state.isConnected) return 'connected'
+    return 'disconnected'
+  }
+
+  isTerminallyFailed(): boolean {
+    if (this.disposed) return true
+    return this.reconnectAttempts > this.config.maxReconnectAttempts && !this.state.isConnected
+  }
+
+  /**
+   * 建立连接
+   *
+   * 立即执行一次完整会话以验证凭证并拉取新邮件，成功后按轮询间隔重复。
+   */
+  async connect(): Promise<void> {
+    if (this.disposed) {
+      logger.debug('%s 已销毁，跳过连接', this.account.email)
+      return
+    }
+    this.cancelReconnect()
+    this.stopPolling()
+
+    if (this.account.proxyUrl) {
+      logger.warn('%s POP3 暂不支持代理，将直接连接', this.account.email)
+    }
+
+    this.state.isConnecting = true
+    this.state.isConnected = false
+    this.notifyStatus('connecting')
+
+    try {
+      await this.runSession(client => this.fetchNewMails(client))
+      this.markAsConnected()
+      this.startPolling()
+    } catch (error) {
+      this.handleConnectionFailure(error as Error)
+      throw error
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.disposed) return
+    this.disposed = true
+
+    this.stopPolling()
+    this.cancelReconnect()
+
+    const wasActive = this.state.isConnected
+    this.state.isConnecting = false
+    this.state.isConnected = false
+
+    // 等待进行中的会话结束，避免 DELE 提交一半
+    await this.sessionQueue.catch(() => {})
+
+    logger.debug('%s 已断开', this.account.email)
+    if (wasActive) {
+      this.notifyStatus('disconnected')
+    }
+  }
+
+  resetReconnectAttempts(): void {
+    this.reconnectAttempts = 0
+  }
+
+  /**
+   * 同步邮件
+   *
+   * 先用 TOP 读取邮件头判断日期与 Message-ID，只下载本地缺失的邮件。
+   */
+  async syncMails(
+    days?: number,
+    onBatch?: (mails: ParsedMail[]) => Promise<void>,
+    existingMessageIds?: Set<string>
+  ): Promise<MailSyncResult> {
+    if (!this.state.isConnected) {
+      throw new Error('未连接到邮箱服务器')
+    }
+
+    const cutoff = days && days > 0 ? Date.now() - days * 24 * 60 * 60 * 1000 : 0
+
+    return this.runSession(async (client) => {
+      const uidls = await client.uidl()
+      const sizes = await client.list()
+      const summary: MailSyncResult = { total: 0, synced: 0, skippedExisting: 0 }
+      const synced: Pop3UidRecord[] = []
+      let batch: ParsedMail[] = []
+
+      // 从最新的邮件开始
+      const nums = [...uidls.keys()].sort((a, b) => b - a)
+      for (const num of nums) {
+        const header = parseHeaderFields(await client.top(num, 0))
+        if (cutoff && header.date && header.date.getTime() < cutoff) continue
+
+        summary.total++
+        if (header.messageId && existingMessageIds?.has(header.messageId)) {
+          summary.skippedExisting++
+          continue
+        }
+
+        const mail = await this.downloadMail(client, num, sizes.get(num))
+        if (!mail) continue
+
+        batch.push(mail)
+        synced.push({ uidl: uidls.get(num)!, delivered: true, seenAt: new Date() })
+        summary.synced++
+
+        if (batch.length >= SYNC_STRATEGY.BATCH_SIZE) {
+          await onBatch?.(batch)
+          batch = []
+        }
+      }
+
+      if (batch.length > 0) await onBatch?.(batch)
+      await this.saveUids(synced, [])
+
+      logger.debug('%s POP3 同步完成: %d/%d', this.account.email, summary.synced, summary.total)
+      return summary
+    })
+  }
+
+  /**
+   * 静态测试方法
+   */
+  static async testConnection(account: Partial<MailAccount>): Promise<{ success: boolean; message: string }> {
+    const client = createClient(account, 10000)
+    try {
+      await client.connect()
+      await authenticate(client, account)
+      const { count } = await client.stat()
+      await client.quit()
+      return { success: true, message: `连接测试成功（服务器上共 ${count} 封邮件）` }
+    } catch (error) {
+      client.close()
+      return { success: false, message: (error as Error).message }
+    }
+  }
+
+  /**
+   * POP3 只有一个收件箱
+   */
+  static listMailboxes(): MailboxInfo[] {
+    return [{ path: POP3_MAILBOX, name: POP3_MAILBOX, delimiter: '/' }]
+  }
+
+  // ==================== 内部逻辑：会话 ====================
+
+  /**
+   * 执行一次完整的 POP3 会话：连接、认证、执行操作、QUIT 提交
+   */
+  private runSession<T>(action: (client: Pop3Client) => Promise<T>): Promise<T> {
+    const task = this.sessionQueue.catch(() => {}).then(async () => {
+      const client = createClient(this.account, this.provider.getConnectionTimeout(this.config.connectionTimeout))
+      try {
+        await client.connect()
+        await authenticate(client, await this.resolveAuthAccount())
+        const result = await action(client)
+        if (client.isOpen) await client.quit()
+        return result
+      } finally {
+        client.close()
+      }
+    })
+    this.sessionQueue = task
+    return task
+  }
+
+  /**
+   * 拉取新邮件
+   *
+   * - 首次监听：记录服务器上现有的 UIDL，不回溯历史邮件
+   * - 之后：只下载未知 UIDL 的邮件，投递成功后才记录，失败的邮件下次重试
+   * - 按账号策略标记删除（只读观察模式下从不删除）
+   */
+  private async fetchNewMails(client: Pop3Client): Promise<void> {
+    const uidls = await client.uidl()
+    const known = await this.loadUids()
+    const now = new Date()
+
+    if (known === null) {
+      const baseline = [...uidls.values()].map(uidl => ({ uidl, delivered: false, seenAt: now }))
+      await this.saveUids(baseline, [])
+      logger.info('%s POP3 首次监听，记录现有 %d 封邮件', this.account.email, baseline.length)
+      return
+    }
+
+    const knownMap = new Map(known.map(record => [record.uidl, record]))
+    const newNums = [...uidls.entries()]
+      .filter(([, uidl]) => !knownMap.has(uidl))
+      .map(([num]) => num)
+      .sort((a, b) => a - b)
+
+    const added: Pop3UidRecord[] = []
+    const delivered: number[] = []
+
+    if (newNums.length > 0) {
+      logger.debug('%s POP3 发现 %d 封新邮件', this.account.email, newNums.length)
+      const sizes = await client.list()
+
+      for (const num of newNums) {
+        const mail = await this.downloadMail(client, num, sizes.get(num))
+        if (mail) {
+          try {
+            await this.onMailReceived(mail)
+          } catch (err) {
+            logger.error('%s 处理 POP3 邮件 %d 失败: %s', this.account.email, num, (err as Error).message)
+            continue
+          }
+        }
+        // 过大或解析失败的邮件记为未投递，不再重复下载，但保留在服务器上供人工查看
+        added.push({ uidl: uidls.get(num)!, delivered: !!mail, seenAt: now })
+        if (mail) delivered.push(num)
+      }
+    }
+
+    const toDelete = planPop3Deletions(this.account, uidls, knownMap, delivered, now)
+
+    // 先记录新 UIDL，即使后续 QUIT 失败也不会重复投递；记录失败时不发送 DELE，会话不提交
+    await this.saveUids(added, [])
+
+    for (const num of toDelete) {
+      await client.dele(num)
+    }
+
+    // 已不在服务器上的记录以及本次删除的记录，在会话结束后清理
+    const present = new Set(uidls.values())
+    const removed = known.filter(record => !present.has(record.uidl)).map(record => record.uidl)
+    for (const num of toDelete) removed.push(uidls.get(num)!)
+
+    if (toDelete.size > 0) {
+      await client.quit()
+      logger.debug('%s POP3 已删除 %d 封邮件', this.account.email, toDelete.size)
+    }
+    if (removed.length > 0) {
+      // 删除已在服务器上生效，清理失败的记录下次会话会再次清理
+      await this.saveUids([], removed).catch((err) => {
+        logger.warn('%s 清理 POP3 UIDL 失败: %s', this.account.email, (err as Error).message)
+      })
+    }
+  }
+
+  private async downloadMail(client: Pop3Client, num: number, size?: number): Promise<ParsedMail | null> {
+    if (size && size > SYNC_STRATEGY.MAX_MAIL_SIZE) {
+      logger.debug('POP3 邮件 %d 过大 (%d > %d bytes)，跳过', num, size, SYNC_STRATEGY.MAX_MAIL_SIZE)
+      return null
+    }
+
+    const source = await client.retr(num)
+    let parsed: ParsedMail
+    try {
+      parsed = await parseMail(source)
+    } catch (err) {
+      logger.error('解析 POP3 邮件 %d 失败: %s', num, (err as Error).message)
+      return null
+    }
+
+    if (!parsed.from || (!parsed.subject && !parsed.text && !parsed.html)) {
+      logger.debug('POP3 邮件 %d 验证失败，跳过', num)
+      return null
+    }
+
+    parsed.mailbox = POP3_MAILBOX
+    return parsed
+  }
+
+  private async loadUids(): Promise<Pop3UidRecord[] | null> {
+    if (!this.uidStore) return []
+    return this.uidStore.load()
+  }
+
+  /**
+   * 保存 UIDL 记录，失败时抛出：未记录的邮件不能被删除，否则下次会重复下载与投递
+   */
+  private async saveUids(added: Pop3UidRecord[], removed: string[]): Promise<void> {
+    if (!this.uidStore || (added.length === 0 && removed.length === 0)) return
+    await this.uidStore.save(added, removed)
+  }
+
+  private async resolveAuthAccount(): Promise<MailAccount> {
+    if (this.account.authType !== 'oauth2' || !this.accessTokenProvider) return this.account
+
+    const forceRefresh = this.forceTokenRefresh
+    this.forceTokenRefresh = false
+    const accessToken = await this.accessTokenProvider(forceRefresh)
+
+    return {
+      ...this.account,
+      oauth2: { ...this.account.oauth2!, accessToken },
+    }
+  }
+
+  // ==================== 内部逻辑：轮询与重连 ====================
+
+  private startPolling(): void {
+    if (this.disposed) return
+    this.stopPolling()
+
+    try {
+      this.pollTimer = this.ctx.setInterval(() => this.poll(), this.pollInterval)
+      logger.debug('%s POP3 轮询已启动 (间隔 %ds)', this.account.email, Math.floor(this.pollInterval / 1000))
+    } catch (err) {
+      logger.warn('%s POP3 轮询调度失败: %s', this.account.email, (err as Error).message)
+      this.pollTimer = null
+    }
+  }
+
+  private stopPolling(): void {
+    if (this.pollTimer) {
+      this.pollTimer()
+      this.pollTimer = null
+    }
+  }
+
+  private async poll(): Promise<void> {
+    if (this.disposed || this.polling || !this.state.isConnected) return
+    this.polling = true
+    try {
+      await this.runSession(client => this.fetchNewMails(client))
+      logger.debug('POP3 轮询: %s 正常', this.account.email)
+    } catch (error) {
+      if (this.disposed) return
+      logger.warn('%s POP3 轮询失败: %s', this.account.email, (error as Error).message)
+      this.stopPolling()
+      this.handleConnectionFailure(error as Error)
+    } finally {
+      this.polling = false
+    }
+  }
+
+  private markAsConnected(): void {
+    this.state.isConnecting = false
+    this.state.isConnected = true
+    this.reconnectAttempts = 0
+    this.lastConnectError = null
+    this.tokenRefreshRetried = false
+    this.notifyStatus('connected')
+    logger.debug('%s 已连接 (POP3)', this.account.email)
+  }
+
+  private handleConnectionFailure(error: Error): void {
+    this.state.isConnecting = false
+    this.state.isConnected = false
+    this.lastConnectError = error
+
+    const friendlyMsg = getFriendlyErrorMessage(
+      error,
+      this.account.imapHost,
+      this.provider.getCustomErrorMatchers()
+    )
+    logger.error('%s 连接失败: %s', this.account.email, friendlyMsg)
+    this.notifyStatus('error', friendlyMsg)
+
+    const authFailed = (error as Pop3ResponseError).authenticationFailed === true
+    if (authFailed && this.shouldRetryWithFreshToken()) {
+      this.tryScheduleReconnect()
+    } else if (!authFailed && this.provider.shouldRetryOnError(error)) {
+      this.tryScheduleReconnect()
+    } else {
+      logger.debug('%s 错误不可重试: %s', this.account.email, error.message)
+    }
+  }
+
+  private shouldRetryWithFreshToken(): boolean {
+    if (this.account.authType !== 'oauth2' || !this.accessTokenProvider) return false
+    if (this.tokenRefreshRetried) return false
+
+    this.tokenRefreshRetried = true
+    this.forceTokenRefresh = true
+    logger.info('%s 认证失败，将刷新访问令牌后重试', this.account.email)
+    return true
+  }
+
+  private tryScheduleReconnect(): void {
+    if (this.disposed || this.reconnectTimer || !this.account.enabled) return
+
+    this.reconnectAttempts++
+    if (this.reconnectAttempts > this.config.maxReconnectAttempts) {
+      const finalError = this.lastConnectError?.message || '未知错误'
+      logger.warn('%s 达到最大重连次数 (%d/次)，停止重连，最后错误: %s',
+        this.account.email, this.config.maxReconnectAttempts, finalError)
+      this.notifyStatus('error', `已达到最大重连次数 (${this.config.maxReconnectAttempts})，最后错误: ${finalError}`)
+      return
+    }
+
+    const delay = this.calculateReconnectDelay()
+    logger.info('%s 将在 %ds 后重连 (第 %d/%d 次)',
+      this.account.email, Math.floor(delay / 1000), this.reconnectAttempts, this.config.maxReconnectAttempts)
+
+    try {
+      this.reconnectTimer = this.ctx.setTimeout(() => {
+        this.reconnectTimer = null
+        if (this.disposed || this.state.isConnected || this.state.isConnecting) return
+        this.connect().catch((err) => {
+          logger.debug('%s 重连失败: %s', this.account.email, (err as Error).message)
+        })
+      }, delay)
+    } catch (err) {
+      logger.warn('%s 重连调度失败: %s', this.account.email, (err as Error).message)
+      this.reconnectTimer = null
+    }
+  }
+
+  private calculateReconnectDelay(): number {
+    const providerDelay = this.provider.getReconnectDelay(this.reconnectAttempts, this.config.reconnectBaseInterval)
+    const maxDelay = Math.max(1000, this.config.reconnectMaxInterval * 1000)
+    const jitterRatio = Math.max(0, Math.min(this.config.reconnectJitterRatio, 0.5))
+    const jitter = 1 + (Math.random() * 2 - 1) * jitterRatio
+    return Math.max(1000, Math.floor(Math.min(providerDelay, maxDelay) * jitter))
+  }
+
+  private cancelReconnect(): void {
+    if (this.reconnectTimer) {
+      this.reconnectTimer()
+      this.reconnectTimer = null
+    }
+  }
+
+  private notifyStatus(status: MailAccount['status'], error?: string): void {
+    if (!this.onStatusChanged) return
+    try {
+      this.onStatusChanged(status, error)
+    } catch (err) {
+      logger.debug('%s 状态回调已忽略: %s', this.account.email, (err as Error).message)
+    }
+  }
+}
+
+// ==================== 工具函数 ====================
+
+function createClient(account: Partial<MailAccount>, timeout: number): Pop3Client {
+  const host = (account.imapHost || '').trim()
+  return new Pop3Client({
+    host,
+    port: account.imapPort || (account.imapTls === false ? 110 : 995),
+    secure: account.imapTls !== false,
+    allowInsecure: !!account.pop3AllowInsecure,
+    servername: host,
+    timeout,
+  })
+}
+
+async function authenticate(client: Pop3Client, account: Partial<MailAccount>): Promise<void> {
+  const user = account.email || ''
+  if (account.authType === 'oauth2') {
+    const accessToken = account.oauth2?.accessToken
+    if (!accessToken) throw new Error('缺少 OAuth2 访问令牌')
+    await client.loginWithToken(user, accessToken)
+  } else {
+    await client.login(user, account.password || '')
+  }
+}
+
+/**
+ * 从邮件头中提取 Message-ID 与 Date（用于同步前的快速判断）
+ */
+function parseHeaderFields(header: Buffer): { messageId?: string; date?: Date } {
+  const text = header.toString('utf8').replace(/\r\n[ \t]+/g, ' ')
+  const messageId = /^message-id:\s*(.+)$/im.exec(text)?.[1]?.trim()
+  const date = /^date:\s*(.+)$/im.exec(text)?.[1]
+  return { messageId, date: parseMailDate(date) }
+}
@@ -114,6 +114,9 @@ export abstract class MailProviderAdapter {
   /** 支持的域名列表 */
   abstract readonly supportedDomains: string[]
 
+  /** 默认 OAuth2 令牌端点（账号未填写时使用） */
+  readonly oauth2TokenEndpoint?: string
+
   /**
    * 获取 IMAP 配置
    */
@@ -179,6 +182,7 @@ export abstract class MailProviderAdapter {
       'invalid user',
       'wrong password',
       'bad credentials',
+      'invalid_grant',
     ]
 
     return !nonRetryableErrors.some(pattern => msg.includes(pattern))
@@ -220,6 +224,24 @@ export abstract class MailProviderAdapter {
    */
   getErrorHint?(error: Error): string | null
 
+  /**
+   * 生成 IMAP 认证参数
+   *
+   * OAuth2 账号使用 XOAUTH2（accessToken 需由调用方提前刷新并填入），其余使用密码登录。
+   */
+  protected buildAuth(account: MailAccount): ImapFlowOptions['auth'] {
+    if (account.authType === 'oauth2') {
+      return {
+        user: account.email,
+        accessToken: account.oauth2?.accessToken,
+      }
+    }
+    return {
+      user: account.email,
+      pass: account.password,
+    }
+  }
+
   /**
    * 规范化主机名，优先使用解析后的主机，其次账号配置，最后回退值
    */
@@ -272,10 +294,7 @@ export class GenericMailProvider extends MailProviderAdapter {
       host: targetHost,
       port: account.imapPort,
       secure: account.imapTls,
-      auth: {
-        user: account.email,
-        pass: account.password,
-      },
+      auth: this.buildAuth(account),
       logger: false,
       tls: {
         rejectUnauthorized: true,
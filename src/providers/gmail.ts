@@ -64,6 +64,7 @@ export class GmailProvider extends MailProviderAdapter {
   readonly name = 'gmail'
   readonly displayName = 'Gmail (Google)'
   readonly supportedDomains = ['gmail.com', 'googlemail.com']
+  readonly oauth2TokenEndpoint = 'https://oauth2.googleapis.com/token'
 
   /** Gmail 专用 IP 选择策略 */
   private readonly ipStrategy = new GmailIpStrategy()
@@ -77,10 +78,7 @@ export class GmailProvider extends MailProviderAdapter {
       host: targetHost,
       port: account.imapPort || 993,
       secure: true,
-      auth: {
-        user: account.email,
-        pass: account.password,
-      },
+      auth: this.buildAuth(account),
       logger: false,
       tls: {
         rejectUnauthorized: true,
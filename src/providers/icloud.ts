@@ -21,10 +21,7 @@ export class iCloudProvider extends MailProviderAdapter {
       host: targetHost,
       port: account.imapPort || 993,
       secure: account.imapTls,
-      auth: {
-        user: account.email,
-        pass: account.password,
-      },
+      auth: this.buildAuth(account),
       logger: false,
       tls: {
         rejectUnauthorized: true,
@@ -11,6 +11,7 @@ export class OutlookProvider extends MailProviderAdapter {
   readonly name = 'outlook'
   readonly displayName = 'Outlook'
   readonly supportedDomains = ['outlook.com', 'hotmail.com', 'live.com', 'msn.com']
+  readonly oauth2TokenEndpoint = 'https://login.microsoftonline.com/common/oauth2/v2.0/token'
   private readonly defaultHost = 'outlook.office365.com'
 
   getImapConfig(account: MailAccount, resolvedHost?: string, proxyUrl?: string): Partial<ImapFlowOptions> {
@@ -21,10 +22,7 @@ export class OutlookProvider extends MailProviderAdapter {
       host: targetHost,
       port: account.imapPort || 993,
       secure: account.imapTls,
-      auth: {
-        user: account.email,
-        pass: account.password,
-      },
+      auth: this.buildAuth(account),
       logger: false,
       tls: {
         rejectUnauthorized: true,
@@ -63,7 +61,7 @@ export class OutlookProvider extends MailProviderAdapter {
     const message = error.message.toLowerCase()
 
     if (message.includes('authenticationfailed')) {
-      return '认证失败，Outlook 可能需要在账户设置中启用"允许安全性较低的应用"或使用应用专用密码'
+      return '认证失败，Outlook 已停用基本认证，建议将账号切换为 OAuth2 认证'
     }
     if (message.includes('unavailable')) {
       return 'Outlook 服务暂时不可用，可能需要配置代理访问'
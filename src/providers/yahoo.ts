@@ -20,10 +20,7 @@ export class YahooProvider extends MailProviderAdapter {
       host: targetHost,
       port: account.imapPort || 993,
       secure: account.imapTls,
-      auth: {
-        user: account.email,
-        pass: account.password,
-      },
+      auth: this.buildAuth(account),
       logger: false,
       tls: {
         rejectUnauthorized: true,
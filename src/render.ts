@@ -10,6 +10,7 @@ import type {
   MailAttachment,
   ForwardMode,
   RegexConfig,
+  DigestMail,
 } from './types'
 import { DEFAULT_CSS } from './styles'
 import { htmlToImage } from './html2image'
@@ -126,6 +127,16 @@ class TextGenerator {
     return lines.join('\n')
   }
 
+  /**
+   * 生成摘要文本：每封邮件一行，列出时间、主题与发件人
+   */
+  static generateDigest(title: string, mails: DigestMail[]): string {
+    const lines = mails.map((mail, i) =>
+      `${i + 1}. [${MailFormatter.formatDate(mail.receivedAt)}] ${mail.subject || '(无主题)'} - ${MailFormatter.formatAddress(mail.from)}`
+    )
+    return [title, ...lines].join('\n')
+  }
+
   /**
    * 使用正则表达式提取文本内容
    */
@@ -357,6 +368,42 @@ class HtmlGenerator {
 
     return `<div class="mail-attachments">${items}</div>`
   }
+
+  /**
+   * 生成摘要表格的 HTML
+   */
+  static generateDigestHtml(title: string, mails: DigestMail[], customCss?: string): string {
+    const escape = MailFormatter.escapeHtml
+    const rows = mails.map(mail => `
+      <tr>
+        <td style="white-space: nowrap; color: #888;">${escape(MailFormatter.formatDate(mail.receivedAt))}</td>
+        <td>${escape(mail.subject || '(无主题)')}</td>
+        <td>${escape(MailFormatter.formatAddress(mail.from))}</td>
+      </tr>`).join('')
+
+    const css = customCss || DEFAULT_CSS
+    return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <style>${css}</style>
+</head>
+<body>
+  <div class="mail-container">
+    <div class="mail-header"><div class="mail-subject">${escape(title)}</div></div>
+    <table style="width: 100%; border-collapse: collapse;">
+      <thead>
+        <tr style="text-align: left; border-bottom: 1px solid #e8e8e8;">
+          <th>时间</th><th>主题</th><th>发件人</th>
+        </tr>
+      </thead>
+      <tbody>${rows}</tbody>
+    </table>
+  </div>
+</body>
+</html>`
+  }
 }
 
 /**
@@ -467,6 +514,30 @@ export class MailRenderer {
     }
   }
 
+  /**
+   * 生成摘要消息元素
+   *
+   * 规则开启摘要图片时渲染为一张图片，渲染失败或未开启时为纯文本
+   */
+  async generateDigestElements(title: string, mails: DigestMail[], rule: ForwardRule): Promise<h[]> {
+    if (rule.digest?.image) {
+      const html = HtmlGenerator.generateDigestHtml(title, mails, rule.customCss)
+      const imageBase64 = await this.imageRenderer.render(html, rule.renderConfig)
+      if (imageBase64) {
+        return [h.image(`data:image/png;base64,${imageBase64}`)]
+      }
+      logger.warn('Digest image rendering failed, falling back to text')
+    }
+    return [h.text(this.generateDigestText(title, mails))]
+  }
+
+  /**
+   * 生成纯文本摘要（用于邮件目标）
+   */
+  generateDigestText(title: string, mails: DigestMail[]): string {
+    return TextGenerator.generateDigest(title, mails)
+  }
+
   /**
    * 生成用于转发的 Koishi 消息元素
    */
@@ -0,0 +1,682 @@
+/**
+ * 内置 SMTP/LMTP 收信端点
+ *
+ * 让 MX 记录或 Postfix transport 直接把邮件投递给插件，而不是轮询外部邮箱：
+ * 1. 插件内运行一个共享的 SMTP/LMTP 监听器（按监听地址复用）
+ * 2. 每个「SMTP 接收」账号把自己的邮箱地址注册为可接收的收件人
+ * 3. 收到的邮件经 parseMail 解析后走与 IMAP 相同的新邮件流程
+ *
+ * 端点不做 TLS 与 AUTH，默认只监听本机，应放在 Postfix 等 MTA 之后使用。
+ */
+
+import * as net from 'net'
+import { hostname } from 'os'
+import { Context } from 'koishi'
+import type { MailAccount, MailboxInfo } from './types'
+import type { MailSourceConnection, MailSyncResult } from './connection'
+import { SafeLogger } from './imap'
+import { parseMail, type ParsedMail } from './parser'
+
+const logger = new SafeLogger()
+
+/** 推送的邮件统一归入收件箱 */
+export const SMTP_MAILBOX = 'INBOX'
+
+/** 命令行最大长度（RFC 5321 为 512，留出扩展参数余量） */
+const MAX_COMMAND_LENGTH = 4096
+
+/** 单封邮件最多接受的收件人数 */
+const MAX_RECIPIENTS = 100
+
+/** 单个会话允许的错误命令数，超过后断开 */
+const MAX_ERRORS = 10
+
+/** 会话空闲超时 */
+const SESSION_IDLE_TIMEOUT = 5 * 60 * 1000
+
+/** 收信端点协议：smtp 面向 MX 投递，lmtp 面向 Postfix 等 MTA 的本地投递 */
+export type InboundProtocolMode = 'smtp' | 'lmtp'
+
+export interface SmtpReceiverOptions {
+  host: string
+  port: number
+  mode: InboundProtocolMode
+  /** 单封邮件大小上限（字节） */
+  maxMessageSize: number
+}
+
+/** 信封信息 */
+export interface SmtpEnvelope {
+  /** MAIL FROM 地址，退信为空字符串 */
+  from: string
+  /** 本次投递给该收件人的地址 */
+  to: string
+}
+
+/** 收件人处理器：返回后即视为投递成功，抛错则对该收件人回复临时失败 */
+export type SmtpDeliveryHandler = (mail: ParsedMail, envelope: SmtpEnvelope) => Promise<void>
+
+interface SmtpSession {
+  socket: net.Socket
+  buffer: Buffer
+  processing: boolean
+  closed: boolean
+  greeted: boolean
+  errors: number
+  from: string | null
+  recipients: string[]
+  data: {
+    chunks: Buffer[]
+    size: number
+    oversized: boolean
+  } | null
+}
+
+// ==================== 协议服务端 ====================
+
+/**
+ * 精简的 SMTP / LMTP 服务端 (RFC 5321 / RFC 2033)
+ *
+ * 支持 PIPELINING、8BITMIME、SIZE；收件人按已注册的地址校验，
+ * 以 `@domain` 注册的地址可接收该域名下的所有收件人。
+ */
+export class SmtpReceiver {
+  private server: net.Server | null = null
+  private starting: Promise<void> | null = null
+  private readonly sessions = new Set<SmtpSession>()
+  private readonly handlers = new Map<string, SmtpDeliveryHandler>()
+  private readonly serverName = hostname() || 'localhost'
+
+  constructor(readonly options: SmtpReceiverOptions) {}
+
+  get listening(): boolean {
+    return !!this.server?.listening
+  }
+
+  get address(): string {
+    return `${this.options.host}:${this.options.port}`
+  }
+
+  /** 已注册的收件人数量 */
+  get size(): number {
+    return this.handlers.size
+  }
+
+  register(address: string, handler: SmtpDeliveryHandler): void {
+    const key = normalizeAddress(address)
+    if (!key) {
+      throw new Error(`无效的收件地址: ${address}`)
+    }
+    const current = this.handlers.get(key)
+    if (current && current !== handler) {
+      throw new Error(`收件地址 ${key} 已被其他账号使用`)
+    }
+    this.handlers.set(key, handler)
+  }
+
+  unregister(address: string, handler: SmtpDeliveryHandler): void {
+    const key = normalizeAddress(address)
+    if (this.handlers.get(key) === handler) {
+      this.handlers.delete(key)
+    }
+  }
+
+  start(): Promise<void> {
+    if (this.listening) return Promise.resolve()
+    if (this.starting) return this.starting
+
+    this.starting = new Promise<void>((resolve, reject) => {
+      const server = net.createServer(socket => this.handleConnection(socket))
+      const onError = (err: Error) => {
+        server.close()
+        reject(err)
+      }
+      server.once('error', onError)
+      server.listen(this.options.port, this.options.host, () => {
+        server.off('error', onError)
+        server.on('error', (err) => {
+          logger.error('%s 收信端点异常: %s', this.options.mode.toUpperCase(), err.message)
+        })
+        this.server = server
+        logger.info('%s 收信端点已监听 %s', this.options.mode.toUpperCase(), this.address)
+        resolve()
+      })
+    }).finally(() => {
+      this.starting = null
+    })
+
+    return this.starting
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server
+    this.server = null
+    if (!server) return
+
+    for (const session of this.sessions) {
+      this.reply(session, '421 4.3.2 Service shutting down')
+      this.closeSession(session)
+    }
+    await new Promise<void>(resolve => server.close(() => resolve()))
+    logger.info('%s 收信端点已关闭 %s', this.options.mode.toUpperCase(), this.address)
+  }
+
+  // ==================== 会话处理 ====================
+
+  private handleConnection(socket: net.Socket): void {
+    const session: SmtpSession = {
+      socket,
+      buffer: Buffer.alloc(0),
+      processing: false,
+      closed: false,
+      greeted: false,
+      errors: 0,
+      from: null,
+      recipients: [],
+      data: null,
+    }
+    this.sessions.add(session)
+
+    socket.setTimeout(SESSION_IDLE_TIMEOUT)
+    socket.on('timeout', () => {
+      this.reply(session, '421 4.4.2 Idle timeout')
+      this.closeSession(session)
+    })
+    socket.on('data', (chunk: Buffer) => {
+      session.buffer = Buffer.concat([session.buffer, chunk])
+      this.drain(session).catch((err) => {
+        logger.error('收信会话处理失败: %s', (err as Error).message)
+        this.reply(session, '421 4.3.0 Internal error')
+        this.closeSession(session)
+      })
+    })
+    socket.on('error', (err) => {
+      logger.debug('收信会话连接错误: %s', err.message)
+    })
+    socket.on('close', () => {
+      session.closed = true
+      this.sessions.delete(session)
+    })
+
+    const greeting = this.options.mode === 'lmtp' ? 'LMTP' : 'ESMTP'
+    this.reply(session, `220 ${this.serverName} ${greeting} mail-manager ready`)
+  }
+
+  /**
+   * 按行处理缓冲区
+   *
+   * DATA 投递是异步的，处理期间到达的数据（PIPELINING）会在本轮循环中继续消费。
+   */
+  private async drain(session: SmtpSession): Promise<void> {
+    if (session.processing) return
+    session.processing = true
+    try {
+      let index: number
+      while (!session.closed && (index = session.buffer.indexOf(0x0a)) !== -1) {
+        const line = session.buffer.subarray(0, index + 1)
+        session.buffer = session.buffer.subarray(index + 1)
+        if (session.data) {
+          await this.handleDataLine(session, line)
+        } else {
+          await this.handleCommand(session, line.toString('utf8').replace(/\r?\n$/, ''))
+        }
+      }
+
+      // 未换行的残留数据超过上限时断开，避免缓冲区无限增长
+      const limit = session.data ? this.options.maxMessageSize : MAX_COMMAND_LENGTH
+      if (!session.closed && session.buffer.length > limit) {
+        this.reply(session, '500 5.5.6 Line too long')
+        this.closeSession(session)
+      }
+    } finally {
+      session.processing = false
+    }
+  }
+
+  private async handleCommand(session: SmtpSession, line: string): Promise<void> {
+    if (line.length > MAX_COMMAND_LENGTH) {
+      return this.replyError(session, '500 5.5.6 Line too long')
+    }
+
+    const match = /^(\S+)(?:\s+(.*))?$/.exec(line.trim())
+    const verb = match?.[1].toUpperCase() || ''
+    const arg = match?.[2] || ''
+    const isLmtp = this.options.mode === 'lmtp'
+
+    switch (verb) {
+      case 'HELO':
+      case 'EHLO':
+      case 'LHLO': {
+        if (isLmtp !== (verb === 'LHLO')) {
+          return this.replyError(session, `500 5.5.1 ${isLmtp ? 'Use LHLO' : 'Use EHLO or HELO'}`)
+        }
+        if (!arg) {
+          return this.replyError(session, '501 5.5.4 Syntax: ' + verb + ' hostname')
+        }
+        this.resetTransaction(session)
+        session.greeted = true
+        if (verb === 'HELO') {
+          return this.reply(session, `250 ${this.serverName}`)
+        }
+        return this.reply(session, [
+          `250-${this.serverName}`,
+          '250-PIPELINING',
+          '250-8BITMIME',
+          '250-ENHANCEDSTATUSCODES',
+          `250 SIZE ${this.options.maxMessageSize}`,
+        ].join('\r\n'))
+      }
+
+      case 'MAIL': {
+        if (!session.greeted) {
+          return this.replyError(session, `503 5.5.1 Send ${isLmtp ? 'LHLO' : 'EHLO'} first`)
+        }
+        if (session.from !== null) {
+          return this.replyError(session, '503 5.5.1 Nested MAIL command')
+        }
+        const parsed = /^FROM:\s*<([^>]*)>(.*)$/i.exec(arg)
+        if (!parsed) {
+          return this.replyError(session, '501 5.5.4 Syntax: MAIL FROM:<address>')
+        }
+        const size = /(?:^|\s)SIZE=(\d+)/i.exec(parsed[2])
+        if (size && Number(size[1]) > this.options.maxMessageSize) {
+          return this.replyError(session, '552 5.3.4 Message size exceeds fixed limit')
+        }
+        session.from = stripSourceRoute(parsed[1])
+        return this.reply(session, '250 2.1.0 OK')
+      }
+
+      case 'RCPT': {
+        if (session.from === null) {
+          return this.replyError(session, '503 5.5.1 Need MAIL command')
+        }
+        const parsed = /^TO:\s*<([^>]+)>/i.exec(arg)
+        if (!parsed) {
+          return this.replyError(session, '501 5.5.4 Syntax: RCPT TO:<address>')
+        }
+        if (session.recipients.length >= MAX_RECIPIENTS) {
+          return this.reply(session, '452 4.5.3 Too many recipients')
+        }
+        const recipient = normalizeAddress(stripSourceRoute(parsed[1]))
+        if (!this.resolveHandler(recipient)) {
+          logger.debug('收信端点拒绝未知收件人: %s', recipient)
+          return this.reply(session, '550 5.1.1 Mailbox unavailable')
+        }
+        session.recipients.push(recipient)
+        return this.reply(session, '250 2.1.5 OK')
+      }
+
+      case 'DATA': {
+        if (session.from === null) {
+          return this.replyError(session, '503 5.5.1 Need MAIL command')
+        }
+        if (session.recipients.length === 0) {
+          return this.replyError(session, '554 5.5.1 No valid recipients')
+        }
+        session.data = { chunks: [], size: 0, oversized: false }
+        return this.reply(session, '354 End data with <CR><LF>.<CR><LF>')
+      }
+
+      case 'RSET':
+        this.resetTransaction(session)
+        return this.reply(session, '250 2.0.0 OK')
+
+      case 'NOOP':
+        return this.reply(session, '250 2.0.0 OK')
+
+      case 'VRFY':
+        return this.reply(session, '252 2.5.0 Cannot verify, will attempt delivery')
+
+      case 'QUIT':
+        this.reply(session, '221 2.0.0 Bye')
+        return this.closeSession(session)
+
+      case 'STARTTLS':
+      case 'AUTH':
+        return this.replyError(session, '502 5.5.1 Not supported')
+
+      default:
+        return this.replyError(session, '500 5.5.2 Command not recognized')
+    }
+  }
+
+  private async handleDataLine(session: SmtpSession, line: Buffer): Promise<void> {
+    const data = session.data!
+    const content = line.subarray(0, line.length - (line[line.length - 2] === 0x0d ? 2 : 1))
+
+    if (content.length === 1 && content[0] === 0x2e) {
+      session.data = null
+      await this.finishData(session, data)
+      return
+    }
+    if (data.oversized) return
+
+    // 去掉行首的点转义，统一使用 CRLF
+    const unstuffed = content[0] === 0x2e ? content.subarray(1) : content
+    data.size += unstuffed.length + 2
+    if (data.size > this.options.maxMessageSize) {
+      data.oversized = true
+      data.chunks = []
+      return
+    }
+    data.chunks.push(unstuffed, CRLF)
+  }
+
+  /**
+   * 投递邮件并回复结果
+   *
+   * SMTP 对整个事务回复一次；LMTP 按 RCPT 顺序逐个回复每个收件人的结果。
+   */
+  private async finishData(session: SmtpSession, data: NonNullable<SmtpSession['data']>): Promise<void> {
+    const from = session.from || ''
+    const recipients = session.recipients
+    this.resetTransaction(session)
+
+    const respond = (results: string[]) => {
+      if (this.options.mode === 'lmtp') {
+        this.reply(session, results.join('\r\n'))
+      } else {
+        // 任一收件人失败时整体要求重发，已投递的账号会按 Message-ID 去重
+        const failed = results.find(result => !result.startsWith('250'))
+        this.reply(session, failed || results[0])
+      }
+    }
+
+    if (data.oversized) {
+      return respond(recipients.map(() => '552 5.3.4 Message size exceeds fixed limit'))
+    }
+
+    let mail: ParsedMail
+    try {
+      mail = await parseMail(Buffer.concat(data.chunks))
+    } catch (err) {
+      logger.warn('收信端点解析邮件失败: %s', (err as Error).message)
+      return respond(recipients.map(() => '554 5.6.0 Message could not be parsed'))
+    }
+
+    if (!mail.from || (!mail.subject && !mail.text && !mail.html)) {
+      logger.debug('收信端点收到的邮件缺少发件人或内容，拒绝')
+      return respond(recipients.map(() => '554 5.6.0 Message has no sender or content'))
+    }
+    mail.mailbox = SMTP_MAILBOX
+
+    // 同一处理器（账号）只投递一次
+    const delivered = new Map<SmtpDeliveryHandler, Promise<string>>()
+    const results: string[] = []
+    for (const recipient of recipients) {
+      const handler = this.resolveHandler(recipient)
+      if (!handler) {
+        results.push('450 4.2.0 Mailbox no longer available')
+        continue
+      }
+      let task = delivered.get(handler)
+      if (!task) {
+        task = handler(mail, { from, to: recipient })
+          .then(() => '250 2.0.0 Delivered')
+          .catch((err) => {
+            logger.error('收信端点投递给 %s 失败: %s', recipient, (err as Error).message)
+            return '451 4.3.0 Delivery failed, try again later'
+          })
+        delivered.set(handler, task)
+      }
+      results.push(await task)
+    }
+
+    respond(results)
+  }
+
+  private resolveHandler(recipient: string): SmtpDeliveryHandler | undefined {
+    const exact = this.handlers.get(recipient)
+    if (exact) return exact
+    const at = recipient.lastIndexOf('@')
+    return at > 0 ? this.handlers.get(recipient.slice(at)) : undefined
+  }
+
+  private resetTransaction(session: SmtpSession): void {
+    session.from = null
+    session.recipients = []
+    session.data = null
+  }
+
+  private reply(session: SmtpSession, message: string): void {
+    if (session.closed || session.socket.destroyed) return
+    session.socket.write(message + '\r\n')
+  }
+
+  private replyError(session: SmtpSession, message: string): void {
+    this.reply(session, message)
+    if (++session.errors >= MAX_ERRORS) {
+      this.reply(session, '421 4.7.0 Too many errors')
+      this.closeSession(session)
+    }
+  }
+
+  private closeSession(session: SmtpSession): void {
+    if (session.closed) return
+    session.closed = true
+    session.socket.end()
+  }
+}
+
+const CRLF = Buffer.from('\r\n')
+
+// ==================== 共享监听器 ====================
+
+/** 按监听地址复用的收信端点，没有账号注册时自动关闭 */
+const receivers = new Map<string, SmtpReceiver>()
+
+async function acquireReceiver(
+  options: SmtpReceiverOptions,
+  address: string,
+  handler: SmtpDeliveryHandler
+): Promise<SmtpReceiver> {
+  const key = `${options.host}:${options.port}`
+  let receiver = receivers.get(key)
+  if (receiver && receiver.options.mode !== options.mode) {
+    throw new Error(`端口 ${key} 已作为 ${receiver.options.mode.toUpperCase()} 端点运行`)
+  }
+  if (!receiver) {
+    receiver = new SmtpReceiver(options)
+    receivers.set(key, receiver)
+  }
+
+  receiver.register(address, handler)
+  try {
+    await receiver.start()
+  } catch (err) {
+    await releaseReceiver(receiver, address, handler)
+    throw err
+  }
+  return receiver
+}
+
+async function releaseReceiver(receiver: SmtpReceiver, address: string, handler: SmtpDeliveryHandler): Promise<void> {
+  receiver.unregister(address, handler)
+  if (receiver.size > 0) return
+
+  receivers.delete(receiver.address)
+  await receiver.stop()
+}
+
+// ==================== 连接管理 ====================
+
+/**
+ * SMTP/LMTP 推送连接
+ *
+ * 作为虚拟账号接入核心模块：connect 时注册收件地址，disconnect 时注销。
+ * 监听失败（如端口被占用）时按退避间隔重试。
+ */
+export class SmtpConnection implements MailSourceConnection {
+  private receiver: SmtpReceiver | null = null
+  private connecting = false
+  private disposed = false
+  private reconnectTimer: (() => void) | null = null
+  private reconnectAttempts = 0
+
+  private readonly handler: SmtpDeliveryHandler = async (mail, envelope) => {
+    logger.debug('收信端点收到 %s -> %s 的邮件', envelope.from || '<>', envelope.to)
+    await this.onMailReceived(mail)
+  }
+
+  constructor(
+    private readonly ctx: Context,
+    private readonly account: MailAccount,
+    private readonly config: SmtpReceiverOptions & {
+      maxReconnectAttempts: number
+      reconnectBaseInterval: number
+      reconnectMaxInterval: number
+    },
+    private readonly onMailReceived: (mail: ParsedMail) => Promise<void> | void,
+    private readonly onStatusChanged?: (status: MailAccount['status'], error?: string) => void
+  ) {}
+
+  // ==================== 公共 API ====================
+
+  get status(): MailAccount['status'] {
+    if (this.connecting) return 'connecting'
+    if (this.receiver) return 'connected'
+    return 'disconnected'
+  }
+
+  isTerminallyFailed(): boolean {
+    if (this.disposed) return true
+    return this.reconnectAttempts > this.config.maxReconnectAttempts && !this.receiver
+  }
+
+  async connect(): Promise<void> {
+    if (this.disposed || this.receiver) return
+    this.cancelReconnect()
+
+    this.connecting = true
+    this.notifyStatus('connecting')
+
+    try {
+      this.receiver = await acquireReceiver(
+        { host: this.config.host, port: this.config.port, mode: this.config.mode, maxMessageSize: this.config.maxMessageSize },
+        this.account.email,
+        this.handler
+      )
+    } catch (error) {
+      this.connecting = false
+      const message = `收信端点 ${this.config.host}:${this.config.port} 启动失败: ${(error as Error).message}`
+      logger.error('%s %s', this.account.email, message)
+      this.notifyStatus('error', message)
+      this.tryScheduleReconnect()
+      throw new Error(message)
+    }
+
+    // 等待监听期间账号已被断开
+    if (this.disposed) {
+      await releaseReceiver(this.receiver, this.account.email, this.handler)
+      this.receiver = null
+      return
+    }
+
+    this.connecting = false
+    this.reconnectAttempts = 0
+    this.notifyStatus('connected')
+    logger.debug('%s 已注册到 %s 收信端点', this.account.email, this.config.mode.toUpperCase())
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.disposed) return
+    this.disposed = true
+    this.cancelReconnect()
+
+    const receiver = this.receiver
+    this.receiver = null
+    this.connecting = false
+    if (!receiver) return
+
+    await releaseReceiver(receiver, this.account.email, this.handler)
+    logger.debug('%s 已从收信端点注销', this.account.email)
+    this.notifyStatus('disconnected')
+  }
+
+  resetReconnectAttempts(): void {
+    this.reconnectAttempts = 0
+  }
+
+  /**
+   * 推送模式没有可回溯的服务器邮箱
+   */
+  async syncMails(): Promise<MailSyncResult> {
+    return { total: 0, synced: 0, skippedExisting: 0 }
+  }
+
+  /**
+   * 静态测试方法：检查收件地址是否可用，不实际监听
+   */
+  static async testConnection(
+    account: Partial<MailAccount>,
+    options: Pick<SmtpReceiverOptions, 'host' | 'port' | 'mode'>
+  ): Promise<{ success: boolean; message: string }> {
+    const address = normalizeAddress(account.email || '')
+    if (!address) {
+      return { success: false, message: '收件地址无效，请填写邮箱地址或 @域名' }
+    }
+    const endpoint = `${options.mode.toUpperCase()} ${options.host}:${options.port}`
+    return { success: true, message: `将通过 ${endpoint} 接收发往 ${address} 的邮件` }
+  }
+
+  static listMailboxes(): MailboxInfo[] {
+    return [{ path: SMTP_MAILBOX, name: SMTP_MAILBOX, delimiter: '/' }]
+  }
+
+  // ==================== 内部逻辑 ====================
+
+  private tryScheduleReconnect(): void {
+    if (this.disposed || this.reconnectTimer || !this.account.enabled) return
+
+    this.reconnectAttempts++
+    if (this.reconnectAttempts > this.config.maxReconnectAttempts) {
+      logger.warn('%s 收信端点达到最大重试次数 (%d)，停止重试', this.account.email, this.config.maxReconnectAttempts)
+      return
+    }
+
+    const delay = Math.min(
+      this.config.reconnectBaseInterval * 1000 * this.reconnectAttempts,
+      this.config.reconnectMaxInterval * 1000
+    )
+    logger.info('%s 将在 %ds 后重试启动收信端点 (第 %d/%d 次)',
+      this.account.email, Math.floor(delay / 1000), this.reconnectAttempts, this.config.maxReconnectAttempts)
+
+    this.reconnectTimer = this.ctx.setTimeout(() => {
+      this.reconnectTimer = null
+      this.connect().catch((err) => {
+        logger.debug('%s 重试失败: %s', this.account.email, (err as Error).message)
+      })
+    }, delay)
+  }
+
+  private cancelReconnect(): void {
+    if (this.reconnectTimer) {
+      this.reconnectTimer()
+      this.reconnectTimer = null
+    }
+  }
+
+  private notifyStatus(status: MailAccount['status'], error?: string): void {
+    if (!this.onStatusChanged) return
+    try {
+      this.onStatusChanged(status, error)
+    } catch (err) {
+      logger.debug('%s 状态回调已忽略: %s', this.account.email, (err as Error).message)
+    }
+  }
+}
+
+// ==================== 工具函数 ====================
+
+/** 统一收件地址：去空白、转小写；`@domain` 形式保留为域名通配 */
+function normalizeAddress(address: string): string {
+  const trimmed = address.trim().toLowerCase()
+  if (!/^[^@\s]*@[^@\s]+$/.test(trimmed)) return ''
+  return trimmed
+}
+
+/** 去掉 RFC 5321 中已废弃的源路由前缀（@a,@b:user@host） */
+function stripSourceRoute(address: string): string {
+  const colon = address.indexOf(':')
+  return address.startsWith('@') && colon > 0 ? address.slice(colon + 1) : address
+}
@@ -24,6 +24,41 @@ export type { Config } from './config'
  */
 export type MailAccountStatus = 'connected' | 'connecting' | 'disconnected' | 'error'
 
+/**
+ * 账号认证方式
+ *
+ * - `password`: 密码或应用专用授权码 (LOGIN/PLAIN)
+ * - `oauth2`: OAuth2 访问令牌 (XOAUTH2)，由刷新令牌自动续期
+ */
+export type MailAuthType = 'password' | 'oauth2'
+
+/**
+ * 收信协议
+ *
+ * - `imap`: IMAP，支持 IDLE 实时推送与多文件夹（默认）
+ * - `pop3`: POP3，定期轮询收件箱，按 UIDL 去重
+ * - `smtp`: 由插件内置的 SMTP/LMTP 端点接收投递，`email` 为收件地址（`@domain` 表示整个域名）
+ * - `http`: 由外部服务通过 HTTP 路由推送原始邮件，按账号令牌鉴权
+ * - `jmap`: JMAP，EventSource 推送 + Email/changes 增量同步
+ */
+export type MailProtocol = 'imap' | 'pop3' | 'smtp' | 'http' | 'jmap'
+
+/**
+ * 邮件方向
+ *
+ * - `inbound`: 从邮箱收取的邮件（默认）
+ * - `outbound`: 通过发信 SMTP 发出的邮件（回复、mail.send 等）
+ */
+export type MailDirection = 'inbound' | 'outbound'
+
+/**
+ * 邮件目标的转发方式
+ *
+ * - `redirect`: 重定向，保留原主题与正文，Reply-To 指向原发件人
+ * - `wrap`: 包装转发，主题加 `Fwd:`，正文前附原邮件的发件人、时间等信息
+ */
+export type EmailForwardMode = 'redirect' | 'wrap'
+
 /**
  * 转发模式
  *
@@ -65,13 +100,54 @@ export type ConditionType =
   | 'to_contains'      // 收件人包含特定文本
   | 'body_contains'    // 正文包含特定文本
   | 'body_regex'       // 正文匹配正则表达式
+  | 'mailbox_equals'   // 来源文件夹等于指定名称
+  | 'cc_contains'      // 抄送包含特定文本
+  | 'from_domain'      // 发件人域名在列表中（含子域名）
+  | 'has_attachment'   // 带有附件（不含正文内嵌图片）
+  | 'attachment_name_regex' // 任一附件文件名匹配正则表达式
+  | 'attachment_type'  // 任一附件类型在列表中（MIME 类型或扩展名）
+  | 'size_greater_than' // 邮件大小超过指定值（如 2MB）
+  | 'received_between' // 接收时间在指定的星期/时段内
+  | 'account_email'    // 收信账号邮箱在列表中
+  | 'header_equals'    // 指定邮件头等于特定文本
+  | 'header_contains'  // 指定邮件头包含特定文本
+  | 'header_regex'     // 指定邮件头匹配正则表达式
+  | 'header_exists'    // 存在指定邮件头
+  | 'is_unread'        // 未读邮件（本地与服务器上均未读）
   | 'all'              // 匹配所有邮件（无条件）
 
+/**
+ * 规则的投递时段
+ */
+export interface DeliverySchedule {
+  /** 允许投递的时段，语法同「接收时段」条件，如 `mon-fri 09:00-18:00; sat 10:00-12:00` */
+  windows: string
+  /** 时区（IANA 名称），留空使用配置项 ruleTimezone */
+  timezone?: string
+  /** 时段开始时把暂存的邮件合并为一条消息投递 */
+  bundle?: boolean
+}
+
+/**
+ * 规则的摘要模式
+ *
+ * 命中的邮件不再逐封转发，而是累积后合并为一条列出主题、发件人与时间的摘要消息。
+ * 时长与数量至少设置一项，两者都设置时先满足者触发发送。
+ */
+export interface DigestConfig {
+  /** 汇总时长（分钟），从累积的第一封邮件起算；0 表示不按时间发送 */
+  windowMinutes: number
+  /** 累积达到此数量时立即发送；0 表示不按数量发送 */
+  maxCount: number
+  /** 把摘要渲染为一张图片（需要 puppeteer 服务） */
+  image?: boolean
+}
+
 /**
  * 规则匹配策略
  *
  * - `first-match`: 匹配第一个符合条件的规则后停止（默认）
- * - `all-match`: 匹配所有符合条件的规则并依次执行
+ * - `all-match`: 按优先级依次执行所有符合条件的规则，直到某条命中的规则设置了 `stopProcessing`
  */
 export type RuleMatchStrategy = 'first-match' | 'all-match'
 
@@ -83,6 +159,15 @@ export type RuleMatchStrategy = 'first-match' | 'all-match'
  */
 export type ConditionLogic = 'and' | 'or'
 
+/**
+ * 条件组逻辑
+ *
+ * - `and`: 组内条件全部满足
+ * - `or`: 组内满足任一条件
+ * - `not`: 组内条件均不满足
+ */
+export type ConditionGroupLogic = ConditionLogic | 'not'
+
 /**
  * 转发失败处理策略
  *
@@ -120,10 +205,26 @@ export interface MailAccount {
    */
   password: string
 
-  /** IMAP 服务器主机名 (e.g., "imap.gmail.com") */
+  /** 收信协议，缺省为 `imap` */
+  protocol?: MailProtocol
+
+  /** 认证方式，缺省为 `password` */
+  authType?: MailAuthType
+
+  /**
+   * OAuth2 凭证（仅 `authType` 为 `oauth2` 时使用）
+   *
+   * 刷新令牌、客户端密钥与缓存的访问令牌均加密存储。
+   */
+  oauth2?: OAuth2Credentials
+
+  /**
+   * IMAP 服务器主机名 (e.g., "imap.gmail.com")；POP3 账号填写 POP3 服务器；
+   * JMAP 账号填写主机名（使用 /.well-known/jmap）或完整的 Session URL
+   */
   imapHost: string
 
-  /** IMAP 服务器端口 (通常为 993 或 143) */
+  /** IMAP 服务器端口 (通常为 993 或 143)；POP3 通常为 995 或 110 */
   imapPort: number
 
   /** 是否启用 TLS 加密连接 */
@@ -146,6 +247,54 @@ export interface MailAccount {
    */
   proxyUrl?: string
 
+  /**
+   * 监听的文件夹列表（可选）
+   *
+   * 第一个文件夹保持 IDLE 实时监听，其余文件夹通过轮询检查。
+   * 留空时默认仅监听 INBOX。
+   */
+  mailboxes?: string[]
+
+  /**
+   * 只读观察者模式
+   *
+   * 开启后以 EXAMINE 只读方式打开文件夹，不会修改服务器上的任何标记（包括 \Seen），
+   * 适用于与他人共用的邮箱。新邮件仍按 UID 水位线投递，每封只处理一次。
+   */
+  readOnly?: boolean
+
+  /**
+   * POP3：下载后是否在服务器上保留邮件（默认 true）
+   * 关闭后每封邮件成功投递即删除。只读观察模式下始终保留。
+   */
+  pop3LeaveOnServer?: boolean
+
+  /**
+   * POP3：保留在服务器上的天数，超过后删除（0 表示永久保留）
+   * 仅删除由本插件投递过的邮件，首次监听前已存在的邮件不受影响。
+   */
+  pop3DeleteAfterDays?: number
+
+  /**
+   * POP3：关闭 TLS 且服务器不支持 STLS 时是否允许明文连接（默认 false）
+   * 未开启时拒绝连接，避免以明文发送凭证。
+   */
+  pop3AllowInsecure?: boolean
+
+  /**
+   * HTTP 推送令牌（仅 `protocol` 为 `http` 时使用）
+   *
+   * 由服务端生成并加密存储，推送请求通过 `Authorization: Bearer <token>` 绑定到本账号。
+   */
+  inboundToken?: string
+
+  /**
+   * 发信 (SMTP) 设置（可选）
+   *
+   * 配置后可在聊天中引用转发消息回复邮件。
+   */
+  smtp?: SmtpSendSettings
+
   /** 账号当前的全局启用状态 */
   enabled: boolean
 
@@ -162,6 +311,65 @@ export interface MailAccount {
   updatedAt: Date
 }
 
+/**
+ * OAuth2 凭证
+ *
+ * 使用 refresh_token 授权模式向令牌端点换取访问令牌。
+ */
+export interface OAuth2Credentials {
+  /** 客户端 ID */
+  clientId: string
+
+  /** 客户端密钥（公共客户端可留空） */
+  clientSecret?: string
+
+  /** 刷新令牌 */
+  refreshToken: string
+
+  /**
+   * 令牌端点 URL
+   * 留空时使用服务商默认值（Gmail / Outlook），其他邮箱必须填写。
+   */
+  tokenEndpoint?: string
+
+  /** 请求的权限范围（可选，部分服务商刷新时要求携带） */
+  scope?: string
+
+  /** 缓存的访问令牌 */
+  accessToken?: string
+
+  /** 访问令牌过期时间（毫秒时间戳） */
+  expiresAt?: number
+}
+
+/**
+ * 发信 (SMTP) 设置
+ *
+ * 用户名与密码留空时沿用收信凭证（包括 OAuth2 访问令牌）。
+ */
+export interface SmtpSendSettings {
+  /** 是否启用发信 */
+  enabled: boolean
+
+  /** SMTP 服务器主机名 (e.g., "smtp.gmail.com") */
+  host: string
+
+  /** SMTP 服务器端口（通常为 465 或 587） */
+  port: number
+
+  /** 是否直接使用 TLS 连接（465）；关闭时通过 STARTTLS 升级 */
+  secure: boolean
+
+  /** 登录用户名，留空使用邮箱地址 */
+  username?: string
+
+  /** 登录密码（加密存储），留空沿用收信密码 */
+  password?: string
+
+  /** 发件人显示名称 */
+  fromName?: string
+}
+
 /**
  * 邮件消息实体
  *
@@ -175,12 +383,27 @@ export interface StoredMail {
   /** 所属邮箱账号 ID */
   accountId: number
 
+  /** 邮件方向，缺省为 `inbound` */
+  direction?: MailDirection
+
   /**
    * 服务器端的邮件唯一标识 (Message-ID)
    * 用于去重和引用。
    */
   messageId: string
 
+  /** 邮件所在的服务器文件夹（如 "INBOX"、"Archive/GitHub"） */
+  mailbox?: string
+
+  /** 邮件在所在文件夹中的 UID（仅在 UIDVALIDITY 不变时有效） */
+  uid?: number
+
+  /**
+   * 服务器上的邮件标记 (e.g., "\Seen", "\Flagged")
+   * 拉取时记录，支持 CONDSTORE 的服务器会在重连后同步期间的变化。
+   */
+  serverFlags?: string[]
+
   /** 发件人信息 */
   from: MailAddress
 
@@ -190,6 +413,24 @@ export interface StoredMail {
   /** 抄送 (CC) 列表 */
   cc?: MailAddress[]
 
+  /** 回复地址 (Reply-To)，回复邮件时优先使用 */
+  replyTo?: MailAddress[]
+
+  /**
+   * 所在会话的 Message-ID 链 (References)
+   * 回复时在末尾追加本邮件的 Message-ID 作为新邮件的 References。
+   */
+  references?: string[]
+
+  /** 所回复邮件的 Message-ID (In-Reply-To) */
+  inReplyTo?: string
+
+  /**
+   * 会话 ID
+   * 会话首封邮件的 Message-ID，按 References / In-Reply-To 推算；升级前入库的邮件在启动时补写。
+   */
+  threadId?: string
+
   /** 邮件主题 */
   subject: string
 
@@ -212,6 +453,15 @@ export interface StoredMail {
    */
   attachments: MailAttachment[]
 
+  /** 原始邮件大小（字节），旧数据缺失时按正文与附件估算 */
+  size?: number
+
+  /**
+   * 原始邮件头（按出现顺序）
+   * 用于邮件头条件匹配与控制台查看，过长时截断。
+   */
+  headers?: MailHeader[]
+
   /** 邮件接收时间（服务器时间） */
   receivedAt: Date
 
@@ -275,6 +525,13 @@ export interface ForwardRule {
    */
   conditions: ForwardCondition[]
 
+  /**
+   * 嵌套条件树
+   *
+   * 设置后取代 conditions 与 conditionLogic；未设置的旧规则按两者组成的单层条件组匹配。
+   */
+  conditionTree?: ConditionGroup
+
   /** 转发目标列表（发送到哪些平台/群组） */
   targets: ForwardTarget[]
 
@@ -329,6 +586,42 @@ export interface ForwardRule {
    */
   skipForwarded: boolean
 
+  /**
+   * 命中后停止处理后续规则
+   * 仅在 `all-match` 策略下有意义，默认为 false
+   */
+  stopProcessing: boolean
+
+  /**
+   * 只转发会话中的首封邮件
+   * 同一会话已有更早收到的邮件时不再转发回复，默认为 false
+   */
+  threadFirstOnly: boolean
+
+  /**
+   * 在聊天中引用同一会话的上一条转发消息
+   * 会话中的其他邮件已转发到同一频道时，新消息引用最近的一条，默认为 false
+   */
+  threadQuote: boolean
+
+  /**
+   * 影子运行
+   * 规则启用时照常匹配实时邮件，但只记录本会执行的操作，不投递，默认为 false
+   */
+  shadow: boolean
+
+  /**
+   * 投递时段
+   * 时段外匹配的邮件暂存在投递队列中，到时段开始时再投递
+   */
+  schedule?: DeliverySchedule
+
+  /**
+   * 摘要模式
+   * 设置后命中的邮件累积为摘要统一发送，不进入投递队列
+   */
+  digest?: DigestConfig
+
   /**
    * 失败重试次数
    * 默认为 0（不重试）
@@ -348,6 +641,352 @@ export interface ForwardRule {
   updatedAt: Date
 }
 
+/**
+ * 文件夹同步状态
+ *
+ * 记录每个账号/文件夹已处理到的 UID 水位线，
+ * 新邮件以「UID 大于水位线」判定，不依赖服务器上的 \Seen 标记。
+ * 对应数据库表: `mail_manager.mailbox_states`
+ */
+export interface MailboxState {
+  /** 唯一标识符 (自增主键) */
+  id: number
+
+  /** 所属邮箱账号 ID */
+  accountId: number
+
+  /** 文件夹路径 */
+  mailbox: string
+
+  /**
+   * 文件夹的 UIDVALIDITY
+   * IMAP 中为 64 位整数，这里以字符串保存；变化时需要全量重新同步。
+   */
+  uidValidity: string
+
+  /** 已处理的最大 UID */
+  lastUid: number
+
+  /**
+   * 上次完整处理时的 HIGHESTMODSEQ（CONDSTORE）
+   * 重连后据此只拉取变化的邮件；未记录时回退到 UID 搜索。
+   */
+  highestModseq?: string
+
+  /** JMAP 账号上次处理完成时的 Email 状态字符串 */
+  syncState?: string
+
+  /** 最后更新时间 */
+  updatedAt: Date
+}
+
+/**
+ * POP3 已知邮件记录
+ *
+ * 按 UIDL 去重新邮件，并记录首次发现时间以支持「保留 N 天后删除」。
+ * 对应数据库表: `mail_manager.pop3_uids`
+ */
+export interface Pop3Uid {
+  /** 唯一标识符 (自增主键) */
+  id: number
+
+  /** 关联的账号 ID */
+  accountId: number
+
+  /** 服务器分配的 UIDL */
+  uidl: string
+
+  /** 是否已下载并投递 */
+  delivered: boolean
+
+  /** 首次发现时间 */
+  seenAt: Date
+}
+
+/**
+ * 转发消息与邮件的对应关系
+ *
+ * 记录转发到聊天后产生的消息 ID，用户引用该消息即可定位原邮件（如回复邮件）。
+ * 对应数据库表: `mail_manager.message_links`
+ */
+export interface MessageLink {
+  /** 唯一标识符 (自增主键) */
+  id: number
+
+  /** 对应的邮件 ID */
+  mailId: number
+
+  /** 邮件所属账号 ID */
+  accountId: number
+
+  /** 消息所在平台 */
+  platform: string
+
+  /** 消息所在频道 */
+  channelId: string
+
+  /** 平台消息 ID */
+  messageId: string
+
+  /** 记录时间 */
+  createdAt: Date
+}
+
+/** 转发记录状态 */
+export type ForwardLogStatus = 'success' | 'failed'
+
+/**
+ * 转发记录
+ *
+ * 每次向单个目标投递（含每次重试）写入一条，用于按规则判断是否已转发以及查看投递历史。
+ * 对应数据库表: `mail_manager.forward_logs`
+ */
+export interface ForwardLog {
+  /** 唯一标识符 (自增主键) */
+  id: number
+
+  /** 对应的邮件 ID */
+  mailId: number
+
+  /** 邮件所属账号 ID */
+  accountId: number
+
+  /** 执行转发的规则 ID，未指定规则的手动转发为 0 */
+  ruleId: number
+
+  /** 目标类型 */
+  targetType: 'chat' | 'email' | 'webhook'
+
+  /** 目标标识（如 `chat:平台:机器人:频道`、`email:地址`、`webhook:URL`），用于判断同一目标是否已投递成功 */
+  targetKey: string
+
+  /** 目标显示名称 */
+  targetName?: string
+
+  /** 第几次尝试（从 1 开始） */
+  attempt: number
+
+  /** 投递结果 */
+  status: ForwardLogStatus
+
+  /** 失败原因 */
+  error?: string
+
+  /** 投递产生的消息 ID（聊天平台消息 ID 或外发邮件的 Message-ID） */
+  messageIds: string[]
+
+  /** Webhook 目标的 HTTP 状态码（请求未完成时为空） */
+  httpStatus?: number
+
+  /** 记录时间 */
+  createdAt: Date
+}
+
+/**
+ * 投递任务状态
+ *
+ * - `pending`: 等待投递，到达 `nextAttemptAt` 后执行
+ * - `running`: 正在投递
+ * - `failed`: 重试次数已用尽，等待手动重试或丢弃
+ */
+export type DeliveryStatus = 'pending' | 'running' | 'failed'
+
+/**
+ * 投递任务
+ *
+ * 自动转发按「邮件 + 规则」入队，全部目标投递成功后删除；失败的目标按指数退避重试，插件重启后继续处理。
+ * 对应数据库表: `mail_manager.deliveries`
+ */
+export interface Delivery {
+  /** 唯一标识符 (自增主键) */
+  id: number
+
+  /** 对应的邮件 ID */
+  mailId: number
+
+  /** 邮件所属账号 ID */
+  accountId: number
+
+  /** 执行转发的规则 ID */
+  ruleId: number
+
+  /** 待投递的目标（上次失败的目标），为空时使用规则当前的全部目标 */
+  targets?: ForwardTarget[]
+
+  /** 任务状态 */
+  status: DeliveryStatus
+
+  /** 已尝试次数 */
+  attempts: number
+
+  /** 最多尝试次数（规则重试次数 + 1） */
+  maxAttempts: number
+
+  /** 下次尝试时间 */
+  nextAttemptAt: Date
+
+  /** 是否因规则的投递时段被暂存 */
+  held: boolean
+
+  /** 最近一次失败的原因 */
+  lastError?: string
+
+  /** 入队时间 */
+  createdAt: Date
+
+  /** 更新时间 */
+  updatedAt: Date
+}
+
+/** 投递队列列表项（附带邮件主题与规则名称） */
+export interface DeliveryListItem extends Delivery {
+  mailSubject?: string
+  ruleName?: string
+}
+
+/**
+ * 摘要中累积的邮件
+ *
+ * 摘要发送成功后删除；按规则统计数量与最早加入时间，插件重启后继续累积。
+ * 对应数据库表: `mail_manager.digest_items`
+ */
+export interface DigestItem {
+  /** 唯一标识符 (自增主键) */
+  id: number
+
+  /** 所属规则 ID */
+  ruleId: number
+
+  /** 对应的邮件 ID */
+  mailId: number
+
+  /** 邮件所属账号 ID */
+  accountId: number
+
+  /** 加入摘要的时间 */
+  createdAt: Date
+}
+
+/** 摘要中列出的邮件字段（不含正文） */
+export type DigestMail = Pick<StoredMail, 'id' | 'accountId' | 'subject' | 'from' | 'receivedAt'>
+
+/** 待发送的摘要 */
+export interface DigestSummary {
+  ruleId: number
+  ruleName?: string
+  /** 已累积的邮件数 */
+  count: number
+  /** 最早加入的时间 */
+  since: Date
+}
+
+/**
+ * 影子规则命中后本会执行的操作
+ * - `forward`: 转发到规则的目标
+ * - `digest`: 加入摘要
+ * - `skipped`: 因跳过已转发、只转发会话首封或被优先级更高的规则抢先而不执行
+ */
+export type ShadowAction = 'forward' | 'digest' | 'skipped'
+
+/**
+ * 影子运行记录
+ *
+ * 影子规则命中实时邮件时写入一条，记录本会执行的操作与目标，不实际投递。
+ * 对应数据库表: `mail_manager.shadow_logs`
+ */
+export interface ShadowLog {
+  /** 唯一标识符 (自增主键) */
+  id: number
+
+  /** 影子规则 ID */
+  ruleId: number
+
+  /** 对应的邮件 ID */
+  mailId: number
+
+  /** 邮件所属账号 ID */
+  accountId: number
+
+  /** 邮件主题（邮件被清理后仍可辨认） */
+  mailSubject: string
+
+  /** 本会执行的操作 */
+  action: ShadowAction
+
+  /** 补充说明，如跳过原因或时段外的投递时间 */
+  detail?: string
+
+  /** 本会投递的目标名称 */
+  targets: string[]
+
+  /** 命中时间 */
+  createdAt: Date
+}
+
+/** 影子运行记录列表项 */
+export interface ShadowLogListItem extends ShadowLog {
+  ruleName?: string
+}
+
+/** 影子运行记录查询参数 */
+export interface ShadowLogQuery {
+  /** 只查询指定规则 */
+  ruleId?: number
+  page?: number
+  pageSize?: number
+}
+
+/**
+ * 规则变更类型
+ * - `create`: 创建（含导入）
+ * - `update`: 修改
+ * - `delete`: 删除
+ * - `restore`: 恢复到历史版本
+ */
+export type RuleVersionAction = 'create' | 'update' | 'delete' | 'restore'
+
+/**
+ * 规则历史版本
+ *
+ * 规则每次变更后写入一条，保存变更后的完整配置（删除时为删除前的配置），删除规则后仍保留。
+ * 对应数据库表: `mail_manager.rule_versions`
+ */
+export interface RuleVersion {
+  /** 唯一标识符 (自增主键) */
+  id: number
+
+  /** 规则 ID */
+  ruleId: number
+
+  /** 规则内的版本号，从 1 开始递增 */
+  version: number
+
+  /** 变更类型 */
+  action: RuleVersionAction
+
+  /** 规则配置快照 */
+  snapshot: ForwardRule
+
+  /** 执行变更的控制台用户，未启用登录或非控制台操作时为空 */
+  operator?: string
+
+  /** 恢复操作的来源版本号 */
+  restoredFrom?: number
+
+  /** 变更时间 */
+  createdAt: Date
+}
+
+/** 规则两个版本之间的字段差异 */
+export interface RuleFieldDiff {
+  /** 字段路径，嵌套对象以 `.` 连接，如 `renderConfig.fontSize` */
+  field: string
+  /** 旧版本的值，字段不存在时为空 */
+  before?: unknown
+  /** 新版本的值，字段不存在时为空 */
+  after?: unknown
+}
+
 /**
  * 正则内容提取配置
  */
@@ -389,6 +1028,14 @@ export interface MailAttachment {
   cid?: string
 }
 
+/** 邮件头 */
+export interface MailHeader {
+  /** 头名称（保留原始大小写） */
+  name: string
+  /** 头内容（折行已合并，未解码） */
+  value: string
+}
+
 /** 转发内容元素配置 */
 export interface ForwardElement {
   /** 元素类型 */
@@ -409,12 +1056,31 @@ export interface ForwardCondition {
   type: ConditionType
   /** 匹配值（关键词或正则表达式） */
   value: string
+  /** 邮件头名称（仅 header_* 条件，不区分大小写） */
+  header?: string
   /** 是否取反（即“不包含”或“不匹配”） */
   negate?: boolean
 }
 
+/** 条件组，可与单个条件混合嵌套 */
+export interface ConditionGroup {
+  type: 'group'
+  /** 组内条件的组合逻辑 */
+  logic: ConditionGroupLogic
+  /** 组内的条件或子条件组 */
+  conditions: ConditionNode[]
+}
+
+/** 条件树节点 */
+export type ConditionNode = ForwardCondition | ConditionGroup
+
 /** 转发目标配置 */
-export interface ForwardTarget {
+export type ForwardTarget = ChatForwardTarget | EmailForwardTarget | WebhookForwardTarget
+
+/** 聊天转发目标 */
+export interface ChatForwardTarget {
+  /** 目标类型，缺省为 `chat`（兼容旧数据） */
+  type?: 'chat'
   /** 目标平台 (e.g., "onebot", "discord") */
   platform: string
   /** 机器人自身的 ID (用于多账号区分) */
@@ -425,6 +1091,50 @@ export interface ForwardTarget {
   displayName?: string
 }
 
+/** 邮件转发目标：通过指定账号的发信 SMTP 把邮件发到另一个地址 */
+export interface EmailForwardTarget {
+  type: 'email'
+  /** 收件地址 */
+  address: string
+  /** 发信账号 ID（需启用发信 SMTP） */
+  accountId: number
+  /** 转发方式 */
+  mode: EmailForwardMode
+  /** 目标显示名称（用于 UI 展示，非逻辑字段） */
+  displayName?: string
+}
+
+/** Webhook 转发目标：把邮件以 JSON 形式 POST 到指定地址 */
+export interface WebhookForwardTarget {
+  type: 'webhook'
+  /** 接收地址 (http/https) */
+  url: string
+  /** 附加的请求头 */
+  headers?: Record<string, string>
+  /** HMAC-SHA256 签名密钥，设置后请求带 X-Mail-Manager-Signature 头 */
+  secret?: string
+  /**
+   * JSON 请求体模板，留空时使用默认格式
+   *
+   * 字符串中的 `{{subject}}` 等占位符替换为邮件字段；整个字符串只有一个占位符时保留字段的原始 JSON 类型。
+   */
+  bodyTemplate?: string
+  /** 目标显示名称（用于 UI 展示，非逻辑字段） */
+  displayName?: string
+}
+
+/** 服务器文件夹信息 */
+export interface MailboxInfo {
+  /** 完整路径（用于 SELECT/监听） */
+  path: string
+  /** 显示名称 */
+  name: string
+  /** 层级分隔符 */
+  delimiter: string
+  /** 特殊用途标记 (e.g., "\Sent", "\Junk") */
+  specialUse?: string
+}
+
 /** 图片渲染配置参数 */
 export interface RenderConfig {
   /** 图片最大宽度 (px) */
@@ -452,10 +1162,19 @@ export interface CreateMailAccountRequest {
   name: string
   email: string
   password: string
+  protocol?: MailProtocol
+  authType?: MailAuthType
+  oauth2?: Partial<OAuth2Credentials>
   imapHost: string
   imapPort?: number
   imapTls?: boolean
   proxyUrl?: string
+  mailboxes?: string[]
+  readOnly?: boolean
+  pop3LeaveOnServer?: boolean
+  pop3DeleteAfterDays?: number
+  pop3AllowInsecure?: boolean
+  smtp?: Partial<SmtpSendSettings>
   enabled?: boolean
 }
 
@@ -464,10 +1183,21 @@ export interface UpdateMailAccountRequest {
   name?: string
   email?: string
   password?: string
+  protocol?: MailProtocol
+  authType?: MailAuthType
+  /** 密钥类字段留空时保持原值不变 */
+  oauth2?: Partial<OAuth2Credentials>
   imapHost?: string
   imapPort?: number
   imapTls?: boolean
   proxyUrl?: string
+  mailboxes?: string[]
+  readOnly?: boolean
+  pop3LeaveOnServer?: boolean
+  pop3DeleteAfterDays?: number
+  pop3AllowInsecure?: boolean
+  /** 发信密码留空时保持原值不变 */
+  smtp?: Partial<SmtpSendSettings>
   enabled?: boolean
   sendImapId?: boolean
 }
@@ -475,15 +1205,64 @@ export interface UpdateMailAccountRequest {
 /** 邮件列表查询参数 */
 export interface MailListQuery {
   accountId?: number
+  direction?: MailDirection
   page?: number
   pageSize?: number
   isRead?: boolean
   isForwarded?: boolean
+  mailbox?: string
   keyword?: string
   startDate?: string
   endDate?: string
 }
 
+/** 外发邮件附件 */
+export interface OutgoingAttachment {
+  filename: string
+  content: Buffer
+  contentType?: string
+  /** Content-ID，HTML 正文内嵌图片引用 */
+  cid?: string
+}
+
+/**
+ * 发送新邮件请求
+ *
+ * 收件人支持 `a@example.com`、`张三 <a@example.com>` 或逗号分隔的多个地址。
+ */
+export interface SendMailRequest {
+  /** 发信账号：账号 ID、邮箱地址或账号名称 */
+  account: number | string
+  to: string | string[]
+  cc?: string | string[]
+  subject: string
+  /** 纯文本正文 */
+  text?: string
+  /** HTML 正文（可选） */
+  html?: string
+  attachments?: OutgoingAttachment[]
+}
+
+/**
+ * 邮件管理服务
+ *
+ * 插件就绪后通过 `ctx.mailManager` 提供给其他插件，使用前需声明 `inject: ['mailManager']`。
+ */
+export interface MailManagerService {
+  /** 发送新邮件，返回记录在邮件表中的已发送邮件 */
+  send(request: SendMailRequest): Promise<StoredMail>
+}
+
+/** 按会话分组的邮件列表项 */
+export interface MailThreadSummary {
+  /** 会话 ID */
+  threadId: string
+  /** 会话中符合筛选条件的邮件数 */
+  count: number
+  /** 会话中最新的一封邮件 */
+  mail: StoredMail
+}
+
 /** 通用分页响应结构 */
 export interface PaginatedResponse<T> {
   items: T[]
@@ -539,10 +1318,22 @@ export interface ConnectionTestResult {
 // ============================================================================
 
 declare module 'koishi' {
+  interface Context {
+    mailManager: MailManagerService
+  }
+
   interface Tables {
     'mail_manager.accounts': MailAccount
     'mail_manager.mails': StoredMail
     'mail_manager.rules': ForwardRule
+    'mail_manager.mailbox_states': MailboxState
+    'mail_manager.pop3_uids': Pop3Uid
+    'mail_manager.message_links': MessageLink
+    'mail_manager.forward_logs': ForwardLog
+    'mail_manager.deliveries': Delivery
+    'mail_manager.digest_items': DigestItem
+    'mail_manager.shadow_logs': ShadowLog
+    'mail_manager.rule_versions': RuleVersion
   }
 }
 
@@ -554,10 +1345,84 @@ export interface RuleTestResult {
   matchedConditions: string[]
   /** 匹配失败的条件描述列表 */
   unmatchedConditions: string[]
+  /** 条件树各节点的匹配结果 */
+  conditionResult: ConditionTestNode
   /** 预览内容（仅在匹配成功时提供） */
   previewContent?: ForwardPreviewResponse
 }
 
+/** 条件树节点的测试结果 */
+export interface ConditionTestNode {
+  /** 节点描述（条件的类型与值，或条件组的逻辑） */
+  description: string
+  /** 节点是否满足（已计入取反） */
+  matched: boolean
+  /** 子节点结果（仅条件组） */
+  children?: ConditionTestNode[]
+}
+
+/** 规则回测请求 */
+export interface RuleBacktestRequest {
+  /** 已保存规则的 ID */
+  ruleId?: number
+  /** 未保存的规则草稿，与 ruleId 同时提供时覆盖已保存规则的对应字段 */
+  draft?: Partial<ForwardRule>
+  /** 回测最近多少天收到的邮件 */
+  days: number
+  /** 上一页返回的 nextCursor，首页留空 */
+  cursor?: number
+  /** 每页扫描的邮件数，默认 100，最多 500 */
+  pageSize?: number
+}
+
+/**
+ * 规则回测结果（一页）
+ *
+ * 各项统计只包含本页扫描的邮件，由调用方逐页累加
+ */
+export interface RuleBacktestResult {
+  /** 时间范围内规则适用的收件总数 */
+  total: number
+  /** 本页扫描的邮件数 */
+  scanned: number
+  /** 本页命中的邮件 */
+  matches: RuleBacktestMatch[]
+  /** 条件树各节点的满足次数，按先序排列；本页没有邮件时为空 */
+  conditionHits: RuleBacktestConditionHit[]
+  /** 回测规则命中后，按 first-match 不会再执行的已有规则 */
+  shadowedRules: RuleBacktestRuleCount[]
+  /** 优先级更高、先于回测规则命中的已有规则 */
+  blockingRules: RuleBacktestRuleCount[]
+  /** 下一页的游标，扫描完毕时不返回 */
+  nextCursor?: number
+}
+
+/** 回测命中的邮件 */
+export interface RuleBacktestMatch {
+  mail: DigestMail
+  /** 被回测规则遮蔽的已有规则 ID */
+  shadowedRuleIds: number[]
+  /** 先于回测规则命中的已有规则 ID，此时回测规则不会执行 */
+  blockedByRuleId?: number
+}
+
+/** 条件树节点的满足次数 */
+export interface RuleBacktestConditionHit {
+  /** 节点深度，根节点为 0 */
+  depth: number
+  /** 节点描述 */
+  description: string
+  /** 满足该节点的邮件数（已计入取反） */
+  hits: number
+}
+
+/** 已有规则受回测规则影响的邮件数 */
+export interface RuleBacktestRuleCount {
+  ruleId: number
+  ruleName: string
+  count: number
+}
+
 /** 规则导出数据结构 */
 export interface RuleExport {
   /** 导出格式版本 */
@@ -586,9 +1451,11 @@ declare module '@koishijs/plugin-console' {
     'mail-manager/accounts/delete'(id: number): Promise<void>
     'mail-manager/accounts/test'(id: number): Promise<ConnectionTestResult>
     'mail-manager/accounts/test-temp'(data: Partial<CreateMailAccountRequest>): Promise<ConnectionTestResult>
+    'mail-manager/accounts/mailboxes'(data: Partial<CreateMailAccountRequest>, id?: number): Promise<MailboxInfo[]>
     'mail-manager/accounts/connect'(id: number): Promise<void>
     'mail-manager/accounts/disconnect'(id: number): Promise<void>
     'mail-manager/accounts/sync'(id: number, days?: number): Promise<{ total: number; new: number; existing: number }>
+    'mail-manager/accounts/inbound-token'(id: number, regenerate?: boolean): Promise<string>
 
     // --- 邮件管理 ---
     'mail-manager/mails/list'(query: MailListQuery): Promise<PaginatedResponse<StoredMail>>
@@ -596,6 +1463,9 @@ declare module '@koishijs/plugin-console' {
     'mail-manager/mails/delete'(id: number): Promise<void>
     'mail-manager/mails/read'(id: number): Promise<void>
     'mail-manager/mails/forward'(mailId: number, ruleId?: number): Promise<void>
+    'mail-manager/mails/forward-logs'(mailId: number): Promise<ForwardLog[]>
+    'mail-manager/mails/threads'(query: MailListQuery): Promise<PaginatedResponse<MailThreadSummary>>
+    'mail-manager/mails/thread'(mailId: number): Promise<StoredMail[]>
     'mail-manager/mails/batch-delete'(accountId?: number, days?: number): Promise<{ deleted: number }>
 
     // --- 规则管理 ---
@@ -605,12 +1475,26 @@ declare module '@koishijs/plugin-console' {
     'mail-manager/rules/update'(id: number, data: Partial<ForwardRule>): Promise<ForwardRule>
     'mail-manager/rules/delete'(id: number): Promise<void>
     'mail-manager/rules/test'(ruleId: number, mailId: number): Promise<RuleTestResult>
+    'mail-manager/rules/backtest'(request: RuleBacktestRequest): Promise<RuleBacktestResult>
+    'mail-manager/rules/versions'(ruleId: number): Promise<RuleVersion[]>
+    'mail-manager/rules/versions/diff'(ruleId: number, fromVersion: number, toVersion?: number): Promise<RuleFieldDiff[]>
+    'mail-manager/rules/versions/restore'(ruleId: number, version: number): Promise<ForwardRule>
+    'mail-manager/rules/deleted'(): Promise<RuleVersion[]>
     'mail-manager/rules/export'(): Promise<RuleExport>
     'mail-manager/rules/import'(data: RuleExport): Promise<RuleImportResult>
 
+    // --- 投递队列 ---
+    'mail-manager/deliveries/list'(status?: DeliveryStatus): Promise<DeliveryListItem[]>
+    'mail-manager/deliveries/retry'(id: number): Promise<void>
+    'mail-manager/deliveries/discard'(id: number): Promise<void>
+
+    // --- 影子运行 ---
+    'mail-manager/shadow-logs/list'(query: ShadowLogQuery): Promise<PaginatedResponse<ShadowLogListItem>>
+    'mail-manager/shadow-logs/clear'(ruleId?: number): Promise<{ deleted: number }>
+
     // --- 其他功能 ---
     'mail-manager/preview'(request: ForwardPreviewRequest): Promise<ForwardPreviewResponse>
-    'mail-manager/targets'(): Promise<ForwardTarget[]>
+    'mail-manager/targets'(): Promise<ChatForwardTarget[]>
     'mail-manager/stats'(): Promise<{
       accountCount: number
       connectedCount: number
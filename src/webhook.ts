@@ -0,0 +1,244 @@
+/**
+ * Webhook 投递
+ *
+ * 把邮件以 JSON 形式 POST 到外部地址：
+ * - 请求体默认包含邮件的主要字段，也可以用 JSON 模板自定义
+ * - 配置密钥时以 HMAC-SHA256 对 `<时间戳>.<请求体>` 签名，接收方据此校验来源并拒绝重放
+ * - 非 2xx 响应视为失败，由转发流程按规则重试
+ */
+
+import { createHmac } from 'crypto'
+import type { DigestMail, ForwardRule, MailAddress, StoredMail, WebhookForwardTarget } from './types'
+
+/** 签名请求头 */
+export const SIGNATURE_HEADER = 'X-Mail-Manager-Signature'
+
+/** 签名时间戳请求头（Unix 秒） */
+export const TIMESTAMP_HEADER = 'X-Mail-Manager-Timestamp'
+
+/** 事件类型请求头 */
+const EVENT_HEADER = 'X-Mail-Manager-Event'
+
+/** 失败时附带的响应体长度上限 */
+const MAX_ERROR_BODY_LENGTH = 200
+
+/** 单个占位符：整个字符串就是一个占位符时保留原始类型 */
+const SINGLE_PLACEHOLDER = /^\{\{(\w+)\}\}$/
+
+const PLACEHOLDER = /\{\{(\w+)\}\}/g
+
+/** 投递结果 */
+export interface WebhookResponse {
+  /** 接收地址 */
+  url: string
+  /** HTTP 状态码，请求未完成（连接失败、超时）时为 0 */
+  status: number
+  /** 是否成功 (2xx) */
+  ok: boolean
+  /** 耗时（毫秒） */
+  durationMs: number
+}
+
+/** 投递失败，附带响应状态 */
+export class WebhookError extends Error {
+  constructor(message: string, readonly response: WebhookResponse) {
+    super(message)
+    this.name = 'WebhookError'
+  }
+}
+
+/**
+ * 生成请求体
+ *
+ * @throws 模板不是合法 JSON 时抛出
+ */
+export function buildWebhookBody(
+  mail: StoredMail,
+  template?: string,
+  rule?: Pick<ForwardRule, 'id' | 'name'> | null
+): string {
+  if (!template?.trim()) {
+    return JSON.stringify({
+      event: 'mail.forward',
+      rule: rule ? { id: rule.id, name: rule.name } : null,
+      mail: getMailPayload(mail),
+    })
+  }
+  return JSON.stringify(fillTemplate(parseTemplate(template), getTemplateValues(mail, rule)))
+}
+
+/**
+ * 生成合并投递的请求体（投递时段的合并投递）
+ *
+ * 格式为 `{ event: 'mail.bundle', rule, mails }`，配置了模板时 `mails` 中每一项为按模板生成的内容
+ *
+ * @throws 模板不是合法 JSON 时抛出
+ */
+export function buildWebhookBundleBody(
+  mails: StoredMail[],
+  template?: string,
+  rule?: Pick<ForwardRule, 'id' | 'name'> | null
+): string {
+  const parsed = template?.trim() ? parseTemplate(template) : undefined
+  return JSON.stringify({
+    event: 'mail.bundle',
+    rule: rule ? { id: rule.id, name: rule.name } : null,
+    mails: mails.map(mail => (parsed === undefined ? getMailPayload(mail) : fillTemplate(parsed, getTemplateValues(mail, rule)))),
+  })
+}
+
+/**
+ * 发送 Webhook 请求
+ *
+ * @param timeout 请求超时（毫秒）
+ * @param event 事件类型，写入事件类型请求头
+ * @throws {WebhookError} 连接失败、超时或非 2xx 响应
+ */
+export async function sendWebhook(
+  target: WebhookForwardTarget,
+  body: string,
+  timeout: number,
+  event = 'mail.forward'
+): Promise<WebhookResponse> {
+  const url = target.url?.trim() || ''
+  if (!/^https?:\/\//i.test(url)) {
+    throw new Error(`无效的 Webhook 地址: ${url || '(空)'}`)
+  }
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json; charset=utf-8',
+    'User-Agent': 'koishi-plugin-mail-manager',
+    [EVENT_HEADER]: event,
+    ...target.headers,
+  }
+  if (target.secret) {
+    const timestamp = String(Math.floor(Date.now() / 1000))
+    headers[TIMESTAMP_HEADER] = timestamp
+    headers[SIGNATURE_HEADER] = `sha256=${signWebhookBody(target.secret, timestamp, body)}`
+  }
+
+  const startedAt = Date.now()
+  let response: Response
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body,
+      signal: AbortSignal.timeout(timeout),
+    })
+  } catch (e) {
+    const err = e as Error
+    const reason = err.name === 'TimeoutError' ? `请求超时 (${timeout}ms)` : (err.cause as Error)?.message || err.message
+    throw new WebhookError(`Webhook 请求失败: ${reason}`, { url, status: 0, ok: false, durationMs: Date.now() - startedAt })
+  }
+
+  const result: WebhookResponse = { url, status: response.status, ok: response.ok, durationMs: Date.now() - startedAt }
+  const text = await response.text().catch(() => '')
+  if (!response.ok) {
+    const detail = text.trim().slice(0, MAX_ERROR_BODY_LENGTH)
+    throw new WebhookError(`Webhook 返回 HTTP ${response.status}${detail ? `: ${detail}` : ''}`, result)
+  }
+  return result
+}
+
+/**
+ * 计算签名（十六进制）
+ */
+export function signWebhookBody(secret: string, timestamp: string, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+}
+
+/**
+ * 生成摘要的请求体
+ *
+ * 格式为 `{ event: 'mail.digest', rule, mails }`，每封邮件只包含主题、发件人与时间，不使用请求体模板
+ */
+export function buildWebhookDigestBody(
+  mails: DigestMail[],
+  rule?: Pick<ForwardRule, 'id' | 'name'> | null
+): string {
+  return JSON.stringify({
+    event: 'mail.digest',
+    rule: rule ? { id: rule.id, name: rule.name } : null,
+    mails: mails.map(mail => ({
+      id: mail.id,
+      accountId: mail.accountId,
+      subject: mail.subject,
+      from: mail.from,
+      date: new Date(mail.receivedAt).toISOString(),
+    })),
+  })
+}
+
+function parseTemplate(template: string): unknown {
+  try {
+    return JSON.parse(template)
+  } catch (e) {
+    throw new Error(`请求体模板不是合法的 JSON: ${(e as Error).message}`)
+  }
+}
+
+function getMailPayload(mail: StoredMail): Record<string, unknown> {
+  return {
+    id: mail.id,
+    accountId: mail.accountId,
+    messageId: mail.messageId,
+    mailbox: mail.mailbox ?? null,
+    subject: mail.subject,
+    from: mail.from,
+    to: mail.to,
+    cc: mail.cc || [],
+    date: new Date(mail.receivedAt).toISOString(),
+    text: mail.textContent ?? null,
+    html: mail.htmlContent ?? null,
+    attachments: mail.attachments.map(a => ({ filename: a.filename, contentType: a.contentType, size: a.size })),
+  }
+}
+
+function getTemplateValues(mail: StoredMail, rule?: Pick<ForwardRule, 'id' | 'name'> | null): Record<string, unknown> {
+  return {
+    ...getMailPayload(mail),
+    fromAddress: mail.from.address,
+    fromName: mail.from.name ?? null,
+    attachmentCount: mail.attachments.length,
+    ruleId: rule?.id ?? null,
+    ruleName: rule?.name ?? null,
+  }
+}
+
+function fillTemplate(node: unknown, values: Record<string, unknown>): unknown {
+  if (typeof node === 'string') {
+    const single = SINGLE_PLACEHOLDER.exec(node)
+    if (single && Object.hasOwn(values, single[1])) return values[single[1]]
+    return node.replace(PLACEHOLDER, (match, key) => Object.hasOwn(values, key) ? stringifyValue(values[key]) : match)
+  }
+  if (Array.isArray(node)) {
+    return node.map(item => fillTemplate(item, values))
+  }
+  if (node && typeof node === 'object') {
+    return Object.fromEntries(Object.entries(node).map(([key, value]) => [key, fillTemplate(value, values)]))
+  }
+  return node
+}
+
+/** 嵌入字符串时地址格式化为 `名称 <地址>`，列表以逗号分隔 */
+function stringifyValue(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  if (Array.isArray(value)) {
+    return value.map(item => (isAddress(item) ? formatAddress(item) : isAttachment(item) ? item.filename : String(item))).join(', ')
+  }
+  if (isAddress(value)) return formatAddress(value)
+  return String(value)
+}
+
+function isAddress(value: unknown): value is MailAddress {
+  return !!value && typeof value === 'object' && typeof (value as MailAddress).address === 'string'
+}
+
+function isAttachment(value: unknown): value is { filename: string } {
+  return !!value && typeof value === 'object' && typeof (value as { filename?: unknown }).filename === 'string'
+}
+
+function formatAddress(addr: MailAddress): string {
+  return addr.name ? `${addr.name} <${addr.address}>` : addr.address
+}
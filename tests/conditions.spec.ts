@@ -0,0 +1,156 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  findNextWindowStart,
+  matchDomainList,
+  matchTimeWindows,
+  parseSize,
+  parseTimeWindows,
+} from '../src/core/conditions'
+import { checkSingleCondition, explainConditionTree, validateConditionTree } from '../src/core/rules'
+import type { ConditionGroup, ForwardCondition, StoredMail } from '../src/types'
+
+/** 2026-01-05 是周一 */
+const at = (time: string) => new Date(`2026-01-${time}Z`)
+
+describe('parseSize', () => {
+  it('parses bytes and binary units', () => {
+    assert.equal(parseSize('1048576'), 1048576)
+    assert.equal(parseSize('500KB'), 500 * 1024)
+    assert.equal(parseSize('2 mb'), 2 * 1024 * 1024)
+    assert.equal(parseSize('1.5G'), Math.round(1.5 * 1024 * 1024 * 1024))
+    assert.equal(parseSize(' 10b '), 10)
+  })
+
+  it('rejects unknown formats', () => {
+    assert.throws(() => parseSize('huge'), /无效的大小/)
+    assert.throws(() => parseSize('5TB'), /无效的大小/)
+    assert.throws(() => parseSize('-1KB'), /无效的大小/)
+  })
+})
+
+describe('matchDomainList', () => {
+  it('matches listed domains and their subdomains', () => {
+    assert.equal(matchDomainList('a@example.com', 'example.com'), true)
+    assert.equal(matchDomainList('a@mail.Example.com', '@example.com'), true)
+    assert.equal(matchDomainList('a@other.org', 'example.com, other.org'), true)
+  })
+
+  it('does not match lookalike domains', () => {
+    assert.equal(matchDomainList('a@notexample.com', 'example.com'), false)
+    assert.equal(matchDomainList('a@example.com.evil.org', 'example.com'), false)
+  })
+
+  it('does not match a missing address', () => {
+    assert.equal(matchDomainList(undefined, 'example.com'), false)
+    assert.equal(matchDomainList('', 'example.com'), false)
+  })
+})
+
+describe('parseTimeWindows', () => {
+  it('parses day ranges, lists and times', () => {
+    const [window] = parseTimeWindows('mon-fri 09:00-18:30')
+    assert.deepEqual([...window.days].sort(), [1, 2, 3, 4, 5])
+    assert.equal(window.start, 9 * 60)
+    assert.equal(window.end, 18 * 60 + 30)
+  })
+
+  it('wraps day ranges across the week and accepts full names', () => {
+    const [window] = parseTimeWindows('friday-monday')
+    assert.deepEqual([...window.days].sort(), [0, 1, 5, 6])
+    assert.equal(window.start, 0)
+    assert.equal(window.end, 24 * 60)
+  })
+
+  it('splits multiple windows and defaults to every day', () => {
+    const windows = parseTimeWindows('sat,sun; 22-6\n * 12:00-13:00')
+    assert.equal(windows.length, 3)
+    assert.deepEqual([...windows[0].days].sort(), [0, 6])
+    assert.equal(windows[1].days.size, 7)
+    assert.deepEqual([windows[1].start, windows[1].end], [22 * 60, 6 * 60])
+    assert.equal(windows[2].days.size, 7)
+  })
+
+  it('rejects invalid input', () => {
+    assert.throws(() => parseTimeWindows(' ; '), /不能为空/)
+    assert.throws(() => parseTimeWindows('someday 09:00-10:00'), /无效的星期/)
+    assert.throws(() => parseTimeWindows('09:00'), /无效的时间段/)
+    assert.throws(() => parseTimeWindows('25:00-26:00'), /无效的时间/)
+    assert.throws(() => parseTimeWindows('09:00-09:00'), /开始与结束相同/)
+  })
+})
+
+describe('matchTimeWindows', () => {
+  const workHours = parseTimeWindows('mon-fri 09:00-18:00')
+  const night = parseTimeWindows('fri 22:00-06:00')
+
+  it('matches inside the window and excludes the end', () => {
+    assert.equal(matchTimeWindows(at('05T09:00:00'), workHours, 'UTC'), true)
+    assert.equal(matchTimeWindows(at('05T17:59:00'), workHours, 'UTC'), true)
+    assert.equal(matchTimeWindows(at('05T18:00:00'), workHours, 'UTC'), false)
+    assert.equal(matchTimeWindows(at('10T10:00:00'), workHours, 'UTC'), false)
+  })
+
+  it('continues a window that crosses midnight into the next day', () => {
+    assert.equal(matchTimeWindows(at('09T23:00:00'), night, 'UTC'), true)
+    assert.equal(matchTimeWindows(at('10T05:59:00'), night, 'UTC'), true)
+    assert.equal(matchTimeWindows(at('10T06:00:00'), night, 'UTC'), false)
+    assert.equal(matchTimeWindows(at('08T23:00:00'), night, 'UTC'), false)
+  })
+
+  it('uses the given time zone', () => {
+    // UTC 周一 02:00 是上海周一 10:00
+    assert.equal(matchTimeWindows(at('05T02:00:00'), workHours, 'Asia/Shanghai'), true)
+    assert.equal(matchTimeWindows(at('05T02:00:00'), workHours, 'UTC'), false)
+  })
+})
+
+describe('findNextWindowStart', () => {
+  const workHours = parseTimeWindows('mon-fri 09:00-18:00')
+
+  it('returns the time itself inside a window', () => {
+    const date = at('05T10:30:15')
+    assert.equal(findNextWindowStart(date, workHours, 'UTC'), date)
+  })
+
+  it('finds the start of the same day', () => {
+    assert.deepEqual(findNextWindowStart(at('05T07:15:30'), workHours, 'UTC'), at('05T09:00:00'))
+  })
+
+  it('skips to the next working day after hours and over the weekend', () => {
+    assert.deepEqual(findNextWindowStart(at('05T18:00:00'), workHours, 'UTC'), at('06T09:00:00'))
+    assert.deepEqual(findNextWindowStart(at('09T20:00:00'), workHours, 'UTC'), at('12T09:00:00'))
+  })
+
+  it('finds a window that starts before midnight', () => {
+    const night = parseTimeWindows('22:00-06:00')
+    assert.deepEqual(findNextWindowStart(at('05T12:00:00'), night, 'UTC'), at('05T22:00:00'))
+  })
+
+  it('computes the start in the given time zone', () => {
+    // 上海周一 07:00 (UTC 周日 23:00) 之后的 09:00 为 UTC 周一 01:00
+    assert.deepEqual(findNextWindowStart(at('04T23:00:00'), workHours, 'Asia/Shanghai'), at('05T01:00:00'))
+  })
+})
+
+describe('is_unread condition', () => {
+  const unread: ForwardCondition = { type: 'is_unread', value: '' }
+  const mail = (fields: Partial<StoredMail>) => ({ subject: 'hi', attachments: [], isRead: false, ...fields }) as StoredMail
+
+  it('matches mail that is unread locally and on the server', () => {
+    assert.equal(checkSingleCondition(mail({}), unread), true)
+    assert.equal(checkSingleCondition(mail({ serverFlags: ['\\Flagged'] }), unread), true)
+  })
+
+  it('does not match mail read in the console or seen on the server', () => {
+    assert.equal(checkSingleCondition(mail({ isRead: true }), unread), false)
+    assert.equal(checkSingleCondition(mail({ serverFlags: ['\\Seen'] }), unread), false)
+    assert.equal(checkSingleCondition(mail({ serverFlags: ['\\seen'] }), unread), false)
+  })
+
+  it('is valid without a value and described without one', () => {
+    const tree: ConditionGroup = { type: 'group', logic: 'and', conditions: [unread] }
+    assert.doesNotThrow(() => validateConditionTree(tree))
+    assert.deepEqual(explainConditionTree(mail({}), tree).children, [{ description: '未读邮件', matched: true }])
+  })
+})
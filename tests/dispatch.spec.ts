@@ -0,0 +1,65 @@
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { createServer } from 'http'
+import type { AddressInfo } from 'net'
+import type { Context } from 'koishi'
+import { TABLE_FORWARD_LOGS, TABLE_MAILS, initState } from '../src/core/state'
+import { executeForward } from '../src/core/dispatch'
+import { MailManagerLogger } from '../src/logger'
+import type { Config } from '../src/config'
+import type { MailRenderer } from '../src/render'
+import type { WebhookForwardTarget } from '../src/types'
+import { createMemoryDatabase } from './memory-database'
+
+describe('executeForward to webhook targets', () => {
+  const server = createServer((req, res) => {
+    req.resume()
+    req.on('end', () => {
+      res.statusCode = req.url === '/fail' ? 503 : req.url === '/accepted' ? 202 : 200
+      res.end()
+    })
+  })
+  const database = createMemoryDatabase()
+  let baseUrl: string
+
+  before(async () => {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+    initState(
+      { database } as unknown as Context,
+      { connectionTimeout: 5 } as Config,
+      new MailManagerLogger({} as Context),
+      {} as MailRenderer
+    )
+    await database.create(TABLE_MAILS, {
+      id: 1,
+      accountId: 1,
+      messageId: '<m1@example.com>',
+      from: { address: 'alice@example.com' },
+      to: [],
+      subject: 'hello',
+      attachments: [],
+      receivedAt: new Date(),
+      isForwarded: false,
+    })
+  })
+
+  after(() => server.close())
+
+  it('records the HTTP status of every webhook response', async () => {
+    const targets: WebhookForwardTarget[] = [
+      { type: 'webhook', url: `${baseUrl}/ok` },
+      { type: 'webhook', url: `${baseUrl}/accepted` },
+      { type: 'webhook', url: `${baseUrl}/fail` },
+    ]
+    const result = await executeForward(1, undefined, targets)
+    assert.equal(result.successCount, 2)
+
+    const logs = await database.get(TABLE_FORWARD_LOGS, { mailId: 1 })
+    assert.deepEqual(logs.map(log => [log.targetKey, log.status, log.httpStatus]), [
+      [`webhook:${baseUrl}/ok`, 'success', 200],
+      [`webhook:${baseUrl}/accepted`, 'success', 202],
+      [`webhook:${baseUrl}/fail`, 'failed', 503],
+    ])
+  })
+})
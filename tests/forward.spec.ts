@@ -0,0 +1,75 @@
+import { before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import type { Context } from 'koishi'
+import { TABLE_DELIVERIES, TABLE_RULES, initState } from '../src/core/state'
+import { ingestMail } from '../src/core/forward'
+import { createLoopMarker, verifyLoopMarker } from '../src/core/outgoing'
+import { MailManagerLogger } from '../src/logger'
+import type { Config } from '../src/config'
+import type { MailRenderer } from '../src/render'
+import type { ParsedMail } from '../src/parser'
+import { createMemoryDatabase } from './memory-database'
+
+describe('loop protection', () => {
+  const database = createMemoryDatabase()
+
+  before(async () => {
+    initState(
+      { database } as unknown as Context,
+      { connectionTimeout: 5, encryptionKey: 'test-encryption-key-0123456789' } as Config,
+      new MailManagerLogger({} as Context),
+      {} as MailRenderer
+    )
+    // 延迟投递，任务留在队列中便于检查
+    await database.create(TABLE_RULES, {
+      id: 1,
+      name: 'forward all',
+      enabled: true,
+      priority: 100,
+      conditions: [{ type: 'all', value: '' }],
+      conditionLogic: 'and',
+      targets: [{ type: 'webhook', url: 'http://127.0.0.1:9/hook' }],
+      delayMs: 3600_000,
+    })
+  })
+
+  const parsed = (messageId: string, loopMarker?: string): ParsedMail => ({
+    messageId,
+    subject: 'hello',
+    from: { address: 'alice@example.com' },
+    to: [{ address: 'bob@example.com' }],
+    text: 'hi',
+    date: new Date(),
+    loopMarker,
+  })
+
+  const waitForDeliveries = async (mailId: number) => {
+    for (let i = 0; i < 50; i++) {
+      const deliveries = await database.get(TABLE_DELIVERIES, { mailId })
+      if (deliveries.length) return deliveries
+      await new Promise(resolve => setTimeout(resolve, 10))
+    }
+    return []
+  }
+
+  it('accepts only markers signed with the encryption key', () => {
+    assert.equal(verifyLoopMarker(createLoopMarker('bob@example.com')), true)
+    assert.equal(verifyLoopMarker('bob@example.com'), false)
+    assert.equal(verifyLoopMarker(`bob@example.com; sig=${'0'.repeat(64)}`), false)
+    assert.equal(verifyLoopMarker(createLoopMarker('bob@example.com').replace('bob@', 'eve@')), false)
+    assert.equal(verifyLoopMarker(undefined), false)
+  })
+
+  it('still forwards a foreign message carrying the loop header', async () => {
+    const mail = await ingestMail(1, parsed('<foreign@example.com>', 'bob@example.com'))
+    assert.ok(mail)
+    const deliveries = await waitForDeliveries(mail.id)
+    assert.deepEqual(deliveries.map(d => d.ruleId), [1])
+  })
+
+  it('does not forward a message with a signed loop marker', async () => {
+    const mail = await ingestMail(1, parsed('<own@example.com>', createLoopMarker('bob@example.com')))
+    assert.ok(mail)
+    assert.deepEqual(await waitForDeliveries(mail.id), [])
+  })
+})
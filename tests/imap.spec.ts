@@ -0,0 +1,21 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { advanceWatermark } from '../src/imap'
+
+describe('advanceWatermark', () => {
+  it('advances to the last UID when every mail was delivered', () => {
+    assert.equal(advanceWatermark(10, [11, 12, 15], [true, true, true]), 15)
+  })
+
+  it('stops before the first failed mail', () => {
+    assert.equal(advanceWatermark(10, [11, 12, 15], [true, false, true]), 11)
+  })
+
+  it('keeps the watermark when the first mail failed', () => {
+    assert.equal(advanceWatermark(10, [11, 12], [false, true]), 10)
+  })
+
+  it('keeps the watermark for an empty batch', () => {
+    assert.equal(advanceWatermark(10, [], []), 10)
+  })
+})
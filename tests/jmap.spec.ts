@@ -0,0 +1,126 @@
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { createServer, type IncomingMessage, type ServerResponse } from 'http'
+import type { AddressInfo } from 'net'
+import { JmapClient, JmapRequestError, resolveSessionUrl } from '../src/jmap'
+
+const MAIL_CAPABILITY = 'urn:ietf:params:jmap:mail'
+const TOKEN = 'api-token'
+
+/** Email/changes 的变更记录：sinceState -> 结果 */
+const CHANGES: Record<string, { created: string[]; newState: string; hasMoreChanges: boolean }> = {
+  s0: { created: ['e1', 'e2'], newState: 's1', hasMoreChanges: true },
+  s1: { created: ['e3'], newState: 's2', hasMoreChanges: false },
+}
+
+/** 本地 JMAP 服务器：只接受 Bearer 令牌，实现测试用到的方法 */
+function handle(req: IncomingMessage, res: ServerResponse, body: string, calls: unknown[][]) {
+  const json = (status: number, data: unknown) => {
+    res.statusCode = status
+    res.setHeader('Content-Type', 'application/json')
+    res.end(JSON.stringify(data))
+  }
+
+  if (req.headers.authorization !== `Bearer ${TOKEN}`) return json(401, { detail: 'unauthorized' })
+
+  if (req.url === '/.well-known/jmap') {
+    return json(200, {
+      apiUrl: '/api/',
+      downloadUrl: '/download/{accountId}/{blobId}/{name}?type={type}',
+      primaryAccounts: { [MAIL_CAPABILITY]: 'A1' },
+    })
+  }
+
+  if (req.url === '/api/' && req.method === 'POST') {
+    const { methodCalls } = JSON.parse(body)
+    const methodResponses = methodCalls.map(([name, args, id]: [string, any, string]) => {
+      calls.push([name, args])
+      if (name === 'Email/changes') {
+        const changes = CHANGES[args.sinceState]
+        return changes ? [name, changes, id] : ['error', { type: 'cannotCalculateChanges' }, id]
+      }
+      if (name === 'Mailbox/get') {
+        return [name, { list: [{ id: 'm1', name: 'Inbox', parentId: null, role: 'inbox' }] }, id]
+      }
+      return ['error', { type: 'unknownMethod', description: name }, id]
+    })
+    return json(200, { methodResponses })
+  }
+
+  if (req.url === '/download/A1/blob%201/message.eml?type=message%2Frfc822') {
+    res.end('Subject: hello\r\n\r\nbody')
+    return
+  }
+
+  json(404, { detail: 'not found' })
+}
+
+describe('JmapClient', () => {
+  const calls: unknown[][] = []
+  const server = createServer((req, res) => {
+    let body = ''
+    req.on('data', chunk => body += chunk)
+    req.on('end', () => handle(req, res, body, calls))
+  })
+  let sessionUrl: string
+
+  const connect = async (password = TOKEN) => {
+    const client = new JmapClient({ sessionUrl, username: 'user@example.com', password, timeout: 5000 })
+    await client.connect()
+    return client
+  }
+
+  before(async () => {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    sessionUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/.well-known/jmap`
+  })
+
+  after(() => server.close())
+
+  it('falls back to a bearer token when basic auth is rejected', async () => {
+    const client = await connect()
+    assert.equal(client.accountId, 'A1')
+  })
+
+  it('reports rejected credentials', async () => {
+    await assert.rejects(connect('wrong'), (err: JmapRequestError) => err.authenticationFailed === true)
+  })
+
+  it('sends the account ID with every method call', async () => {
+    const client = await connect()
+    calls.length = 0
+    await client.getMailboxes()
+    assert.deepEqual(calls, [['Mailbox/get', { accountId: 'A1', ids: null, properties: ['id', 'name', 'parentId', 'role'] }]])
+  })
+
+  it('follows Email/changes until there are no more changes', async () => {
+    const client = await connect()
+    assert.deepEqual(await client.getCreatedSince('s0'), { created: ['e1', 'e2', 'e3'], newState: 's2' })
+  })
+
+  it('returns null when the server cannot calculate changes', async () => {
+    const client = await connect()
+    assert.equal(await client.getCreatedSince('expired'), null)
+  })
+
+  it('surfaces method errors', async () => {
+    const client = await connect()
+    await assert.rejects(client.call([['Thread/get', {}]]), (err: JmapRequestError) => err.type === 'unknownMethod')
+  })
+
+  it('downloads blobs through the session URL template', async () => {
+    const client = await connect()
+    assert.equal((await client.download('blob 1')).toString(), 'Subject: hello\r\n\r\nbody')
+  })
+})
+
+describe('resolveSessionUrl', () => {
+  it('uses the well-known path for a bare host', () => {
+    assert.equal(resolveSessionUrl({ imapHost: 'api.fastmail.com', imapPort: 443 }), 'https://api.fastmail.com/.well-known/jmap')
+    assert.equal(resolveSessionUrl({ imapHost: 'jmap.local', imapPort: 8080, imapTls: false }), 'http://jmap.local:8080/.well-known/jmap')
+  })
+
+  it('keeps a full session URL', () => {
+    assert.equal(resolveSessionUrl({ imapHost: 'https://mail.example.com/jmap/session' }), 'https://mail.example.com/jmap/session')
+  })
+})
@@ -0,0 +1,45 @@
+/** 测试用的内存数据库，只实现用到的查询（相等、$in 与 $lte 条件） */
+export function createMemoryDatabase() {
+  const tables = new Map<string, any[]>()
+  const rows = (table: string) => tables.get(table) ?? tables.set(table, []).get(table)!
+  const matches = (row: any, query: Record<string, any>) => Object.entries(query).every(([key, value]) => {
+    if (value && typeof value === 'object' && '$in' in value) return value.$in.includes(row[key])
+    if (value && typeof value === 'object' && '$lte' in value) return row[key] <= value.$lte
+    return row[key] === value
+  })
+
+  return {
+    async get(table: string, query: Record<string, any>) {
+      return rows(table).filter(row => matches(row, query)).map(row => structuredClone(row))
+    },
+    async create(table: string, data: any) {
+      const list = rows(table)
+      const row = { ...structuredClone(data), id: data.id ?? Math.max(0, ...list.map(r => r.id)) + 1 }
+      list.push(row)
+      return structuredClone(row)
+    },
+    async set(table: string, query: Record<string, any>, data: any) {
+      rows(table).filter(row => matches(row, query)).forEach(row => Object.assign(row, structuredClone(data)))
+    },
+    async remove(table: string, query: Record<string, any>) {
+      tables.set(table, rows(table).filter(row => !matches(row, query)))
+    },
+    select(table: string, query: Record<string, any> = {}) {
+      let field = 'id'
+      let direction = 'asc'
+      let limit = Infinity
+      const selection = {
+        where(condition: Record<string, any>) { query = { ...query, ...condition }; return selection },
+        orderBy(name: string, order: string) { field = name; direction = order; return selection },
+        limit(count: number) { limit = count; return selection },
+        async execute() {
+          const sign = direction === 'desc' ? -1 : 1
+          return rows(table).filter(row => matches(row, query))
+            .sort((a, b) => sign * (a[field] - b[field]))
+            .slice(0, limit)
+        },
+      }
+      return selection
+    },
+  }
+}
@@ -0,0 +1,159 @@
+import { after, before, beforeEach, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { createServer, type Server } from 'http'
+import type { AddressInfo } from 'net'
+import { Context, HTTP } from 'koishi'
+import { initState } from '../src/core/state'
+import { getAccountAccessToken, requestAccessToken } from '../src/core/oauth2'
+import { MailManagerLogger } from '../src/logger'
+import type { Config } from '../src/config'
+import type { MailAccount } from '../src/types'
+import type { MailRenderer } from '../src/render'
+
+/** 本地令牌端点：记录每次请求，refresh_token 为 revoked 时返回 invalid_grant */
+function createTokenEndpoint() {
+  const requests: URLSearchParams[] = []
+  let issued = 0
+  const server = createServer((req, res) => {
+    let body = ''
+    req.on('data', chunk => body += chunk)
+    req.on('end', () => {
+      const params = new URLSearchParams(body)
+      requests.push(params)
+      res.setHeader('Content-Type', 'application/json')
+      if (params.get('refresh_token') === 'revoked') {
+        res.statusCode = 400
+        res.end(JSON.stringify({ error: 'invalid_grant', error_description: 'Token has been revoked' }))
+        return
+      }
+      issued++
+      setTimeout(() => res.end(JSON.stringify({
+        access_token: `access-${issued}`,
+        expires_in: 3600,
+        refresh_token: `refresh-${issued}`,
+      })), 20)
+    })
+  })
+  return { server, requests }
+}
+
+describe('oauth2', () => {
+  const { server, requests } = createTokenEndpoint()
+  const app = new Context()
+  app.plugin(HTTP)
+  const accounts = new Map<number, Partial<MailAccount>>()
+  let endpoint: string
+
+  const database = {
+    async get(_table: string, query: { id: number }) {
+      const account = accounts.get(query.id)
+      return account ? [structuredClone(account)] : []
+    },
+    async set(_table: string, query: { id: number }, data: Partial<MailAccount>) {
+      Object.assign(accounts.get(query.id)!, data)
+    },
+  }
+
+  before(async () => {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/token`
+    initState(
+      { http: app.http, database } as unknown as Context,
+      {} as Config,
+      new MailManagerLogger(app),
+      {} as MailRenderer
+    )
+  })
+
+  after(() => server.close())
+
+  beforeEach(() => {
+    requests.length = 0
+    accounts.set(1, {
+      id: 1,
+      email: 'user@example.com',
+      imapHost: 'imap.example.com',
+      authType: 'oauth2',
+      oauth2: {
+        clientId: 'client',
+        clientSecret: 'secret',
+        refreshToken: 'refresh-0',
+        tokenEndpoint: endpoint,
+        accessToken: 'cached',
+        expiresAt: Date.now() + 60 * 60 * 1000,
+      },
+    })
+  })
+
+  describe('requestAccessToken', () => {
+    it('exchanges the refresh token with the client credentials', async () => {
+      const before = Date.now()
+      const result = await requestAccessToken({
+        clientId: 'client',
+        clientSecret: 'secret',
+        refreshToken: 'refresh-0',
+        scope: 'https://mail.google.com/',
+      }, endpoint)
+
+      assert.equal(requests.length, 1)
+      assert.deepEqual(Object.fromEntries(requests[0]), {
+        grant_type: 'refresh_token',
+        client_id: 'client',
+        client_secret: 'secret',
+        refresh_token: 'refresh-0',
+        scope: 'https://mail.google.com/',
+      })
+      assert.match(result.accessToken, /^access-\d+$/)
+      assert.match(result.refreshToken!, /^refresh-\d+$/)
+      assert.ok(result.expiresAt >= before + 3600 * 1000)
+    })
+
+    it('reports a revoked refresh token', async () => {
+      await assert.rejects(
+        requestAccessToken({ clientId: 'client', refreshToken: 'revoked' }, endpoint),
+        /invalid_grant.*Token has been revoked/
+      )
+    })
+
+    it('rejects incomplete credentials without a request', async () => {
+      await assert.rejects(requestAccessToken({ clientId: '', refreshToken: 'refresh-0' }, endpoint), /凭证不完整/)
+      assert.equal(requests.length, 0)
+    })
+  })
+
+  describe('getAccountAccessToken', () => {
+    it('returns the cached token while it is valid', async () => {
+      assert.equal(await getAccountAccessToken(1), 'cached')
+      assert.equal(requests.length, 0)
+    })
+
+    it('refreshes an expired token and stores the rotated refresh token', async () => {
+      accounts.get(1)!.oauth2!.expiresAt = Date.now() - 1000
+
+      const token = await getAccountAccessToken(1)
+      assert.equal(requests.length, 1)
+      assert.notEqual(token, 'cached')
+      assert.equal(accounts.get(1)!.oauth2!.accessToken, token)
+      assert.equal(accounts.get(1)!.oauth2!.refreshToken, token.replace('access', 'refresh'))
+    })
+
+    it('does not hand a forced refresh the cached token of a pending lookup', async () => {
+      const [cached, forced] = await Promise.all([
+        getAccountAccessToken(1),
+        getAccountAccessToken(1, true),
+      ])
+      assert.equal(cached, 'cached')
+      assert.notEqual(forced, 'cached')
+      assert.equal(requests.length, 1)
+    })
+
+    it('shares one request between concurrent forced refreshes', async () => {
+      const [first, second] = await Promise.all([
+        getAccountAccessToken(1, true),
+        getAccountAccessToken(1, true),
+      ])
+      assert.equal(first, second)
+      assert.equal(requests.length, 1)
+    })
+  })
+})
@@ -0,0 +1,102 @@
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { createServer } from 'net'
+import type { AddressInfo } from 'net'
+import type { Context } from 'koishi'
+import { Pop3Connection, planPop3Deletions, type Pop3UidRecord } from '../src/pop3'
+import type { MailAccount } from '../src/types'
+
+const DAY = 24 * 60 * 60 * 1000
+const now = new Date('2026-06-01T00:00:00Z')
+
+const uidls = new Map([[1, 'old-delivered'], [2, 'old-baseline'], [3, 'recent'], [4, 'new-a'], [5, 'new-b']])
+const known = new Map<string, Pop3UidRecord>([
+  ['old-delivered', { uidl: 'old-delivered', delivered: true, seenAt: new Date(now.getTime() - 10 * DAY) }],
+  ['old-baseline', { uidl: 'old-baseline', delivered: false, seenAt: new Date(now.getTime() - 10 * DAY) }],
+  ['recent', { uidl: 'recent', delivered: true, seenAt: new Date(now.getTime() - 1 * DAY) }],
+])
+
+describe('planPop3Deletions', () => {
+  it('never deletes in read-only mode', () => {
+    const plan = planPop3Deletions({ readOnly: true, pop3LeaveOnServer: false }, uidls, known, [4, 5], now)
+    assert.deepEqual([...plan], [])
+  })
+
+  it('deletes only the delivered new mails when not leaving mails on the server', () => {
+    const plan = planPop3Deletions({ pop3LeaveOnServer: false }, uidls, known, [4], now)
+    assert.deepEqual([...plan], [4])
+  })
+
+  it('keeps everything when leaving mails on the server without expiry', () => {
+    const plan = planPop3Deletions({ pop3LeaveOnServer: true, pop3DeleteAfterDays: 0 }, uidls, known, [4, 5], now)
+    assert.deepEqual([...plan], [])
+  })
+
+  it('deletes delivered mails older than the retention period', () => {
+    const plan = planPop3Deletions({ pop3LeaveOnServer: true, pop3DeleteAfterDays: 7 }, uidls, known, [4, 5], now)
+    assert.deepEqual([...plan], [1])
+  })
+})
+
+describe('Pop3Connection', () => {
+  const message = 'From: alice@example.com\r\nSubject: hello\r\nMessage-ID: <p1@example.com>\r\n\r\nhi\r\n'
+  const commands: string[] = []
+  // 只实现拉取用到的命令，单封邮件
+  const server = createServer((socket) => {
+    socket.write('+OK ready\r\n')
+    socket.on('data', (chunk) => {
+      for (const line of chunk.toString().split('\r\n').filter(Boolean)) {
+        const command = line.split(' ')[0].toUpperCase()
+        commands.push(command)
+        if (command === 'CAPA') socket.write('+OK\r\nUIDL\r\nUSER\r\n.\r\n')
+        else if (command === 'UIDL') socket.write('+OK\r\n1 uid-1\r\n.\r\n')
+        else if (command === 'LIST') socket.write(`+OK\r\n1 ${message.length}\r\n.\r\n`)
+        else if (command === 'RETR') socket.write(`+OK\r\n${message}.\r\n`)
+        else if (command === 'QUIT') socket.end('+OK bye\r\n')
+        else socket.write('+OK\r\n')
+      }
+    })
+  })
+  let port: number
+
+  before(async () => {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    port = (server.address() as AddressInfo).port
+  })
+
+  after(() => server.close())
+
+  it('does not delete mails whose UIDL could not be saved', async () => {
+    const account = {
+      id: 1,
+      email: 'bob@example.com',
+      password: 'secret',
+      protocol: 'pop3',
+      imapHost: '127.0.0.1',
+      imapPort: port,
+      imapTls: false,
+      pop3AllowInsecure: true,
+      pop3LeaveOnServer: false,
+    } as MailAccount
+    const received: string[] = []
+    const connection = new Pop3Connection(
+      { setTimeout: () => () => {}, setInterval: () => () => {} } as unknown as Context,
+      account,
+      { maxReconnectAttempts: 0, reconnectBaseInterval: 1000, reconnectMaxInterval: 1000, reconnectJitterRatio: 0, connectionTimeout: 5 },
+      async (mail) => { received.push(mail.messageId!) },
+      undefined,
+      {
+        load: async () => [],
+        save: async () => { throw new Error('database unavailable') },
+      }
+    )
+
+    await assert.rejects(connection.connect(), /database unavailable/)
+    await connection.disconnect()
+
+    assert.deepEqual(received, ['<p1@example.com>'])
+    assert.ok(commands.includes('RETR'))
+    assert.ok(!commands.includes('DELE'))
+    assert.ok(!commands.includes('QUIT'))
+  })
+})
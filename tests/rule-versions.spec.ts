@@ -0,0 +1,112 @@
+import { beforeEach, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import type { Context } from 'koishi'
+import { TABLE_RULES, TABLE_RULE_VERSIONS, initState } from '../src/core/state'
+import { diffValues } from '../src/core/rule-versions'
+import { createRule, deleteRule, getRule, restoreRuleVersion, updateRule } from '../src/core/rules'
+import { MailManagerLogger } from '../src/logger'
+import type { Config } from '../src/config'
+import type { MailRenderer } from '../src/render'
+import type { RuleFieldDiff } from '../src/types'
+import { createMemoryDatabase } from './memory-database'
+
+const diff = (before: unknown, after: unknown) => {
+  const diffs: RuleFieldDiff[] = []
+  diffValues(before, after, '', diffs)
+  return diffs
+}
+
+describe('diffValues', () => {
+  it('reports changed fields and expands nested objects', () => {
+    assert.deepEqual(diff(
+      { name: 'a', renderConfig: { width: 600, theme: 'light' } },
+      { name: 'b', renderConfig: { width: 600, theme: 'dark' } }
+    ), [
+      { field: 'name', before: 'a', after: 'b' },
+      { field: 'renderConfig.theme', before: 'light', after: 'dark' },
+    ])
+  })
+
+  it('compares arrays as a whole', () => {
+    assert.deepEqual(diff({ targets: [{ channelId: '1' }] }, { targets: [{ channelId: '2' }] }), [
+      { field: 'targets', before: [{ channelId: '1' }], after: [{ channelId: '2' }] },
+    ])
+  })
+
+  it('ignores key order, unset values and metadata fields', () => {
+    assert.deepEqual(diff(
+      { id: 1, updatedAt: new Date(1), digest: null, targets: [{ a: 1, b: 2 }] },
+      { id: 2, updatedAt: new Date(2), targets: [{ b: 2, a: 1 }] }
+    ), [])
+  })
+
+  it('reports added and removed fields', () => {
+    assert.deepEqual(diff({ description: 'x' }, { customCss: 'y' }), [
+      { field: 'customCss', before: undefined, after: 'y' },
+      { field: 'description', before: 'x', after: undefined },
+    ])
+  })
+})
+
+describe('restoreRuleVersion', () => {
+  let database: ReturnType<typeof createMemoryDatabase>
+
+  beforeEach(() => {
+    database = createMemoryDatabase()
+    initState(
+      { database } as unknown as Context,
+      {} as Config,
+      new MailManagerLogger({} as Context),
+      {} as MailRenderer
+    )
+  })
+
+  it('restores a version and records the restore', async () => {
+    const rule = await createRule({ name: 'v1', priority: 10 })
+    await updateRule(rule.id, { name: 'v2', priority: 20 })
+
+    const restored = await restoreRuleVersion(rule.id, 1, 'admin')
+    assert.equal(restored.name, 'v1')
+    assert.equal(restored.priority, 10)
+
+    const versions = await database.get(TABLE_RULE_VERSIONS, { ruleId: rule.id })
+    const latest = versions.sort((a, b) => b.version - a.version)[0]
+    assert.equal(latest.action, 'restore')
+    assert.equal(latest.restoredFrom, 1)
+    assert.equal(latest.operator, 'admin')
+  })
+
+  it('resets fields that did not exist when the version was recorded', async () => {
+    const rule = await createRule({ name: 'rule' })
+    // 模拟新增 shadow、schedule、digest 字段之前记录的快照
+    await database.set(TABLE_RULE_VERSIONS, { ruleId: rule.id, version: 1 }, {
+      snapshot: { id: rule.id, name: 'old', enabled: true, priority: 100, conditions: [], targets: [] },
+    })
+    await updateRule(rule.id, {
+      shadow: true,
+      description: 'changed later',
+      schedule: { windows: 'mon-fri 09:00-18:00' },
+      digest: { windowMinutes: 60, maxCount: 0 },
+    })
+
+    const restored = await restoreRuleVersion(rule.id, 1)
+    assert.equal(restored.name, 'old')
+    assert.equal(restored.shadow, false)
+    assert.equal(restored.description ?? undefined, undefined)
+    assert.equal(restored.schedule ?? undefined, undefined)
+    assert.equal(restored.digest ?? undefined, undefined)
+    assert.equal(restored.failureStrategy, 'mark-partial')
+  })
+
+  it('recreates a deleted rule with its original ID', async () => {
+    await createRule({ name: 'first' })
+    const rule = await createRule({ name: 'deleted', priority: 5 })
+    await deleteRule(rule.id)
+    assert.equal(await getRule(rule.id), null)
+
+    const restored = await restoreRuleVersion(rule.id, 1)
+    assert.equal(restored.id, rule.id)
+    assert.equal(restored.name, 'deleted')
+    assert.equal((await database.get(TABLE_RULES, {})).length, 2)
+  })
+})
@@ -0,0 +1,115 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  explainConditionTree,
+  matchConditionTree,
+  migrateImportedRule,
+  validateConditionTree,
+} from '../src/core/rules'
+import type { ConditionGroup, ConditionNode, ForwardCondition, StoredMail } from '../src/types'
+
+const mail = {
+  id: 1,
+  accountId: 1,
+  messageId: '<m1@example.com>',
+  from: { address: 'billing@shop.example.com' },
+  to: [{ address: 'me@example.com' }],
+  subject: 'Your invoice',
+  textContent: 'Amount due',
+  attachments: [],
+  receivedAt: new Date('2026-01-02T03:04:05Z'),
+} as StoredMail
+
+const subject = (value: string, negate?: boolean): ForwardCondition => ({ type: 'subject_contains', value, negate })
+const group = (logic: ConditionGroup['logic'], ...conditions: ConditionNode[]): ConditionGroup => ({ type: 'group', logic, conditions })
+
+describe('condition tree evaluation', () => {
+  it('requires every child in an and-group', () => {
+    assert.equal(matchConditionTree(mail, group('and', subject('invoice'), subject('receipt'))), false)
+    assert.equal(matchConditionTree(mail, group('and', subject('invoice'), subject('your'))), true)
+  })
+
+  it('requires one child in an or-group', () => {
+    assert.equal(matchConditionTree(mail, group('or', subject('receipt'), subject('invoice'))), true)
+    assert.equal(matchConditionTree(mail, group('or', subject('receipt'), subject('refund'))), false)
+  })
+
+  it('requires no child in a not-group', () => {
+    assert.equal(matchConditionTree(mail, group('not', subject('receipt'), subject('refund'))), true)
+    assert.equal(matchConditionTree(mail, group('not', subject('receipt'), subject('invoice'))), false)
+  })
+
+  it('applies negation to single conditions', () => {
+    assert.equal(matchConditionTree(mail, group('and', subject('invoice', true))), false)
+    assert.equal(matchConditionTree(mail, group('and', subject('receipt', true))), true)
+  })
+
+  it('treats empty groups as matched', () => {
+    assert.equal(matchConditionTree(mail, group('and')), true)
+    assert.equal(matchConditionTree(mail, group('or')), true)
+    assert.equal(matchConditionTree(mail, group('not')), true)
+  })
+
+  it('evaluates nested groups', () => {
+    const tree = group('and',
+      { type: 'from_domain', value: 'example.com' },
+      group('or', subject('receipt'), group('not', subject('refund'))),
+    )
+    assert.equal(matchConditionTree(mail, tree), true)
+  })
+
+  it('treats a condition that throws as unmatched', () => {
+    const tree = group('or', { type: 'size_greater_than', value: 'huge' })
+    assert.equal(matchConditionTree(mail, tree), false)
+  })
+
+  it('explains every node without short-circuiting', () => {
+    const result = explainConditionTree(mail, group('or', subject('invoice'), group('and', subject('receipt'))))
+    assert.deepEqual(result, {
+      description: '任一满足 (OR)',
+      matched: true,
+      children: [
+        { description: '主题包含 "invoice"', matched: true },
+        {
+          description: '全部满足 (AND)',
+          matched: false,
+          children: [{ description: '主题包含 "receipt"', matched: false }],
+        },
+      ],
+    })
+  })
+})
+
+describe('validateConditionTree', () => {
+  it('rejects a root that is not a group', () => {
+    assert.throws(() => validateConditionTree(subject('x') as unknown as ConditionGroup), /根节点必须是条件组/)
+  })
+
+  it('rejects unknown group logic', () => {
+    assert.throws(() => validateConditionTree(group('xor' as ConditionGroup['logic'])), /未知的条件组逻辑/)
+  })
+
+  it('limits the nesting depth', () => {
+    let tree = group('and', subject('x'))
+    for (let i = 0; i < 5; i++) tree = group('and', tree)
+    assert.throws(() => validateConditionTree(tree), /最多嵌套 5 层/)
+  })
+})
+
+describe('migrateImportedRule', () => {
+  it('converts 1.0 flat conditions into a condition tree', () => {
+    const migrated = migrateImportedRule({ name: 'old', conditions: [subject('invoice')], conditionLogic: 'or' })
+    assert.deepEqual(migrated.conditionTree, group('or', subject('invoice')))
+    assert.equal(migrated.name, 'old')
+  })
+
+  it('defaults to an empty and-group', () => {
+    assert.deepEqual(migrateImportedRule({ name: 'empty' }).conditionTree, group('and'))
+  })
+
+  it('keeps an existing condition tree', () => {
+    const tree = group('not', subject('spam'))
+    const data = { name: 'new', conditionTree: tree, conditions: [subject('ignored')] }
+    assert.equal(migrateImportedRule(data), data)
+  })
+})
@@ -0,0 +1,51 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { getThreadId, parseMail } from '../src/parser'
+import { getThreadKey } from '../src/core/threads'
+
+describe('getThreadId', () => {
+  it('uses the first reference as the thread root', () => {
+    assert.equal(getThreadId('<c@x>', ['<a@x>', '<b@x>'], '<b@x>'), '<a@x>')
+  })
+
+  it('falls back to In-Reply-To without references', () => {
+    assert.equal(getThreadId('<c@x>', undefined, '<b@x>'), '<b@x>')
+    assert.equal(getThreadId('<c@x>', [], '<b@x>'), '<b@x>')
+  })
+
+  it('starts a new thread for a mail that replies to nothing', () => {
+    assert.equal(getThreadId('<c@x>'), '<c@x>')
+  })
+})
+
+describe('getThreadKey', () => {
+  it('prefers the stored thread ID', () => {
+    assert.equal(getThreadKey({ messageId: '<c@x>', threadId: '<root@x>', references: ['<a@x>'] }), '<root@x>')
+  })
+
+  it('derives the thread ID for mails stored without one', () => {
+    assert.equal(getThreadKey({ messageId: '<c@x>', references: ['<a@x>', '<b@x>'] }), '<a@x>')
+  })
+})
+
+describe('parseMail threading headers', () => {
+  it('reads folded References and In-Reply-To', async () => {
+    const source = Buffer.from([
+      'From: Alice <alice@example.com>',
+      'To: bob@example.com',
+      'Subject: Re: Re: Plans',
+      'Message-ID: <c@example.com>',
+      'In-Reply-To: <b@example.com>',
+      'References: <a@example.com>',
+      ' <b@example.com>',
+      '',
+      'See you then.',
+      '',
+    ].join('\r\n'))
+
+    const mail = await parseMail(source)
+    assert.deepEqual(mail.references, ['<a@example.com>', '<b@example.com>'])
+    assert.equal(mail.inReplyTo, '<b@example.com>')
+    assert.equal(getThreadId(mail.messageId, mail.references, mail.inReplyTo), '<a@example.com>')
+  })
+})
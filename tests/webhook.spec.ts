@@ -0,0 +1,152 @@
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { createServer, type IncomingHttpHeaders } from 'http'
+import type { AddressInfo } from 'net'
+import {
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  WebhookError,
+  buildWebhookBody,
+  sendWebhook,
+  signWebhookBody,
+} from '../src/webhook'
+import type { StoredMail } from '../src/types'
+
+const mail = {
+  id: 7,
+  accountId: 1,
+  messageId: '<m1@example.com>',
+  mailbox: 'INBOX',
+  from: { name: 'Alice', address: 'alice@example.com' },
+  to: [{ address: 'bob@example.com' }, { name: 'Carol', address: 'carol@example.com' }],
+  subject: 'Invoice',
+  textContent: 'Please pay',
+  attachments: [{ filename: 'invoice.pdf', contentType: 'application/pdf', size: 1024 }],
+  receivedAt: new Date('2026-01-02T03:04:05Z'),
+} as StoredMail
+
+describe('signWebhookBody', () => {
+  it('signs `<timestamp>.<body>` with HMAC-SHA256', () => {
+    assert.equal(
+      signWebhookBody('whsec', '1700000000', '{"event":"mail.forward"}'),
+      '9d9ec659d18c9d445543e7edf8c313df39ce4b4c4c90881a350a8f3f106dd484'
+    )
+  })
+})
+
+describe('buildWebhookBody', () => {
+  it('uses the default payload without a template', () => {
+    const body = JSON.parse(buildWebhookBody(mail, '', { id: 3, name: 'Bills' }))
+    assert.equal(body.event, 'mail.forward')
+    assert.deepEqual(body.rule, { id: 3, name: 'Bills' })
+    assert.equal(body.mail.subject, 'Invoice')
+    assert.equal(body.mail.date, '2026-01-02T03:04:05.000Z')
+    assert.deepEqual(body.mail.attachments, [{ filename: 'invoice.pdf', contentType: 'application/pdf', size: 1024 }])
+  })
+
+  it('keeps the JSON type of a value that fills a whole string', () => {
+    const template = JSON.stringify({ id: '{{id}}', from: '{{from}}', files: ['{{attachmentCount}}'] })
+    assert.deepEqual(JSON.parse(buildWebhookBody(mail, template)), {
+      id: 7,
+      from: { name: 'Alice', address: 'alice@example.com' },
+      files: [1],
+    })
+  })
+
+  it('formats addresses and lists embedded in text', () => {
+    const template = JSON.stringify({
+      text: '{{fromName}}: {{subject}}',
+      from: 'From {{from}}',
+      to: 'To {{to}}',
+      files: 'Files: {{attachments}}',
+      rule: '{{ruleName}}',
+    })
+    assert.deepEqual(JSON.parse(buildWebhookBody(mail, template, { id: 3, name: 'Bills' })), {
+      text: 'Alice: Invoice',
+      from: 'From Alice <alice@example.com>',
+      to: 'To bob@example.com, Carol <carol@example.com>',
+      files: 'Files: invoice.pdf',
+      rule: 'Bills',
+    })
+  })
+
+  it('leaves unknown placeholders and non-string values untouched', () => {
+    const template = JSON.stringify({ unknown: '{{nope}}', count: 2, flag: true, empty: null })
+    assert.deepEqual(JSON.parse(buildWebhookBody(mail, template)), { unknown: '{{nope}}', count: 2, flag: true, empty: null })
+  })
+
+  it('ignores placeholders that name inherited properties', () => {
+    const template = JSON.stringify({ ctor: '{{constructor}}', text: 'x {{toString}} {{__proto__}}' })
+    assert.deepEqual(JSON.parse(buildWebhookBody(mail, template)), {
+      ctor: '{{constructor}}',
+      text: 'x {{toString}} {{__proto__}}',
+    })
+  })
+
+  it('rejects a template that is not JSON', () => {
+    assert.throws(() => buildWebhookBody(mail, '{ subject: {{subject}} }'), /请求体模板不是合法的 JSON/)
+  })
+})
+
+describe('sendWebhook', () => {
+  const received: { headers: IncomingHttpHeaders; body: string }[] = []
+  const server = createServer((req, res) => {
+    let body = ''
+    req.on('data', chunk => body += chunk)
+    req.on('end', () => {
+      received.push({ headers: req.headers, body })
+      if (req.url === '/fail') {
+        res.statusCode = 503
+        res.end('maintenance')
+        return
+      }
+      res.end('ok')
+    })
+  })
+  let baseUrl: string
+
+  before(async () => {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  after(() => server.close())
+
+  it('posts a signed body that the receiver can verify', async () => {
+    received.length = 0
+    const body = buildWebhookBody(mail)
+    const response = await sendWebhook(
+      { type: 'webhook', url: `${baseUrl}/hook`, secret: 'whsec', headers: { 'X-Custom': 'yes' } },
+      body,
+      5000,
+      'mail.digest'
+    )
+
+    assert.equal(response.status, 200)
+    assert.equal(response.ok, true)
+    const [{ headers, body: receivedBody }] = received
+    const timestamp = headers[TIMESTAMP_HEADER.toLowerCase()] as string
+    assert.equal(receivedBody, body)
+    assert.equal(headers[SIGNATURE_HEADER.toLowerCase()], `sha256=${signWebhookBody('whsec', timestamp, receivedBody)}`)
+    assert.ok(Math.abs(Number(timestamp) - Date.now() / 1000) < 60)
+    assert.equal(headers['x-mail-manager-event'], 'mail.digest')
+    assert.equal(headers['x-custom'], 'yes')
+  })
+
+  it('does not sign without a secret', async () => {
+    received.length = 0
+    await sendWebhook({ type: 'webhook', url: `${baseUrl}/hook` }, '{}', 5000)
+    assert.equal(received[0].headers[SIGNATURE_HEADER.toLowerCase()], undefined)
+  })
+
+  it('fails on a non-2xx response and keeps the status', async () => {
+    await assert.rejects(
+      sendWebhook({ type: 'webhook', url: `${baseUrl}/fail` }, '{}', 5000),
+      (err: WebhookError) => err.response.status === 503 && /HTTP 503: maintenance/.test(err.message)
+    )
+  })
+
+  it('rejects a URL that is not http(s)', async () => {
+    await assert.rejects(sendWebhook({ type: 'webhook', url: 'ftp://example.com' }, '{}', 5000), /无效的 Webhook 地址/)
+  })
+})